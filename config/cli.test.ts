@@ -0,0 +1,72 @@
+/**
+ * Configuration CLI Test Suite
+ *
+ * Validates the masking of sensitive values in printed configurations.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { isSensitiveKey, redactConfig } from './cli';
+
+describe('Configuration CLI', () => {
+  describe('isSensitiveKey', () => {
+    test('should flag secrets by the last key segment', () => {
+      expect(isSensitiveKey('db.oracle.password')).toBe(true);
+      expect(isSensitiveKey('certs.client.passphrase')).toBe(true);
+      expect(isSensitiveKey('apps.api.apiKey')).toBe(true);
+      expect(isSensitiveKey('apps.api.accessToken')).toBe(true);
+      expect(isSensitiveKey('vault.key')).toBe(true);
+    });
+
+    test('should not flag keys that only contain a secret word in a parent segment', () => {
+      expect(isSensitiveKey('password.length')).toBe(false);
+      expect(isSensitiveKey('db.oracle.host')).toBe(false);
+      expect(isSensitiveKey('keyboard')).toBe(false);
+    });
+  });
+
+  describe('redactConfig', () => {
+    test('should mask sensitive values and keep everything else', () => {
+      const config = {
+        name: 'T5',
+        db: { oracle: { host: 't5-oracle.host', port: 1521, password: 's3cret' } },
+        apps: {
+          saucedemo: {
+            username: 'standard_user',
+            roles: { admin: { username: 'admin', password: 'admin-pass' } },
+          },
+        },
+      };
+
+      expect(redactConfig(config)).toEqual({
+        name: 'T5',
+        db: { oracle: { host: 't5-oracle.host', port: 1521, password: '********' } },
+        apps: {
+          saucedemo: {
+            username: 'standard_user',
+            roles: { admin: { username: 'admin', password: '********' } },
+          },
+        },
+      });
+    });
+
+    test('should mask sensitive values inside arrays', () => {
+      expect(redactConfig({ certs: [{ origin: 'https://a', passphrase: 'p' }] })).toEqual({
+        certs: [{ origin: 'https://a', passphrase: '********' }],
+      });
+    });
+
+    test('should leave empty secrets visible so missing values stand out', () => {
+      expect(redactConfig({ password: '' })).toEqual({ password: '' });
+    });
+
+    test('should not modify the original tree', () => {
+      const config = { db: { password: 's3cret' } };
+
+      redactConfig(config);
+
+      expect(config.db.password).toBe('s3cret');
+    });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Configuration Inspection CLI
+ *
+ * Command line tool for inspecting environment configurations without starting
+ * a test run. Built on the same loader used by the hooks, so what it prints is
+ * exactly what a test run would see.
+ *
+ * Usage:
+ *   npm run config -- print T5 [--sources]   Print the resolved config (secrets masked)
+ *   npm run config -- validate T3 T5         Validate the given environments
+ *   npm run config -- validate --all         Validate every discovered environment
+ *   npm run config -- diff T3 T5             Structural diff between two environments
+ *   npm run config -- list                   List discovered environments
+ *   npm run config -- vault set <key> [value]  Store a vault secret (value read from stdin if omitted)
+ *   npm run config -- vault remove <key>     Remove a vault secret
+ *   npm run config -- vault list             List the vault keys
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import { discoverEnvironments, listEnvironments, loadEnvironmentConfig } from './index';
+import { VAULT_KEY_ENV, decryptVault, getVaultPath, updateVault } from './secrets';
+
+/** Replacement shown for sensitive values */
+const MASK = '********';
+
+/** Keys whose values are never printed */
+const SENSITIVE_KEY_PATTERN = /(password|passphrase|secret|token|apikey|api_key|privatekey|^key$)/i;
+
+/**
+ * Checks whether a configuration key holds a sensitive value
+ * @param keyPath - Dotted key path
+ * @returns True if the last key segment looks like a secret
+ */
+export function isSensitiveKey(keyPath: string): boolean {
+  const lastKey = keyPath.split('.').pop() || '';
+  return SENSITIVE_KEY_PATTERN.test(lastKey);
+}
+
+/**
+ * Returns a copy of a configuration tree with sensitive values masked
+ * @param value - Configuration value
+ * @param keyPath - Dotted key path of the value
+ * @returns Redacted copy
+ */
+export function redactConfig(value: unknown, keyPath = ''): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redactConfig(item, `${keyPath}[${index}]`));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = redactConfig(child, keyPath ? `${keyPath}.${key}` : key);
+    }
+    return result;
+  }
+
+  if (keyPath && isSensitiveKey(keyPath) && value !== '' && value !== undefined) {
+    return MASK;
+  }
+
+  return value;
+}
+
+/**
+ * Flattens a configuration tree into dotted key paths
+ * @param value - Configuration value
+ * @param prefix - Dotted key path of the value
+ * @param result - Flattened map being built (mutated)
+ * @returns Map of dotted key path to leaf value
+ */
+function flatten(
+  value: unknown,
+  prefix = '',
+  result: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, result);
+    }
+  } else {
+    result[prefix] = value;
+  }
+  return result;
+}
+
+/**
+ * Formats a leaf value for display, masking secrets
+ * @param keyPath - Dotted key path
+ * @param value - Leaf value
+ * @returns Display string
+ */
+function formatValue(keyPath: string, value: unknown): string {
+  return JSON.stringify(redactConfig(value, keyPath));
+}
+
+/**
+ * Prints the resolved configuration of an environment
+ * @param envName - Environment name
+ * @param withSources - Print one key per line annotated with its source layer
+ */
+function printCommand(envName: string, withSources: boolean): void {
+  const { config, sources } = loadEnvironmentConfig(envName);
+
+  if (!withSources) {
+    console.log(JSON.stringify(redactConfig(config), null, 2));
+    return;
+  }
+
+  const flat = flatten(config);
+  const width = Math.max(...Object.keys(flat).map(key => key.length));
+  for (const [keyPath, value] of Object.entries(flat)) {
+    const source = sources[keyPath] || 'schema default';
+    console.log(`${keyPath.padEnd(width)}  ${formatValue(keyPath, value)}  (${source})`);
+  }
+}
+
+/**
+ * Validates environments and reports every failure in one pass
+ * @param envNames - Environments to validate
+ * @returns True if all environments are valid
+ */
+function validateCommand(envNames: string[]): boolean {
+  const { clashes } = discoverEnvironments();
+  let valid = clashes.length === 0;
+
+  clashes.forEach(clash => console.log(`✗ clash: ${clash}`));
+
+  for (const envName of envNames) {
+    try {
+      const { config, deferredSecrets } = loadEnvironmentConfig(envName);
+      console.log(`✓ ${envName} (${config.group})`);
+      deferredSecrets.forEach(secret =>
+        console.log(`  ! ${secret.path}: ${secret.message}, needed by scenarios using it`)
+      );
+    } catch (error) {
+      valid = false;
+      console.log(`✗ ${envName}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(
+    `\n${envNames.length} environment(s) checked, ${valid ? 'all valid' : 'errors found'}`
+  );
+  return valid;
+}
+
+/**
+ * Prints a structural diff between two environments
+ * @param leftEnv - First environment name
+ * @param rightEnv - Second environment name
+ */
+function diffCommand(leftEnv: string, rightEnv: string): void {
+  const left = flatten(loadEnvironmentConfig(leftEnv).config);
+  const right = flatten(loadEnvironmentConfig(rightEnv).config);
+  const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).sort();
+  let differences = 0;
+
+  console.log(`--- ${leftEnv}\n+++ ${rightEnv}`);
+  for (const keyPath of keys) {
+    const inLeft = keyPath in left;
+    const inRight = keyPath in right;
+
+    if (inLeft && !inRight) {
+      console.log(`- ${keyPath}: ${formatValue(keyPath, left[keyPath])}`);
+    } else if (!inLeft && inRight) {
+      console.log(`+ ${keyPath}: ${formatValue(keyPath, right[keyPath])}`);
+    } else if (JSON.stringify(left[keyPath]) !== JSON.stringify(right[keyPath])) {
+      const change = isSensitiveKey(keyPath)
+        ? '(secret differs)'
+        : `${formatValue(keyPath, left[keyPath])} -> ${formatValue(keyPath, right[keyPath])}`;
+      console.log(`~ ${keyPath}: ${change}`);
+    } else {
+      continue;
+    }
+    differences++;
+  }
+
+  console.log(`\n${differences} difference(s)`);
+}
+
+/**
+ * Prints the discovered environments and their groups
+ */
+function listCommand(): void {
+  const { environments, clashes } = discoverEnvironments();
+  for (const envName of listEnvironments()) {
+    const entry = environments.get(envName)!;
+    console.log(`${envName.padEnd(10)} ${entry.group.padEnd(8)} ${entry.folder}/${envName}.json`);
+  }
+  clashes.forEach(clash => console.log(`clash: ${clash}`));
+}
+
+/**
+ * Creates, updates or lists the encrypted vault
+ * @param action - set, remove or list
+ * @param args - Vault key and, for set, the optional value
+ * @returns True if the action is known and has its arguments
+ */
+function vaultCommand(action: string | undefined, args: string[]): boolean {
+  const vaultPath = getVaultPath();
+
+  switch (action) {
+    case 'set': {
+      if (args.length < 1 || args.length > 2) return false;
+      // Reading the value from stdin keeps it out of the shell history
+      const value = args.length === 2 ? args[1] : fs.readFileSync(0, 'utf-8').trim();
+      updateVault({ [args[0]]: value });
+      console.log(`Stored ${args[0]} in ${vaultPath}`);
+      return true;
+    }
+    case 'remove':
+      if (args.length !== 1) return false;
+      updateVault({ [args[0]]: null });
+      console.log(`Removed ${args[0]} from ${vaultPath}`);
+      return true;
+    case 'list': {
+      if (!fs.existsSync(vaultPath)) {
+        console.log(`No vault at ${vaultPath}`);
+        return true;
+      }
+      const masterKey = process.env[VAULT_KEY_ENV];
+      if (!masterKey) {
+        throw new Error(`Vault master key ${VAULT_KEY_ENV} is not set`);
+      }
+      const secrets = decryptVault(JSON.parse(fs.readFileSync(vaultPath, 'utf-8')), masterKey);
+      Object.keys(secrets)
+        .sort()
+        .forEach(key => console.log(key));
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Prints usage information
+ */
+function printUsage(): void {
+  console.log(
+    [
+      'Usage: npm run config -- <command> [options]',
+      '',
+      'Commands:',
+      '  print <ENV> [--sources]   Print the resolved config with secrets masked',
+      '  validate <ENV...>|--all   Validate environments against the config schema',
+      '  diff <ENV_A> <ENV_B>      Show a structural diff between two environments',
+      '  list                      List discovered environments',
+      '  vault set <KEY> [VALUE]   Store a secret in the vault (VALUE read from stdin if omitted)',
+      '  vault remove <KEY>        Remove a secret from the vault',
+      '  vault list                List the keys stored in the vault',
+    ].join('\n')
+  );
+}
+
+/**
+ * CLI entry point
+ * @param argv - Command line arguments without the node and script paths
+ * @returns Process exit code
+ */
+export function main(argv: string[]): number {
+  const [command, ...args] = argv;
+  const positional = args.filter(arg => !arg.startsWith('--'));
+
+  try {
+    switch (command) {
+      case 'print':
+        if (positional.length !== 1) break;
+        printCommand(positional[0], args.includes('--sources'));
+        return 0;
+      case 'validate': {
+        const envNames = args.includes('--all') ? listEnvironments() : positional;
+        if (envNames.length === 0) break;
+        return validateCommand(envNames) ? 0 : 1;
+      }
+      case 'diff':
+        if (positional.length !== 2) break;
+        diffCommand(positional[0], positional[1]);
+        return 0;
+      case 'list':
+        listCommand();
+        return 0;
+      case 'vault':
+        if (!vaultCommand(positional[0], positional.slice(1))) break;
+        return 0;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  printUsage();
+  return 1;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,159 @@
+/**
+ * Configuration Loader Test Suite
+ *
+ * Validates layer merging with provenance tracking and environment discovery.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverEnvironments, mergeLayer, type ConfigSources } from './index';
+
+/** Temporary config directories created by the current test */
+const tempDirs: string[] = [];
+
+/**
+ * Loads a fresh copy of the configuration loader reading env files from a temporary config directory
+ * @param files - Env files keyed by path relative to config/env (e.g. 'test/T5.json')
+ * @returns Configuration loader module
+ */
+function loadWithEnvFiles(files: Record<string, object>): typeof import('./index') {
+  const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+  tempDirs.push(configDir);
+  for (const [file, content] of Object.entries(files)) {
+    const filePath = path.join(configDir, 'env', file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(content));
+  }
+
+  let loader!: typeof import('./index');
+  jest.isolateModules(() => {
+    const { PathUtils } = require('../src/utils/paths');
+    jest.spyOn(PathUtils, 'getConfigPath').mockReturnValue(configDir);
+    loader = require('./index');
+  });
+  return loader;
+}
+
+describe('Configuration Loader', () => {
+  afterEach(() => {
+    tempDirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  describe('mergeLayer', () => {
+    test('should merge objects key by key and record the layer of every leaf', () => {
+      const target: Record<string, unknown> = {};
+      const sources: ConfigSources = {};
+
+      mergeLayer(target, { db: { oracle: { port: 1521, host: 'base' } } }, 'base', sources);
+      mergeLayer(target, { db: { oracle: { host: 't5' } } }, 't5', sources);
+
+      expect(target).toEqual({ db: { oracle: { port: 1521, host: 't5' } } });
+      expect(sources).toEqual({ 'db.oracle.port': 'base', 'db.oracle.host': 't5' });
+    });
+
+    test('should replace arrays instead of merging them', () => {
+      const target: Record<string, unknown> = {};
+      const sources: ConfigSources = {};
+
+      mergeLayer(target, { tags: ['@a', '@b'] }, 'base', sources);
+      mergeLayer(target, { tags: ['@c'] }, 't5', sources);
+
+      expect(target).toEqual({ tags: ['@c'] });
+      expect(sources).toEqual({ tags: 't5' });
+    });
+
+    test('should remove a key and its provenance when a layer sets it to null', () => {
+      const target: Record<string, unknown> = {};
+      const sources: ConfigSources = {};
+
+      mergeLayer(target, { db: { oracle: { host: 'base' } }, name: 'T5' }, 'base', sources);
+      mergeLayer(target, { db: null }, 't5', sources);
+
+      expect(target).toEqual({ name: 'T5' });
+      expect(sources).toEqual({ name: 'base' });
+    });
+
+    test('should drop the provenance of a subtree replaced by a scalar', () => {
+      const target: Record<string, unknown> = {};
+      const sources: ConfigSources = {};
+
+      mergeLayer(target, { certs: { client: { origin: 'https://a' } } }, 'base', sources);
+      mergeLayer(target, { certs: 'none' }, 't5', sources);
+
+      expect(target).toEqual({ certs: 'none' });
+      expect(sources).toEqual({ certs: 't5' });
+    });
+
+    test('should replace a scalar with a merged object', () => {
+      const target: Record<string, unknown> = {};
+      const sources: ConfigSources = {};
+
+      mergeLayer(target, { features: 'off' }, 'base', sources);
+      mergeLayer(target, { features: { debugMode: true } }, 't5', sources);
+
+      expect(target).toEqual({ features: { debugMode: true } });
+      expect(sources).toEqual({ 'features.debugMode': 't5' });
+    });
+  });
+
+  describe('discoverEnvironments', () => {
+    test('should discover the repository environments without clashes', () => {
+      const { environments, clashes } = discoverEnvironments();
+
+      expect(environments.get('T5')).toMatchObject({ name: 'T5', folder: 'test', group: 'test' });
+      expect(environments.get('T3')).toMatchObject({ name: 'T3', folder: 'test', group: 'test' });
+      expect(clashes).toEqual([]);
+    });
+
+    test('should skip layer files starting with an underscore', () => {
+      const { discoverEnvironments } = loadWithEnvFiles({
+        '_defaults.json': {},
+        'dev/_base.json': {},
+        'dev/D1.json': { name: 'D1' },
+      });
+
+      expect(Array.from(discoverEnvironments().environments.keys())).toEqual(['D1']);
+    });
+
+    test('should prefer the group field over the folder and report the mismatch', () => {
+      const { discoverEnvironments } = loadWithEnvFiles({ 'test/U1.json': { group: 'uat' } });
+      const { environments, clashes } = discoverEnvironments();
+
+      expect(environments.get('U1')?.group).toBe('uat');
+      expect(clashes).toEqual([
+        "U1: folder 'test' disagrees with group field 'uat' in test/U1.json",
+      ]);
+    });
+
+    test('should keep the first folder of an environment defined twice', () => {
+      const { discoverEnvironments, getEnvGroup } = loadWithEnvFiles({
+        'dev/X1.json': {},
+        'uat/X1.json': {},
+      });
+      const { environments, clashes } = discoverEnvironments();
+
+      expect(environments.get('X1')?.folder).toBe('dev');
+      expect(clashes).toEqual(['X1: defined in both dev/ and uat/']);
+      expect(() => getEnvGroup('X1')).toThrow('Conflicting configuration for environment X1');
+    });
+
+    test('should load environments of any group folder', () => {
+      const { loadEnvironmentConfig } = loadWithEnvFiles({
+        'sandbox/jdoe.json': { name: 'jdoe', apps: { shop: { baseUrl: 'https://shop.test' } } },
+      });
+
+      expect(loadEnvironmentConfig('jdoe').config.group).toBe('sandbox');
+    });
+
+    test('should reject unknown environments', () => {
+      const { getEnvGroup } = loadWithEnvFiles({ 'dev/D1.json': {} });
+
+      expect(getEnvGroup('D1')).toBe('dev');
+      expect(() => getEnvGroup('Z9')).toThrow('Unknown environment: Z9. Valid environments: D1');
+    });
+  });
+});
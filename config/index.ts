@@ -7,10 +7,15 @@
  * 
  * Key Features:
  * - Environment-specific configuration loading
+ * - Environment discovery by scanning config/env/<group>/<ENV>.json
+ * - Layered inheritance (_defaults.json < <group>/_base.json < <ENV>.json)
+ * - Per-key provenance showing which layer supplied each value
  * - Runtime configuration overrides via environment variables
+ * - ${env:...}, ${file:...} and ${vault:...} secret placeholders
  * - Configuration validation using Zod schemas
  * - Caching for performance optimization
  * - Support for Oracle, PostgreSQL, and client certificate configurations
+ * - Multiple applications per environment, selected per scenario
  * 
  * @author OpenHands
  * @version 1.0.0
@@ -19,8 +24,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { config as dotenvConfig } from 'dotenv';
-import { validateConfig, type Config } from './schema';
+import { ZodError } from 'zod';
+import { validateConfig, type Config, type AppConfig } from './schema';
+import {
+  SecretResolver,
+  formatUnresolvedPlaceholders,
+  type UnresolvedPlaceholder,
+} from './secrets';
 import { logger } from '../src/utils/logger';
+import { PathUtils } from '../src/utils/paths';
 
 // Load environment variables from .env file
 dotenvConfig();
@@ -29,27 +41,150 @@ dotenvConfig();
 const APP_ENV = process.env.APP_ENV || 'T5';
 
 /**
- * Mapping of environment names to their respective groups
- * Used to organize configurations by deployment type
- */
-const ENV_GROUP_MAP: Record<string, string> = {
-  D1: 'dev',      // Development environments
-  D2: 'dev',
-  D3: 'dev',
-  T1: 'test',     // Test environments
-  T2: 'test',
-  T3: 'test',
-  T4: 'test',
-  T5: 'test',
-  U1: 'uat',      // User Acceptance Test environments
-  U2: 'uat',
-  U3: 'uat',
-  U4: 'uat',
-  QD1: 'onprem',  // On-premise environments
-  QD2: 'onprem',
-  QD3: 'onprem',
-  QD4: 'onprem',
-};
+ * Directory holding the environment configuration files, one sub-folder per group
+ * Resolved from the project root, so compiled code under dist/ reads the same files.
+ */
+const ENV_DIR = path.join(PathUtils.getConfigPath(), 'env');
+
+/**
+ * Sections whose secrets are only required by the code using them
+ * A missing database password or certificate passphrase fails the @db or @mtls
+ * scenarios that need it, not every run.
+ */
+const DEFERRED_SECRET_SECTIONS = ['db', 'certs'];
+
+/**
+ * An environment discovered in the config directory
+ */
+export interface EnvironmentEntry {
+  /** Environment name, taken from the file name (e.g. 'T5') */
+  name: string;
+  /** Folder the file lives in (e.g. 'test'), which also locates the group _base.json */
+  folder: string;
+  /** Environment group, taken from the file's `group` field or else from the folder */
+  group: string;
+  /** Absolute path to the environment file */
+  path: string;
+}
+
+/**
+ * Result of scanning the config directory for environments
+ */
+export interface EnvironmentDiscovery {
+  /** Discovered environments keyed by environment name */
+  environments: Map<string, EnvironmentEntry>;
+  /** Human-readable descriptions of conflicting definitions */
+  clashes: string[];
+}
+
+/**
+ * Reads the `group` field of an environment file without validating the rest
+ * @param filePath - Absolute path to the environment file
+ * @returns The group field, or undefined if absent or unreadable
+ */
+function readGroupField(filePath: string): string | undefined {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return typeof data?.group === 'string' ? data.group : undefined;
+  } catch {
+    // Invalid JSON is reported when the environment is actually loaded
+    return undefined;
+  }
+}
+
+/**
+ * Discovers environments by scanning `config/env/<folder>/<ENV>.json`
+ * Files starting with an underscore (e.g. `_base.json`) are layers, not environments.
+ * Reports a clash when the folder and the file's `group` field disagree, or when
+ * the same environment name exists in more than one folder.
+ * @returns Discovered environments and clashes
+ */
+export function discoverEnvironments(): EnvironmentDiscovery {
+  const environments = new Map<string, EnvironmentEntry>();
+  const clashes: string[] = [];
+
+  if (!fs.existsSync(ENV_DIR)) {
+    return { environments, clashes };
+  }
+
+  const folders = fs
+    .readdirSync(ENV_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+
+  for (const folder of folders) {
+    const files = fs
+      .readdirSync(path.join(ENV_DIR, folder))
+      .filter(file => file.endsWith('.json') && !file.startsWith('_'))
+      .sort();
+
+    for (const file of files) {
+      const name = path.basename(file, '.json');
+      const filePath = path.join(ENV_DIR, folder, file);
+      const groupField = readGroupField(filePath);
+
+      if (groupField && groupField !== folder) {
+        clashes.push(`${name}: folder '${folder}' disagrees with group field '${groupField}' in ${folder}/${file}`);
+      }
+
+      const existing = environments.get(name);
+      if (existing) {
+        clashes.push(`${name}: defined in both ${existing.folder}/ and ${folder}/`);
+        continue;
+      }
+
+      environments.set(name, { name, folder, group: groupField || folder, path: filePath });
+    }
+  }
+
+  return { environments, clashes };
+}
+
+/** Cached discovery result, the config directory does not change during a run */
+let cachedDiscovery: EnvironmentDiscovery | null = null;
+
+/**
+ * Gets the discovered environments, scanning the config directory on first use
+ * Clashes are logged once as warnings
+ * @returns Cached discovery result
+ */
+function getDiscovery(): EnvironmentDiscovery {
+  if (!cachedDiscovery) {
+    cachedDiscovery = discoverEnvironments();
+    cachedDiscovery.clashes.forEach(clash => logger.warn(`Environment config clash: ${clash}`));
+  }
+  return cachedDiscovery;
+}
+
+/**
+ * Lists the names of all discovered environments
+ * @returns Sorted environment names
+ */
+export function listEnvironments(): string[] {
+  return Array.from(getDiscovery().environments.keys()).sort();
+}
+
+/**
+ * Looks up a discovered environment
+ * @param envName - The environment name (e.g., 'T5', 'D1')
+ * @returns The discovered environment entry
+ * @throws Error if the environment is unknown or its definition clashes
+ */
+function getEnvironmentEntry(envName: string): EnvironmentEntry {
+  const { environments, clashes } = getDiscovery();
+  const entry = environments.get(envName);
+  if (!entry) {
+    throw new Error(`Unknown environment: ${envName}. Valid environments: ${listEnvironments().join(', ')}`);
+  }
+
+  const envClashes = clashes.filter(clash => clash.startsWith(`${envName}:`));
+  if (envClashes.length > 0) {
+    throw new Error(`Conflicting configuration for environment ${envName}:\n  - ${envClashes.join('\n  - ')}`);
+  }
+
+  return entry;
+}
 
 /**
  * Determines the environment group for a given environment name
@@ -57,97 +192,309 @@ const ENV_GROUP_MAP: Record<string, string> = {
  * @returns The environment group (e.g., 'test', 'dev')
  * @throws Error if environment name is not recognized
  */
-function getEnvGroup(envName: string): string {
-  const group = ENV_GROUP_MAP[envName];
-  if (!group) {
-    throw new Error(`Unknown environment: ${envName}. Valid environments: ${Object.keys(ENV_GROUP_MAP).join(', ')}`);
+export function getEnvGroup(envName: string): string {
+  return getEnvironmentEntry(envName).group;
+}
+
+/** Name of the optional global defaults file at the root of the env directory */
+const DEFAULTS_FILE = '_defaults.json';
+
+/** Name of the optional per-group base file inside each group directory */
+const GROUP_BASE_FILE = '_base.json';
+
+/** Layer name recorded for values supplied by environment variable overrides */
+const ENV_OVERRIDE_LAYER = 'environment variables';
+
+/**
+ * A single configuration layer, merged in order from least to most specific
+ */
+interface ConfigLayer {
+  /** Layer name recorded as the source of the keys it supplies (relative file path) */
+  name: string;
+  /** Raw, unvalidated layer content */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Mapping of dotted configuration keys (e.g. 'db.oracle.host') to the layer that supplied them
+ */
+export type ConfigSources = Record<string, string>;
+
+/**
+ * Checks whether a value is a plain JSON object (not an array or null)
+ * @param value - Value to check
+ * @returns True if the value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a configuration layer from disk
+ * @param filePath - Absolute path to the JSON layer file
+ * @returns Parsed layer or null if the file does not exist
+ * @throws Error if the file exists but is not valid JSON
+ */
+function readConfigLayer(filePath: string): ConfigLayer | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
   }
-  return group;
+
+  try {
+    return {
+      name: path.relative(PathUtils.getConfigPath(), filePath).split(path.sep).join('/'),
+      data: JSON.parse(fs.readFileSync(filePath, 'utf-8')),
+    };
+  } catch (error) {
+    throw new Error(`Failed to parse config layer ${filePath}: ${error}`);
+  }
+}
+
+/**
+ * Deep-merges a layer into the target object and records the source of every leaf value
+ * Objects are merged key by key; arrays and primitives replace the lower layer's value,
+ * and null removes the key altogether
+ * @param target - Object being built (mutated)
+ * @param source - Layer content to merge in
+ * @param layerName - Name recorded as the source of the merged keys
+ * @param sources - Provenance map being built (mutated)
+ * @param prefix - Dotted key path of the current object
+ */
+export function mergeLayer(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  layerName: string,
+  sources: ConfigSources,
+  prefix = ''
+): void {
+  for (const [key, value] of Object.entries(source)) {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+
+    if (value === null) {
+      // null removes a key inherited from a lower layer (e.g. "db": null for UI-only environments)
+      clearSources(sources, keyPath);
+      delete target[key];
+    } else if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) {
+        clearSources(sources, keyPath);
+        target[key] = {};
+      }
+      mergeLayer(target[key] as Record<string, unknown>, value, layerName, sources, keyPath);
+    } else {
+      clearSources(sources, keyPath);
+      target[key] = value;
+      sources[keyPath] = layerName;
+    }
+  }
+}
+
+/**
+ * Removes provenance entries for a key and everything below it
+ * Used when a higher layer replaces a whole subtree
+ * @param sources - Provenance map (mutated)
+ * @param keyPath - Dotted key path being replaced
+ */
+function clearSources(sources: ConfigSources, keyPath: string): void {
+  for (const key of Object.keys(sources)) {
+    if (key === keyPath || key.startsWith(`${keyPath}.`)) {
+      delete sources[key];
+    }
+  }
+}
+
+/**
+ * Collects the configuration layers for an environment, least specific first:
+ * 0. the folder name as `group` (so environment files may omit it)
+ * 1. `env/_defaults.json` (optional, shared by every environment)
+ * 2. `env/<folder>/_base.json` (optional, shared by the folder's environments)
+ * 3. `env/<folder>/<ENV>.json` (required)
+ * @param envName - The environment name to collect layers for
+ * @returns Ordered list of layers
+ * @throws Error if the environment file is not found
+ */
+function getConfigLayers(envName: string): ConfigLayer[] {
+  const { folder, path: configPath } = getEnvironmentEntry(envName);
+
+  const envLayer = readConfigLayer(configPath);
+  if (!envLayer) {
+    throw new Error(`Configuration file not found: ${configPath}`);
+  }
+
+  // The folder supplies the group unless a file layer sets it explicitly
+  const folderLayer: ConfigLayer = { name: `env/${folder}/`, data: { group: folder } };
+
+  const layers = [
+    folderLayer,
+    readConfigLayer(path.join(ENV_DIR, DEFAULTS_FILE)),
+    readConfigLayer(path.join(ENV_DIR, folder, GROUP_BASE_FILE)),
+    envLayer,
+  ];
+
+  return layers.filter((layer): layer is ConfigLayer => layer !== null);
 }
 
 /**
- * Loads and validates configuration from environment-specific JSON file
+ * Loads, merges and validates the configuration layers of an environment
  * @param envName - The environment name to load configuration for
- * @returns Validated configuration object
+ * @returns Validated configuration object, the source of every key and the deferred secrets
  * @throws Error if configuration file is not found or invalid
  */
-function loadConfigFile(envName: string): Config {
-  const group = getEnvGroup(envName);
-  const configPath = path.join(__dirname, 'env', group, `${envName}.json`);
+function loadConfigFile(envName: string): {
+  config: Config;
+  sources: ConfigSources;
+  deferredSecrets: UnresolvedPlaceholder[];
+} {
+  const layers = getConfigLayers(envName);
+  const merged: Record<string, unknown> = {};
+  const sources: ConfigSources = {};
 
-  if (!fs.existsSync(configPath)) {
-    throw new Error(`Configuration file not found: ${configPath}`);
+  for (const layer of layers) {
+    mergeLayer(merged, layer.data, layer.name, sources);
   }
 
+  // Fails with the JSON path of every placeholder that cannot be resolved, except for
+  // the deferred sections, whose placeholders stay in place until the section is used
+  const { resolved, deferred } = new SecretResolver().resolveDeferring(
+    merged,
+    DEFERRED_SECRET_SECTIONS
+  );
+
   try {
-    const configData = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-    return validateConfig(configData);
+    return { config: validateConfig(resolved), sources, deferredSecrets: deferred };
   } catch (error) {
-    throw new Error(`Failed to load or validate config from ${configPath}: ${error}`);
+    throw new Error(
+      `Failed to validate config for ${envName} (layers: ${layers.map(layer => layer.name).join(' < ')}): ${formatConfigError(error)}`
+    );
+  }
+}
+
+/**
+ * Formats a validation error as one line per failing key
+ * @param error - Error thrown by validateConfig
+ * @returns Readable error description
+ */
+function formatConfigError(error: unknown): string {
+  if (error instanceof ZodError) {
+    return error.issues
+      .map(issue => `\n  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('');
+  }
+  return String(error);
+}
+
+/**
+ * Determines the application used when no application is requested explicitly
+ * @param config - Configuration object
+ * @returns Name of the default application (`defaultApp` or the first configured app)
+ */
+export function getDefaultAppName(config: Config): string {
+  return config.defaultApp || Object.keys(config.apps)[0];
+}
+
+/**
+ * Resolves the configuration of a single application
+ * @param config - Configuration object
+ * @param appName - Application name, defaults to the environment's default application
+ * @returns Application configuration
+ * @throws Error if the application is not configured for the environment
+ */
+export function getAppConfig(config: Config, appName?: string): AppConfig {
+  const name = appName || getDefaultAppName(config);
+  const app = config.apps[name];
+  if (!app) {
+    throw new Error(
+      `Unknown application: ${name}. Applications configured for ${config.name}: ${Object.keys(config.apps).join(', ')}`
+    );
   }
+  return app;
 }
 
 /**
  * Applies runtime environment variable overrides to the base configuration
- * This allows for dynamic configuration changes without modifying config files
+ * This allows for dynamic configuration changes without modifying config files.
+ * Secrets such as database passwords are injected with placeholders instead
+ * (see config/secrets.ts).
  * @param config - Base configuration object
  * @returns Configuration with environment variable overrides applied
  */
 function applyEnvironmentOverrides(config: Config): Config {
-  const overrides: Partial<Config> = {};
-
-  // Application configuration overrides
-  if (process.env.APP_BASE_URL) {
-    overrides.app = { ...config.app, baseUrl: process.env.APP_BASE_URL };
-  }
-  if (process.env.APP_USERNAME) {
-    overrides.app = { ...overrides.app, ...config.app, username: process.env.APP_USERNAME };
-  }
-  if (process.env.APP_PASSWORD) {
-    overrides.app = { ...overrides.app, ...config.app, password: process.env.APP_PASSWORD };
-  }
-
-  // Oracle database configuration overrides
-  const oracleOverrides: Partial<Config['db']['oracle']> = {};
-  if (process.env.ORACLE_HOST) oracleOverrides.host = process.env.ORACLE_HOST;
-  if (process.env.ORACLE_PORT) oracleOverrides.port = parseInt(process.env.ORACLE_PORT, 10);
-  if (process.env.ORACLE_SERVICE_NAME) oracleOverrides.serviceName = process.env.ORACLE_SERVICE_NAME;
-  if (process.env.ORACLE_USER) oracleOverrides.user = process.env.ORACLE_USER;
-  if (process.env.ORACLE_PASSWORD) oracleOverrides.password = process.env.ORACLE_PASSWORD;
-
-  // PostgreSQL database configuration overrides
-  const pgOverrides: Partial<Config['db']['postgres']> = {};
-  if (process.env.POSTGRES_HOST) pgOverrides.host = process.env.POSTGRES_HOST;
-  if (process.env.POSTGRES_PORT) pgOverrides.port = parseInt(process.env.POSTGRES_PORT, 10);
-  if (process.env.POSTGRES_DATABASE) pgOverrides.database = process.env.POSTGRES_DATABASE;
-  if (process.env.POSTGRES_USER) pgOverrides.user = process.env.POSTGRES_USER;
-  if (process.env.PG_PASSWORD) pgOverrides.password = process.env.PG_PASSWORD;
-
-  // Client certificate configuration overrides
-  const certOverrides: Partial<Config['certs']['client']> = {};
-  if (process.env.PFX_PATH) certOverrides.pfxPath = process.env.PFX_PATH;
-  if (process.env.PFX_PASSPHRASE) certOverrides.passphrase = process.env.PFX_PASSPHRASE;
-  if (process.env.CERT_ORIGIN) certOverrides.origin = process.env.CERT_ORIGIN;
-
-  // Merge all overrides with base configuration
+  // Application configuration overrides target the default application
+  const defaultAppName = getDefaultAppName(config);
+  const appOverrides: Partial<AppConfig> = {};
+  if (process.env.APP_BASE_URL) appOverrides.baseUrl = process.env.APP_BASE_URL;
+  if (process.env.APP_USERNAME) appOverrides.username = process.env.APP_USERNAME;
+  if (process.env.APP_PASSWORD) appOverrides.password = process.env.APP_PASSWORD;
+
+  // Merge overrides with base configuration
   const mergedConfig: Config = {
     ...config,
-    ...overrides,
-    db: {
-      oracle: { ...config.db.oracle, ...oracleOverrides },
-      postgres: { ...config.db.postgres, ...pgOverrides },
-    },
-    certs: {
-      client: { ...config.certs.client, ...certOverrides },
+    ...(process.env.BROWSER && {
+      browser: { ...config.browser, engine: process.env.BROWSER.toLowerCase() as Config['browser']['engine'] },
+    }),
+    ...(process.env.VIDEO && {
+      video: { ...config.video, mode: process.env.VIDEO.toLowerCase() as Config['video']['mode'] },
+    }),
+    apps: {
+      ...config.apps,
+      [defaultAppName]: { ...config.apps[defaultAppName], ...appOverrides },
     },
   };
 
   return validateConfig(mergedConfig);
 }
 
+/**
+ * Records environment variable overrides in the provenance map
+ * Compares the merged configuration with the file-based one and attributes changed leaves
+ * @param fileConfig - Configuration built from the file layers
+ * @param finalConfig - Configuration after environment overrides
+ * @param sources - Provenance map (mutated)
+ * @param prefix - Dotted key path of the current object
+ */
+function recordOverrideSources(
+  fileConfig: unknown,
+  finalConfig: unknown,
+  sources: ConfigSources,
+  prefix = ''
+): void {
+  if (isPlainObject(finalConfig)) {
+    const fileObject = isPlainObject(fileConfig) ? fileConfig : {};
+    for (const [key, value] of Object.entries(finalConfig)) {
+      recordOverrideSources(fileObject[key], value, sources, prefix ? `${prefix}.${key}` : key);
+    }
+  } else if (prefix && JSON.stringify(fileConfig) !== JSON.stringify(finalConfig)) {
+    sources[prefix] = ENV_OVERRIDE_LAYER;
+  }
+}
+
+/**
+ * Loads the fully resolved configuration of any discovered environment
+ * Applies layers, secret placeholders, validation and environment overrides, without caching.
+ * Used by tooling (e.g. the config CLI) to inspect environments other than APP_ENV.
+ * @param envName - The environment name to load
+ * @returns Validated configuration, the source of every key and the unresolved db/certs secrets
+ * @throws Error if configuration loading or validation fails
+ */
+export function loadEnvironmentConfig(envName: string): {
+  config: Config;
+  sources: ConfigSources;
+  deferredSecrets: UnresolvedPlaceholder[];
+} {
+  const { config: baseConfig, sources, deferredSecrets } = loadConfigFile(envName);
+  const config = applyEnvironmentOverrides(baseConfig);
+  recordOverrideSources(baseConfig, config, sources);
+  return { config, sources, deferredSecrets };
+}
+
 /** Cached configuration to avoid repeated file system operations */
 let cachedConfig: Config | null = null;
 
+/** Source layer of every key of the cached configuration */
+let cachedSources: ConfigSources = {};
+
+/** Unresolved secrets of the deferred sections of the cached configuration */
+let cachedDeferredSecrets: UnresolvedPlaceholder[] = [];
+
 /**
  * Main configuration loader function
  * Loads configuration from file and applies environment overrides
@@ -162,8 +509,13 @@ export function loadConfig(): Config {
   logger.info(`Loading configuration for environment: ${APP_ENV}`);
 
   try {
-    const baseConfig = loadConfigFile(APP_ENV);
-    cachedConfig = applyEnvironmentOverrides(baseConfig);
+    const { config, sources, deferredSecrets } = loadEnvironmentConfig(APP_ENV);
+    cachedConfig = config;
+    cachedSources = sources;
+    cachedDeferredSecrets = deferredSecrets;
+    deferredSecrets.forEach(secret =>
+      logger.debug(`Secret not resolved until ${secret.path} is used: ${secret.message}`)
+    );
     
     logger.info(`Configuration loaded successfully for ${cachedConfig.name} (${cachedConfig.group})`);
     return cachedConfig;
@@ -173,6 +525,42 @@ export function loadConfig(): Config {
   }
 }
 
+/**
+ * Gets the layer that supplied a configuration value
+ * Keys filled in by schema defaults have no recorded source
+ * @param keyPath - Dotted key path (e.g. 'db.oracle.host')
+ * @returns Layer name (e.g. 'env/test/_base.json') or undefined if no layer supplied the key
+ */
+export function getConfigSource(keyPath: string): string | undefined {
+  loadConfig();
+  return cachedSources[keyPath];
+}
+
+/**
+ * Ensures the secrets of a configuration section were resolved
+ * Call before using a section whose secrets are deferred (db, certs).
+ * @param keyPath - Dotted key path of the section (e.g. 'db.oracle', 'certs.client')
+ * @throws Error listing the unresolved placeholders inside the section
+ */
+export function assertSecretsResolved(keyPath: string): void {
+  loadConfig();
+  const unresolved = cachedDeferredSecrets.filter(
+    secret => secret.path === keyPath || secret.path.startsWith(`${keyPath}.`)
+  );
+  if (unresolved.length > 0) {
+    throw new Error(formatUnresolvedPlaceholders(unresolved));
+  }
+}
+
+/**
+ * Gets the source layer of every configuration value supplied by a layer
+ * @returns Copy of the provenance map keyed by dotted key path
+ */
+export function getConfigSources(): ConfigSources {
+  loadConfig();
+  return { ...cachedSources };
+}
+
 /**
  * Gets the current application environment name
  * @returns Current environment name (e.g., 'T5', 'D1')
@@ -11,6 +11,9 @@
  * - Default values for optional properties
  * - Custom validation rules for complex requirements
  * - Support for Oracle, PostgreSQL, and client certificate configurations
+ * - Feature flags used to gate scenarios (@requires:<flag> / @unless:<flag>)
+ * - Timeout and retry policy overrides
+ * - Browser, video and HAR recording settings
  * 
  * @author OpenHands
  * @version 1.0.0
@@ -18,6 +21,62 @@
 
 import { z } from 'zod';
 
+/**
+ * Checks whether a string compiles as a regular expression
+ * @param pattern - Regular expression source
+ * @returns True if the pattern is valid
+ */
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recording mode of scenario artifacts (videos, HAR files)
+ */
+const RecordingModeSchema = z.enum(['off', 'on', 'retain-on-failure']);
+
+/**
+ * Credentials of a named user role (e.g. standard_user, admin)
+ */
+export const RoleSchema = z.object({
+  /** Username the role logs in with */
+  username: z.string().min(1),
+  /** Password the role logs in with */
+  password: z.string().default(''),
+});
+
+/**
+ * Client certificate (PFX) presented to an origin for mutual TLS
+ */
+export const ClientCertSchema = z.object({
+  /** Path to PFX certificate file */
+  pfxPath: z.string(),
+  /** Passphrase for PFX certificate */
+  passphrase: z.string(),
+  /** Origin URL for certificate validation */
+  origin: z.string().url(),
+});
+
+/**
+ * Application schema describing a single application under test
+ * Each environment can host several applications keyed by name
+ */
+export const AppSchema = z.object({
+  /** Base URL for the application under test */
+  baseUrl: z.string().url(),
+  /** Default username for authentication (empty for unauthenticated apps) */
+  username: z.string().default(''),
+  /** Default password for authentication (empty for unauthenticated apps) */
+  password: z.string().default(''),
+  /** User roles keyed by role name, used by `Given I am logged in as "<role>"` */
+  roles: z.record(RoleSchema).default({}),
+});
+
 /**
  * Main configuration schema defining the structure and validation rules
  * for all configuration objects in the framework
@@ -26,22 +85,24 @@ export const ConfigSchema = z.object({
   /** Environment name (e.g., "Test Environment T5") */
   name: z.string(),
   
-  /** Environment group classification */
-  group: z.enum(['dev', 'test', 'uat', 'onprem']),
+  /**
+   * Environment group, by default the folder name under config/env
+   * dev, test, uat and onprem have their own timeout and retry defaults; other groups
+   * (e.g. a per-developer sandbox folder) use the test defaults.
+   */
+  group: z.string().min(1, 'group must not be empty'),
   
-  /** Application-specific configuration */
-  app: z.object({
-    /** Base URL for the application under test */
-    baseUrl: z.string().url(),
-    /** Default username for authentication */
-    username: z.string(),
-    /** Default password for authentication */
-    password: z.string(),
+  /** Applications under test keyed by application name (e.g., "saucedemo") */
+  apps: z.record(AppSchema).refine(apps => Object.keys(apps).length > 0, {
+    message: 'At least one application must be configured',
   }),
+
+  /** Application used when a scenario has no @app:<name> tag */
+  defaultApp: z.string().optional(),
   
-  /** Database configuration section */
+  /** Database configuration section (omit for UI-only or API-only environments) */
   db: z.object({
-    /** Oracle database configuration */
+    /** Oracle database configuration (optional) */
     oracle: z
       .object({
         /** Oracle database host */
@@ -69,9 +130,10 @@ export const ConfigSchema = z.object({
       })
       .refine(data => data.serviceName || data.connectString, {
         message: 'Either serviceName or connectString must be provided',
-      }),
+      })
+      .optional(),
     
-    /** PostgreSQL database configuration */
+    /** PostgreSQL database configuration (optional) */
     postgres: z.object({
       /** PostgreSQL database host */
       host: z.string(),
@@ -102,21 +164,108 @@ export const ConfigSchema = z.object({
           key: z.string().optional(),
         })
         .optional(),
-    }),
-  }),
+    }).optional(),
+  }).default({}),
   
-  /** Certificate configuration section */
+  /** Certificate configuration section (omit when no mTLS is needed) */
   certs: z.object({
-    /** Client certificate configuration for mTLS */
-    client: z.object({
-      /** Path to PFX certificate file */
-      pfxPath: z.string(),
-      /** Passphrase for PFX certificate */
-      passphrase: z.string(),
-      /** Origin URL for certificate validation */
-      origin: z.string().url(),
-    }),
-  }),
+    /** Client certificate configuration for mTLS (optional) */
+    client: ClientCertSchema.optional(),
+    /** Additional certificates keyed by name: other origins, or alternates for switching mid-scenario */
+    additional: z.record(ClientCertSchema.extend({
+      /** Present the certificate in every browser context; false only via the switch step */
+      preload: z.boolean().default(true),
+    })).default({}),
+  }).default({}),
+
+  /**
+   * Feature flags keyed by flag name (e.g., "videoRecording")
+   * Group defaults live in <group>/_base.json, environments override single flags
+   */
+  features: z.record(z.boolean()).default({}),
+
+  /**
+   * Timeout overrides in milliseconds (omitted values use the group defaults)
+   * Every timeout is scaled by the multiplier
+   */
+  timeouts: z.object({
+    /** Scale factor applied to every timeout (group default: dev 1.5, uat 1.2, onprem 2.0) */
+    multiplier: z.number().positive().optional(),
+    /** Cucumber step and hook timeout */
+    step: z.number().int().positive().optional(),
+    /** Page navigation timeout */
+    navigation: z.number().int().positive().optional(),
+    /** Page action timeout (click, fill, ...) */
+    action: z.number().int().positive().optional(),
+    /** BasePage waitFor* helpers */
+    wait: z.number().int().positive().optional(),
+    /** BasePage assert* helpers */
+    assertion: z.number().int().positive().optional(),
+    /** API request timeout */
+    api: z.number().int().positive().optional(),
+    /** Database query timeout (database layer, src/db.disabled) */
+    database: z.number().int().positive().optional(),
+    /** Timeout of each scenario cleanup registered with world.onCleanup */
+    cleanup: z.number().int().positive().optional(),
+  }).default({}),
+
+  /** Browser settings */
+  browser: z.object({
+    /** Default browser engine, overridden by the BROWSER variable and @chromium/@firefox/@webkit tags */
+    engine: z.enum(['chromium', 'firefox', 'webkit']).default('chromium'),
+  }).default({}),
+
+  /** Video recording of browser scenarios */
+  video: z.object({
+    /** off, on or retain-on-failure; omitted follows the videoRecording feature flag */
+    mode: RecordingModeSchema.optional(),
+    /** Video frame size, defaults to the viewport scaled down to fit 800x800 */
+    size: z.object({
+      width: z.number().int().positive(),
+      height: z.number().int().positive(),
+    }).optional(),
+  }).default({}),
+
+  /** HAR recording of browser scenarios */
+  har: z.object({
+    /** off (default), on or retain-on-failure */
+    mode: RecordingModeSchema.default('off'),
+    /** Response bodies: omit (default), embed in the HAR, or attach as files in a .zip */
+    content: z.enum(['omit', 'embed', 'attach']).default('omit'),
+    /** Regular expressions; when set, only matching request URLs are recorded */
+    urlFilters: z.array(
+      z.string().refine(isValidRegExp, { message: 'must be a valid regular expression' })
+    ).default([]),
+  }).default({}),
+
+  /** Handling of browser console errors and uncaught page errors */
+  browserErrors: z.object({
+    /** fail (default) or warn when a scenario produced unexpected errors; off ignores them */
+    mode: z.enum(['fail', 'warn', 'off']).default('fail'),
+    /** Regular expressions of expected error messages */
+    allow: z.array(
+      z.string().refine(isValidRegExp, { message: 'must be a valid regular expression' })
+    ).default([]),
+  }).default({}),
+
+  /** Authenticated session cache */
+  auth: z.object({
+    /** Seconds a saved login (storage state) is reused; 0 logs in on every use */
+    storageStateTtl: z.number().int().nonnegative().default(1800),
+  }).default({}),
+
+  /** Retry policy overrides (omitted values use the group defaults) */
+  retry: z.object({
+    /** Retries after the first failed attempt (API requests and @flaky scenarios) */
+    maxRetries: z.number().int().nonnegative().optional(),
+    /** Delay before the first retry in milliseconds */
+    retryDelay: z.number().int().nonnegative().optional(),
+    /** Double the delay after every retry */
+    exponentialBackoff: z.boolean().optional(),
+  }).default({}),
+}).refine(data => !data.defaultApp || data.defaultApp in data.apps, {
+  message: 'defaultApp must reference a key of apps',
+  path: ['defaultApp'],
 });
 
 /**
@@ -125,6 +274,46 @@ export const ConfigSchema = z.object({
  */
 export type Config = z.infer<typeof ConfigSchema>;
 
+/**
+ * TypeScript type for a single application entry of the configuration
+ */
+export type AppConfig = z.infer<typeof AppSchema>;
+
+/**
+ * TypeScript type for the credentials of a user role
+ */
+export type RoleConfig = z.infer<typeof RoleSchema>;
+
+/**
+ * TypeScript type for the Oracle section, when configured
+ */
+export type OracleConfig = NonNullable<Config['db']['oracle']>;
+
+/**
+ * TypeScript type for the PostgreSQL section, when configured
+ */
+export type PostgresConfig = NonNullable<Config['db']['postgres']>;
+
+/**
+ * TypeScript type for the client certificate section, when configured
+ */
+export type ClientCertConfig = NonNullable<Config['certs']['client']>;
+
+/**
+ * TypeScript type for the supported browser engines
+ */
+export type BrowserEngine = Config['browser']['engine'];
+
+/**
+ * TypeScript type for the recording modes of videos and HAR files
+ */
+export type RecordingMode = z.infer<typeof RecordingModeSchema>;
+
+/**
+ * TypeScript type for the HAR recording section
+ */
+export type HarConfig = Config['har'];
+
 /**
  * Validates a configuration object against the schema
  * @param config - Raw configuration object to validate
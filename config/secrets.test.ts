@@ -0,0 +1,201 @@
+/**
+ * Secret Resolution Test Suite
+ *
+ * Validates ${env:...}, ${file:...} and ${vault:...} placeholder resolution
+ * and the encrypted vault round trip.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SecretResolver,
+  VAULT_KEY_ENV,
+  VAULT_PATH_ENV,
+  decryptVault,
+  encryptVault,
+  updateVault,
+} from './secrets';
+
+describe('Secret Resolution', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('SecretResolver', () => {
+    test('should resolve env placeholders anywhere in the tree without modifying it', () => {
+      const resolver = new SecretResolver({ env: { PG_PASSWORD: 'pg-secret' }, rootDir });
+      const tree = {
+        db: { postgres: { password: '${env:PG_PASSWORD}' } },
+        hosts: ['db-${env:PG_PASSWORD}'],
+        port: 5432,
+      };
+
+      expect(resolver.resolve(tree)).toEqual({
+        db: { postgres: { password: 'pg-secret' } },
+        hosts: ['db-pg-secret'],
+        port: 5432,
+      });
+      expect(tree.db.postgres.password).toBe('${env:PG_PASSWORD}');
+    });
+
+    test('should resolve file placeholders relative to the root directory, trimmed', () => {
+      fs.mkdirSync(path.join(rootDir, 'secrets'));
+      fs.writeFileSync(path.join(rootDir, 'secrets', 'oracle.txt'), '  ora-secret\n');
+      const resolver = new SecretResolver({ env: {}, rootDir });
+
+      expect(resolver.resolve({ password: '${file:secrets/oracle.txt}' })).toEqual({
+        password: 'ora-secret',
+      });
+    });
+
+    test('should use the fallback only when the secret is missing', () => {
+      const resolver = new SecretResolver({ env: { SET: 'value' }, rootDir });
+
+      expect(resolver.resolve({ a: '${env:SET:-fallback}', b: '${env:UNSET:-fallback}' })).toEqual({
+        a: 'value',
+        b: 'fallback',
+      });
+    });
+
+    test('should report every unresolved placeholder with its JSON path', () => {
+      const resolver = new SecretResolver({ env: {}, rootDir });
+      const tree = {
+        db: { oracle: { password: '${env:ORACLE_PASSWORD}' } },
+        certs: [{ passphrase: '${file:secrets/missing.txt}' }],
+      };
+
+      expect(() => resolver.resolve(tree)).toThrow(
+        'Unresolved configuration placeholders:\n' +
+          '  - db.oracle.password: ${env:ORACLE_PASSWORD} could not be resolved ' +
+          '(environment variable ORACLE_PASSWORD is not set)\n' +
+          '  - certs[0].passphrase: ${file:secrets/missing.txt} could not be resolved ' +
+          '(file secrets/missing.txt not found)'
+      );
+    });
+
+    test('should defer unresolved placeholders inside the given sections', () => {
+      const resolver = new SecretResolver({ env: { PG_PASSWORD: 'pg-secret' }, rootDir });
+      const tree = {
+        db: {
+          oracle: { password: '${env:ORACLE_PASSWORD}' },
+          postgres: { password: '${env:PG_PASSWORD}' },
+        },
+        certs: { additional: [{ passphrase: '${env:PFX_PASSPHRASE}' }] },
+      };
+
+      const { resolved, deferred } = resolver.resolveDeferring(tree, ['db', 'certs']);
+
+      expect(resolved.db).toEqual({
+        oracle: { password: '${env:ORACLE_PASSWORD}' },
+        postgres: { password: 'pg-secret' },
+      });
+      expect(deferred.map(placeholder => placeholder.path)).toEqual([
+        'db.oracle.password',
+        'certs.additional[0].passphrase',
+      ]);
+    });
+
+    test('should still fail unresolved placeholders outside the deferred sections', () => {
+      const resolver = new SecretResolver({ env: {}, rootDir });
+      const tree = { dbHost: '${env:DB_HOST}', db: { password: '${env:DB_PASSWORD}' } };
+
+      expect(() => resolver.resolveDeferring(tree, ['db'])).toThrow(
+        'Unresolved configuration placeholders:\n' +
+          '  - dbHost: ${env:DB_HOST} could not be resolved (environment variable DB_HOST is not set)'
+      );
+    });
+
+    test('should resolve vault placeholders with the master key', () => {
+      fs.writeFileSync(
+        path.join(rootDir, 'vault.json'),
+        JSON.stringify(encryptVault({ 't5.oracle': 'vault-secret' }, 'master'))
+      );
+      const resolver = new SecretResolver({
+        env: { [VAULT_KEY_ENV]: 'master', [VAULT_PATH_ENV]: 'vault.json' },
+        rootDir,
+      });
+
+      expect(resolver.resolve({ password: '${vault:t5.oracle}' })).toEqual({
+        password: 'vault-secret',
+      });
+      expect(() => resolver.resolve({ password: '${vault:t5.postgres}' })).toThrow(
+        'key t5.postgres not found in vault'
+      );
+    });
+
+    test('should fail vault placeholders when the vault or its master key is missing', () => {
+      const withoutVault = new SecretResolver({ env: { [VAULT_KEY_ENV]: 'master' }, rootDir });
+      expect(() => withoutVault.resolve({ password: '${vault:key}' })).toThrow(
+        'vault file not found'
+      );
+
+      fs.writeFileSync(
+        path.join(rootDir, 'vault.json'),
+        JSON.stringify(encryptVault({ key: 'value' }, 'master'))
+      );
+      const withoutKey = new SecretResolver({ env: { [VAULT_PATH_ENV]: 'vault.json' }, rootDir });
+      expect(() => withoutKey.resolve({ password: '${vault:key}' })).toThrow(
+        `vault master key ${VAULT_KEY_ENV} is not set`
+      );
+    });
+  });
+
+  describe('Vault encryption', () => {
+    test('should decrypt what it encrypts with the same master key', () => {
+      const envelope = encryptVault({ a: '1', b: '2' }, 'master');
+
+      expect(envelope.version).toBe(1);
+      expect(envelope.data).not.toContain('"a"');
+      expect(decryptVault(envelope, 'master')).toEqual({ a: '1', b: '2' });
+    });
+
+    test('should create, update and remove vault entries', () => {
+      const env = { [VAULT_KEY_ENV]: 'master', [VAULT_PATH_ENV]: 'secrets/vault.json' };
+      const vaultPath = path.join(rootDir, 'secrets', 'vault.json');
+
+      expect(updateVault({ 't5.oracle': 'ora', 't5.pg': 'pg' }, { env, rootDir })).toEqual([
+        't5.oracle',
+        't5.pg',
+      ]);
+      expect(updateVault({ 't5.oracle': 'ora-2', 't5.pg': null }, { env, rootDir })).toEqual([
+        't5.oracle',
+      ]);
+      expect(decryptVault(JSON.parse(fs.readFileSync(vaultPath, 'utf-8')), 'master')).toEqual({
+        't5.oracle': 'ora-2',
+      });
+    });
+
+    test('should not update a vault without its master key', () => {
+      const env = { [VAULT_PATH_ENV]: 'vault.json' };
+      fs.writeFileSync(
+        path.join(rootDir, 'vault.json'),
+        JSON.stringify(encryptVault({ a: '1' }, 'master'))
+      );
+
+      expect(() => updateVault({ b: '2' }, { env, rootDir })).toThrow(
+        `Vault master key ${VAULT_KEY_ENV} is not set`
+      );
+      expect(() =>
+        updateVault({ b: '2' }, { env: { ...env, [VAULT_KEY_ENV]: 'wrong' }, rootDir })
+      ).toThrow('Unable to decrypt vault');
+    });
+
+    test('should reject a wrong master key', () => {
+      const envelope = encryptVault({ a: '1' }, 'master');
+
+      expect(() => decryptVault(envelope, 'wrong')).toThrow(
+        'Unable to decrypt vault: wrong master key or corrupted vault file'
+      );
+    });
+  });
+});
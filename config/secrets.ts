@@ -0,0 +1,398 @@
+/**
+ * Configuration Secret Resolution Module
+ *
+ * This module resolves secret placeholders found anywhere in a raw configuration
+ * tree before it is validated. Secrets therefore never need to be committed to the
+ * environment JSON files, and no hand-written list of override variables is needed.
+ *
+ * Supported placeholders (inside any string value):
+ * - `${env:NAME}`            - value of the environment variable NAME
+ * - `${file:secrets/x.txt}`  - trimmed content of a file, relative to the project root
+ * - `${vault:key}`           - entry of the local encrypted vault file
+ * - `${kind:ref:-fallback}`  - any of the above with a fallback used when the secret is missing
+ *
+ * The vault is a JSON envelope holding an AES-256-GCM encrypted JSON object of
+ * key/value pairs. It is unlocked with the master key from CONFIG_VAULT_KEY and
+ * located via CONFIG_VAULT_PATH (defaults to secrets/vault.json). It is created
+ * and updated with `npm run config -- vault set <key> <value>`.
+ *
+ * Placeholders inside deferred sections (e.g. db and certs) may stay unresolved:
+ * they are reported to the caller instead of failing the whole configuration, so
+ * those secrets are only required by the code that uses them.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PathUtils } from '../src/utils/paths';
+
+/** Environment variable holding the vault master key */
+export const VAULT_KEY_ENV = 'CONFIG_VAULT_KEY';
+
+/** Environment variable overriding the vault file location */
+export const VAULT_PATH_ENV = 'CONFIG_VAULT_PATH';
+
+/** Default vault file location, relative to the project root */
+const DEFAULT_VAULT_PATH = 'secrets/vault.json';
+
+/** Placeholder pattern: ${kind:reference} or ${kind:reference:-fallback} */
+const PLACEHOLDER_PATTERN = /\$\{(env|file|vault):([^}]*?)(?::-([^}]*))?\}/g;
+
+/**
+ * Checks whether a JSON path lies inside one of the given sections
+ * @param jsonPath - JSON path of a value
+ * @param sections - Dotted key paths of the sections
+ * @returns True if the path is a section or lies below one
+ */
+function isInSection(jsonPath: string, sections: string[]): boolean {
+  return sections.some(
+    section =>
+      jsonPath === section ||
+      jsonPath.startsWith(`${section}.`) ||
+      jsonPath.startsWith(`${section}[`)
+  );
+}
+
+/**
+ * Formats unresolved placeholders as one line per placeholder
+ * @param placeholders - Unresolved placeholders
+ * @returns Error message
+ */
+export function formatUnresolvedPlaceholders(placeholders: UnresolvedPlaceholder[]): string {
+  const lines = placeholders.map(placeholder => `${placeholder.path}: ${placeholder.message}`);
+  return `Unresolved configuration placeholders:\n  - ${lines.join('\n  - ')}`;
+}
+
+/**
+ * Encrypted vault file structure (all binary fields are base64 encoded)
+ */
+export interface VaultEnvelope {
+  /** Envelope format version */
+  version: 1;
+  /** Salt used to derive the AES key from the master key */
+  salt: string;
+  /** AES-GCM initialization vector */
+  iv: string;
+  /** AES-GCM authentication tag */
+  tag: string;
+  /** Encrypted JSON object of secrets */
+  data: string;
+}
+
+/**
+ * Placeholder that could not be resolved
+ */
+export interface UnresolvedPlaceholder {
+  /** JSON path of the value holding the placeholder */
+  path: string;
+  /** Why the placeholder could not be resolved */
+  message: string;
+}
+
+/**
+ * Options controlling placeholder resolution
+ */
+export interface SecretResolverOptions {
+  /** Environment variables to resolve `env:` placeholders from */
+  env?: NodeJS.ProcessEnv;
+  /** Base directory for relative `file:` placeholders and the vault path */
+  rootDir?: string;
+}
+
+/**
+ * Derives the AES-256 key for the vault
+ * @param masterKey - Vault master key
+ * @param salt - Key derivation salt
+ * @returns 32-byte key
+ */
+function deriveVaultKey(masterKey: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(masterKey, salt, 32);
+}
+
+/**
+ * Encrypts a set of secrets into a vault envelope
+ * @param secrets - Secrets keyed by vault key
+ * @param masterKey - Vault master key
+ * @returns Envelope ready to be written as JSON
+ */
+export function encryptVault(secrets: Record<string, string>, masterKey: string): VaultEnvelope {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveVaultKey(masterKey, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypts a vault envelope
+ * @param envelope - Envelope read from the vault file
+ * @param masterKey - Vault master key
+ * @returns Secrets keyed by vault key
+ * @throws Error if the master key is wrong or the envelope was tampered with
+ */
+export function decryptVault(envelope: VaultEnvelope, masterKey: string): Record<string, string> {
+  const key = deriveVaultKey(masterKey, Buffer.from(envelope.salt, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+  try {
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString('utf-8'));
+  } catch {
+    throw new Error('Unable to decrypt vault: wrong master key or corrupted vault file');
+  }
+}
+
+/**
+ * Resolves secret placeholders in a raw configuration tree
+ * Every unresolved placeholder is collected and reported with its JSON path.
+ */
+export class SecretResolver {
+  private env: NodeJS.ProcessEnv;
+  private rootDir: string;
+  private vault: Record<string, string> | null = null;
+
+  /**
+   * Creates a new resolver
+   * @param options - Resolver options, defaults to process.env and the project root
+   */
+  constructor(options: SecretResolverOptions = {}) {
+    this.env = options.env || process.env;
+    this.rootDir = options.rootDir || PathUtils.getProjectRoot();
+  }
+
+  /**
+   * Resolves all placeholders in a configuration tree
+   * @param tree - Raw configuration tree (not modified)
+   * @returns Copy of the tree with placeholders replaced
+   * @throws Error listing every unresolved placeholder with its JSON path
+   */
+  resolve<T>(tree: T): T {
+    return this.resolveDeferring(tree, []).resolved;
+  }
+
+  /**
+   * Resolves all placeholders, deferring the unresolved ones inside the given sections
+   * Deferred placeholders are kept as-is in the returned tree.
+   * @param tree - Raw configuration tree (not modified)
+   * @param sections - Top-level or dotted key paths whose secrets are optional (e.g. 'db')
+   * @returns Copy of the tree with placeholders replaced, and the deferred placeholders
+   * @throws Error listing every unresolved placeholder outside the deferred sections
+   */
+  resolveDeferring<T>(
+    tree: T,
+    sections: string[]
+  ): { resolved: T; deferred: UnresolvedPlaceholder[] } {
+    const errors: UnresolvedPlaceholder[] = [];
+    const resolved = this.resolveValue(tree, '', errors) as T;
+    const deferred = errors.filter(error => isInSection(error.path, sections));
+    const fatal = errors.filter(error => !deferred.includes(error));
+
+    if (fatal.length > 0) {
+      throw new Error(formatUnresolvedPlaceholders(fatal));
+    }
+
+    return { resolved, deferred };
+  }
+
+  /**
+   * Recursively resolves a value
+   * @param value - Value to resolve
+   * @param jsonPath - JSON path of the value, used in error messages
+   * @param errors - Collected error messages (mutated)
+   * @returns Resolved value
+   */
+  private resolveValue(value: unknown, jsonPath: string, errors: UnresolvedPlaceholder[]): unknown {
+    if (typeof value === 'string') {
+      return this.resolveString(value, jsonPath, errors);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.resolveValue(item, `${jsonPath}[${index}]`, errors));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        result[key] = this.resolveValue(child, jsonPath ? `${jsonPath}.${key}` : key, errors);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Replaces the placeholders of a single string value
+   * @param value - String possibly containing placeholders
+   * @param jsonPath - JSON path of the value
+   * @param errors - Collected error messages (mutated)
+   * @returns String with placeholders replaced
+   */
+  private resolveString(value: string, jsonPath: string, errors: UnresolvedPlaceholder[]): string {
+    return value.replace(
+      PLACEHOLDER_PATTERN,
+      (placeholder, kind: string, ref: string, fallback?: string) => {
+        try {
+          const secret = this.lookup(kind, ref.trim());
+          if (secret !== undefined) {
+            return secret;
+          }
+          if (fallback !== undefined) {
+            return fallback;
+          }
+          errors.push({
+            path: jsonPath,
+            message: `${placeholder} could not be resolved (${this.describeMissing(kind, ref.trim())})`,
+          });
+        } catch (error) {
+          errors.push({
+            path: jsonPath,
+            message: `${placeholder} could not be resolved (${error instanceof Error ? error.message : error})`,
+          });
+        }
+        return placeholder;
+      }
+    );
+  }
+
+  /**
+   * Looks up a single secret
+   * @param kind - Placeholder kind (env, file or vault)
+   * @param ref - Placeholder reference
+   * @returns Secret value or undefined if it does not exist
+   */
+  private lookup(kind: string, ref: string): string | undefined {
+    switch (kind) {
+      case 'env':
+        return this.env[ref];
+      case 'file': {
+        const filePath = path.isAbsolute(ref) ? ref : path.join(this.rootDir, ref);
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8').trim() : undefined;
+      }
+      case 'vault':
+        return this.getVault()[ref];
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Describes why a secret is missing, for error messages
+   * @param kind - Placeholder kind
+   * @param ref - Placeholder reference
+   * @returns Short description
+   */
+  private describeMissing(kind: string, ref: string): string {
+    switch (kind) {
+      case 'env':
+        return `environment variable ${ref} is not set`;
+      case 'file':
+        return `file ${ref} not found`;
+      default:
+        return `key ${ref} not found in vault ${this.getVaultPath()}`;
+    }
+  }
+
+  /**
+   * Gets the absolute vault file path
+   * @returns Vault path from CONFIG_VAULT_PATH or the default location
+   */
+  private getVaultPath(): string {
+    return getVaultPath({ env: this.env, rootDir: this.rootDir });
+  }
+
+  /**
+   * Loads and decrypts the vault on first use
+   * @returns Decrypted vault secrets
+   * @throws Error if the vault file or the master key is missing
+   */
+  private getVault(): Record<string, string> {
+    if (this.vault) {
+      return this.vault;
+    }
+
+    const vaultPath = this.getVaultPath();
+    if (!fs.existsSync(vaultPath)) {
+      throw new Error(`vault file not found: ${vaultPath}`);
+    }
+
+    const masterKey = this.env[VAULT_KEY_ENV];
+    if (!masterKey) {
+      throw new Error(`vault master key ${VAULT_KEY_ENV} is not set`);
+    }
+
+    this.vault = decryptVault(JSON.parse(fs.readFileSync(vaultPath, 'utf-8')), masterKey);
+    return this.vault;
+  }
+}
+
+/**
+ * Gets the absolute vault file path
+ * @param options - Environment variables and project root, defaults to process.env and the project root
+ * @returns Vault path from CONFIG_VAULT_PATH or the default location
+ */
+export function getVaultPath(options: SecretResolverOptions = {}): string {
+  const env = options.env || process.env;
+  const rootDir = options.rootDir || PathUtils.getProjectRoot();
+  const vaultPath = env[VAULT_PATH_ENV] || DEFAULT_VAULT_PATH;
+  return path.isAbsolute(vaultPath) ? vaultPath : path.join(rootDir, vaultPath);
+}
+
+/**
+ * Creates or updates the vault file
+ * The vault is re-encrypted with a fresh salt and IV on every update.
+ * @param changes - Secrets to set, or null to remove a key
+ * @param options - Environment variables and project root, defaults to process.env and the project root
+ * @returns Keys stored in the vault after the update
+ * @throws Error if the master key is not set or does not unlock the existing vault
+ */
+export function updateVault(
+  changes: Record<string, string | null>,
+  options: SecretResolverOptions = {}
+): string[] {
+  const masterKey = (options.env || process.env)[VAULT_KEY_ENV];
+  if (!masterKey) {
+    throw new Error(`Vault master key ${VAULT_KEY_ENV} is not set`);
+  }
+
+  const vaultPath = getVaultPath(options);
+  const secrets = fs.existsSync(vaultPath)
+    ? decryptVault(JSON.parse(fs.readFileSync(vaultPath, 'utf-8')), masterKey)
+    : {};
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete secrets[key];
+    } else {
+      secrets[key] = value;
+    }
+  }
+
+  fs.mkdirSync(path.dirname(vaultPath), { recursive: true });
+  fs.writeFileSync(vaultPath, JSON.stringify(encryptVault(secrets, masterKey), null, 2));
+  return Object.keys(secrets).sort();
+}
+
+/**
+ * Resolves secret placeholders in a raw configuration tree using process.env
+ * @param tree - Raw configuration tree
+ * @returns Copy of the tree with placeholders replaced
+ * @throws Error listing every unresolved placeholder with its JSON path
+ */
+export function resolveSecrets<T>(tree: T): T {
+  return new SecretResolver().resolve(tree);
+}
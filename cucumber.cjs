@@ -0,0 +1,57 @@
+/**
+ * Cucumber Configuration
+ *
+ * Profiles read by cucumber-js, which only loads cucumber.js/.cjs/.mjs/.json/.yaml (not .ts).
+ * Step definitions are loaded from the compiled dist/ output, so run `npm run build` first;
+ * the npm test scripts do.
+ *
+ * Profiles:
+ * - default      Quarantined and @skip scenarios excluded
+ * - quarantine   Quarantined scenarios only, not archived for the trend report
+ *
+ * Feature paths are given by the npm scripts (or on the command line): paths on the command
+ * line are added to a profile's, so a profile with paths would always run them too.
+ *
+ * The retries of @flaky scenarios come from the retry policy of the environment (APP_ENV),
+ * read through the compiled configuration loader.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+const { getEnvironment } = require('./dist/src/common/support/env');
+
+/** Settings shared by every profile */
+const common = {
+  require: ['dist/src/common/steps/**/*.js', 'dist/src/applications/**/steps/**/*.js'],
+  format: [
+    'progress-bar',
+    // The json report, also archived to test-results/runs/ for `npm run trends -- build`
+    './dist/src/common/support/runArchiveFormatter.js:test-results/cucumber-report.json',
+    'html:test-results/cucumber-report.html',
+  ],
+  formatOptions: {
+    snippetInterface: 'async-await',
+  },
+  strict: true,
+  parallel: 2,
+  retry: getEnvironment().getRetrySettings().maxRetries,
+  retryTagFilter: '@flaky',
+  tags: process.env.CUCUMBER_TAGS || 'not @skip and not @quarantine',
+  worldParameters: {
+    appEnv: getEnvironment().getEnvironmentName(),
+  },
+};
+
+module.exports = {
+  default: common,
+  quarantine: {
+    ...common,
+    format: [
+      'progress-bar',
+      'json:test-results/cucumber-report.json',
+      'html:test-results/cucumber-report.html',
+    ],
+    tags: '@quarantine',
+  },
+};
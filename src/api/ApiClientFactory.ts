@@ -1,29 +1,31 @@
 import { BaseApiClient } from './BaseApiClient';
-import { loadConfig } from '../../config';
+import { getAppConfig } from '../../config';
 import { logger } from '../utils/logger';
+import { ConfigManager } from '../utils/ConfigManager';
 import type { Config } from '../../config/schema';
 
 export class ApiClientFactory {
   private static clients: Map<string, BaseApiClient> = new Map();
   private static defaultConfig: Config | null = null;
 
-  static async createClient(config?: Config): Promise<BaseApiClient> {
+  static async createClient(config?: Config, appName?: string): Promise<BaseApiClient> {
     const clientConfig = config || this.getDefaultConfig();
-    const clientKey = this.generateClientKey(clientConfig);
+    const baseUrl = getAppConfig(clientConfig, appName).baseUrl;
+    const clientKey = this.generateClientKey(clientConfig, baseUrl);
 
     // Return existing client if available
     if (this.clients.has(clientKey)) {
       const existingClient = this.clients.get(clientKey)!;
-      logger.debug(`Reusing existing API client for ${clientConfig.app.baseUrl}`);
+      logger.debug(`Reusing existing API client for ${baseUrl}`);
       return existingClient;
     }
 
     // Create new client
-    const client = new BaseApiClient(clientConfig.app.baseUrl);
+    const client = new BaseApiClient(baseUrl);
     await client.initialize();
     
     this.clients.set(clientKey, client);
-    logger.info(`Created new API client for ${clientConfig.app.baseUrl}`);
+    logger.info(`Created new API client for ${baseUrl}`);
     
     return client;
   }
@@ -37,7 +39,7 @@ export class ApiClientFactory {
 
   static getDefaultConfig(): Config {
     if (!this.defaultConfig) {
-      this.defaultConfig = loadConfig();
+      this.defaultConfig = ConfigManager.getInstance().getConfig();
     }
     return this.defaultConfig;
   }
@@ -46,19 +48,20 @@ export class ApiClientFactory {
     this.defaultConfig = config;
   }
 
-  private static generateClientKey(config: Config): string {
+  private static generateClientKey(config: Config, baseUrl: string): string {
     // Generate a unique key based on config properties
-    return `${config.app.baseUrl}-${config.certs.client.origin}-${config.name}`;
+    return `${baseUrl}-${config.certs.client?.origin || 'no-cert'}-${config.name}`;
   }
 
-  static async disposeClient(config: Config): Promise<void> {
-    const clientKey = this.generateClientKey(config);
+  static async disposeClient(config: Config, appName?: string): Promise<void> {
+    const baseUrl = getAppConfig(config, appName).baseUrl;
+    const clientKey = this.generateClientKey(config, baseUrl);
     const client = this.clients.get(clientKey);
     
     if (client) {
       await client.dispose();
       this.clients.delete(clientKey);
-      logger.info(`Disposed API client for ${config.app.baseUrl}`);
+      logger.info(`Disposed API client for ${baseUrl}`);
     }
   }
 
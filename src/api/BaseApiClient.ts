@@ -1,5 +1,6 @@
 import { APIRequestContext, APIResponse, request } from '@playwright/test';
 import { logger } from '../utils/logger';
+import { getEnvironmentTimeouts, getEnvironmentRetrySettings } from '../common/support/env';
 
 export interface ApiRequestOptions {
   headers?: Record<string, string>;
@@ -15,6 +16,9 @@ export interface ApiResponse {
   raw: APIResponse;
 }
 
+/** Gateway statuses worth retrying for idempotent requests */
+const RETRYABLE_STATUSES = [502, 503, 504];
+
 export class BaseApiClient {
   private context: APIRequestContext | null = null;
   private baseUrl: string;
@@ -40,7 +44,7 @@ export class BaseApiClient {
       this.context = await request.newContext({
         baseURL: this.baseUrl,
         extraHTTPHeaders: this.defaultHeaders,
-        timeout: 30000,
+        timeout: getEnvironmentTimeouts().api,
         ignoreHTTPSErrors: false,
       });
 
@@ -128,10 +132,10 @@ export class BaseApiClient {
 
     logger.info(`GET ${url}`);
     
-    const response = await this.context!.get(url, {
+    const response = await this.sendWithRetry('GET', url, () => this.context!.get(url, {
       headers,
       ...(options?.timeout && { timeout: options.timeout }),
-    });
+    }));
 
     return this.processResponse(response);
   }
@@ -161,11 +165,11 @@ export class BaseApiClient {
 
     logger.info(`PUT ${url}`);
     
-    const response = await this.context!.put(url, {
+    const response = await this.sendWithRetry('PUT', url, () => this.context!.put(url, {
       headers,
       data: JSON.stringify(data),
       ...(options?.timeout && { timeout: options.timeout }),
-    });
+    }));
 
     return this.processResponse(response);
   }
@@ -195,14 +199,49 @@ export class BaseApiClient {
 
     logger.info(`DELETE ${url}`);
     
-    const response = await this.context!.delete(url, {
+    const response = await this.sendWithRetry('DELETE', url, () => this.context!.delete(url, {
       headers,
       ...(options?.timeout && { timeout: options.timeout }),
-    });
+    }));
 
     return this.processResponse(response);
   }
 
+  /**
+   * Sends an idempotent request, retrying network failures and gateway errors
+   * according to the environment retry policy
+   */
+  private async sendWithRetry(
+    method: string,
+    url: string,
+    send: () => Promise<APIResponse>
+  ): Promise<APIResponse> {
+    const { maxRetries, retryDelay, exponentialBackoff } = getEnvironmentRetrySettings();
+    let delay = retryDelay;
+
+    for (let attempt = 0; ; attempt++) {
+      let failure: string;
+      try {
+        const response = await send();
+        if (!RETRYABLE_STATUSES.includes(response.status()) || attempt >= maxRetries) {
+          return response;
+        }
+        failure = `${response.status()} ${response.statusText()}`;
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+        failure = String(error);
+      }
+
+      logger.warn(`${method} ${url} failed (${failure}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (exponentialBackoff) {
+        delay *= 2;
+      }
+    }
+  }
+
   // Utility methods
   setDefaultHeader(key: string, value: string): void {
     this.defaultHeaders[key] = value;
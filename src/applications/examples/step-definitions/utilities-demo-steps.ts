@@ -130,7 +130,7 @@ Given('I calculate subscription end dates using DateUtils', async function (this
 Given('I create a temporary test data file using FileUtils', async function (this: CustomWorld) {
   try {
     const tempFile = await Utils.file.createTempFile();
-    testFiles.push(tempFile);
+    trackTempFile(this, tempFile);
     generatedTestData.tempFile = tempFile;
     
     expect(await Utils.file.exists(tempFile)).toBe(true);
@@ -148,7 +148,7 @@ Given('I create a temporary test data file using FileUtils', async function (thi
 When('I save the generated user data to a test data file', async function (this: CustomWorld) {
   try {
     const filePath = await Utils.file.createTempFile();
-    testFiles.push(filePath);
+    trackTempFile(this, filePath);
     
     await Utils.file.writeFile(filePath, JSON.stringify(generatedTestData.user, null, 2));
     
@@ -222,7 +222,7 @@ Then('I generate a {string} report', async function (this: CustomWorld, reportTy
     };
     
     const reportPath = await Utils.file.createTempFile();
-    testFiles.push(reportPath);
+    trackTempFile(this, reportPath);
     
     await Utils.file.writeFile(reportPath, JSON.stringify(reportData, null, 2));
     
@@ -256,6 +256,19 @@ Then('I clean up temporary files after the test', async function (this: CustomWo
  * Helper Functions
  */
 
+/**
+ * Tracks a temporary file and deletes it when the scenario ends, even if it fails
+ */
+function trackTempFile(world: CustomWorld, file: string): void {
+  testFiles.push(file);
+  world.onCleanup(async () => {
+    const fileUtils = UtilityFactory.getFileUtils();
+    if (await fileUtils.exists(file)) {
+      await fileUtils.delete(file);
+    }
+  }, `delete temporary file ${file}`);
+}
+
 function getNestedValue(obj: any, path: string): any {
   return path.split('.').reduce((current, key) => current?.[key], obj);
 }
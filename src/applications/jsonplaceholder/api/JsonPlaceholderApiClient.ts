@@ -19,13 +19,21 @@ import { logger } from '../../../utils/logger';
  */
 export class JsonPlaceholderApiClient {
   private context: APIRequestContext | null = null;
-  private readonly baseUrl = 'https://jsonplaceholder.typicode.com';
+  private readonly baseUrl: string;
   private readonly defaultHeaders = {
     'Content-Type': 'application/json; charset=UTF-8',
     'Accept': 'application/json',
     'User-Agent': 'Playwright-BDD-Framework/1.0'
   };
 
+  /**
+   * Create a new JSONPlaceholder API client
+   * @param baseUrl - API base URL, defaults to the public JSONPlaceholder instance
+   */
+  constructor(baseUrl: string = 'https://jsonplaceholder.typicode.com') {
+    this.baseUrl = baseUrl;
+  }
+
   /**
    * Initialize the API client context
    */
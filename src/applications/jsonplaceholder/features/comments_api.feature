@@ -1,4 +1,4 @@
-@api @comments @jsonplaceholder
+@api @comments @jsonplaceholder @app:jsonplaceholder
 Feature: JSONPlaceholder Comments API Testing
   As a developer
   I want to test the Comments API endpoints
@@ -1,4 +1,4 @@
-@api @posts @jsonplaceholder
+@api @posts @jsonplaceholder @app:jsonplaceholder
 Feature: JSONPlaceholder Posts API Testing
   As a developer
   I want to test the Posts API endpoints
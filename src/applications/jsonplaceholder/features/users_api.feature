@@ -1,4 +1,4 @@
-@api @users @jsonplaceholder
+@api @users @jsonplaceholder @app:jsonplaceholder
 Feature: JSONPlaceholder Users API Testing
   As a developer
   I want to test the Users API endpoints
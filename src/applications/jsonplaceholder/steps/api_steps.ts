@@ -4,6 +4,7 @@ import { JsonPlaceholderApiClient } from '../api/JsonPlaceholderApiClient';
 import { ApiTestData } from '../data/testData';
 import { ResponseValidators } from '../models/ApiModels';
 import { logger } from '../../../utils/logger';
+import { getEnvironment } from '../../../common/support/env';
 
 /**
  * Step Definitions for JSONPlaceholder API Testing
@@ -22,7 +23,7 @@ let performanceStartTime: number;
 
 Given('I have initialized the JSONPlaceholder API client', async function () {
   logger.info('Initializing JSONPlaceholder API client');
-  apiClient = new JsonPlaceholderApiClient();
+  apiClient = new JsonPlaceholderApiClient(getEnvironment().getAppUrl());
   await apiClient.initialize();
   logger.info('JSONPlaceholder API client initialized successfully');
 });
@@ -1,4 +1,4 @@
-@ui @practicetest @login
+@ui @practicetest @login @app:practicetest
 Feature: Practice Test Automation Login
   As a user of the Practice Test Automation website
   I want to be able to login with valid credentials
@@ -40,10 +40,11 @@ export class PracticeTestLoginPage extends BasePage {
 
   /**
    * Navigate to the Practice Test Automation login page
+   * @param url - Optional login page URL, defaults to the public practice site
    */
-  async navigateToLoginPage(): Promise<void> {
+  async navigateToLoginPage(url?: string): Promise<void> {
     logger.info('Navigating to Practice Test Automation login page');
-    await this.page.goto('https://practicetestautomation.com/practice-test-login/');
+    await this.page.goto(url || 'https://practicetestautomation.com/practice-test-login/');
     await this.page.waitForLoadState('networkidle');
     logger.info('Successfully navigated to Practice Test Automation login page');
   }
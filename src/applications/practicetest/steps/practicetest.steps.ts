@@ -1,15 +1,24 @@
 import { Given, When, Then } from '@cucumber/cucumber';
 import { expect } from '@playwright/test';
 import { CustomWorld } from '../../../common/steps/hooks';
+import { registerLoginHandler } from '../../../common/support/auth';
 import { PracticeTestLoginPage } from '../pages/PracticeTestLoginPage';
 import { logger } from '../../../utils/logger';
 
+// Role logins for `Given I am logged in as "<role>"`
+registerLoginHandler('practicetest', async (page, app, role) => {
+  const practiceTestPage = new PracticeTestLoginPage(page);
+  await practiceTestPage.navigateToLoginPage(app.baseUrl);
+  await practiceTestPage.login(role.username, role.password);
+  await practiceTestPage.verifySuccessPageUrl();
+});
+
 // Page navigation
 Given('I am on the Practice Test Automation login page', async function (this: CustomWorld) {
   await this.initializeBrowser();
   
   const practiceTestPage = new PracticeTestLoginPage(this.page!);
-  await practiceTestPage.navigateToLoginPage();
+  await practiceTestPage.navigateToLoginPage(this.app.baseUrl);
   
   logger.info('Navigated to Practice Test Automation login page');
 });
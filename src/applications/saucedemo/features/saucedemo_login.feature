@@ -1,4 +1,4 @@
-@ui @saucedemo @login
+@ui @saucedemo @login @app:saucedemo
 Feature: SauceDemo Login Functionality
   As a user of SauceDemo application
   I want to be able to log in with different user types
@@ -198,4 +198,30 @@ Feature: SauceDemo Login Functionality
     Then I should see the login form
     And all login elements should be visible
     When I login with username "standard_user" and password "secret_sauce"
-    Then I should be logged in successfully
\ No newline at end of file
+    Then I should be logged in successfully
+
+  @browser_compatibility @responsive
+  Scenario Outline: Login works on <device>
+    Given I am using a "<device>" device
+    Then I should see the login form
+    And all login elements should be visible
+    When I login with username "standard_user" and password "secret_sauce"
+    Then I should be logged in successfully
+
+    Examples:
+      | device     |
+      | iPhone 13  |
+      | Pixel 5    |
+      | iPad Mini  |
+
+  @positive @session_cache
+  Scenario Outline: Start already logged in as <role>
+    Given I am logged in as "<role>"
+    Then I should be logged in successfully
+    And I should see the products page
+    And the page URL should contain "inventory.html"
+
+    Examples:
+      | role          |
+      | standard_user |
+      | problem_user  |
\ No newline at end of file
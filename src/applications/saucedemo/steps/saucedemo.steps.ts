@@ -1,15 +1,25 @@
 import { Given, When, Then } from '@cucumber/cucumber';
 import { expect } from '@playwright/test';
 import { CustomWorld } from '../../../common/steps/hooks';
+import { parseViewport } from '../../../common/support/emulation';
+import { registerLoginHandler } from '../../../common/support/auth';
 import { SauceDemoLoginPage } from '../pages/SauceDemoLoginPage';
 import { logger } from '../../../utils/logger';
 
+// Role logins for `Given I am logged in as "<role>"`
+registerLoginHandler('saucedemo', async (page, app, role) => {
+  const sauceDemoPage = new SauceDemoLoginPage(page);
+  await sauceDemoPage.goto(app.baseUrl);
+  await sauceDemoPage.login(role.username, role.password);
+  await sauceDemoPage.assertLoggedIn();
+});
+
 // SauceDemo specific navigation
 Given('I am on the SauceDemo login page', async function (this: CustomWorld) {
   await this.initializeBrowser();
   
   const sauceDemoPage = new SauceDemoLoginPage(this.page!);
-  await sauceDemoPage.goto(this.config.app.baseUrl);
+  await sauceDemoPage.goto(this.app.baseUrl);
   
   logger.info('Navigated to SauceDemo login page');
 });
@@ -47,7 +57,7 @@ When('I measure the login time for {string} with password {string}', async funct
 });
 
 When('I set the viewport to mobile size', async function (this: CustomWorld) {
-  await this.page!.setViewportSize({ width: 375, height: 667 });
+  await this.emulate(parseViewport('375x667'));
   logger.info('Set viewport to mobile size (375x667)');
 });
 
@@ -0,0 +1,57 @@
+/**
+ * Flaky Scenario CLI Test Suite
+ *
+ * Validates the tags added to feature files by the apply command.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { addTag } from './flaky';
+
+/** Keyword pattern of scenarios */
+const SCENARIO = /^\s*Scenario:/;
+
+describe('Flaky Scenario CLI', () => {
+  describe('addTag', () => {
+    test('should add a tag line above an untagged scenario', () => {
+      const lines = ['Feature: Cart', '', '  Scenario: Add item'];
+
+      expect(addTag(lines, 3, '@flaky', SCENARIO)).toBe(true);
+      expect(lines).toEqual(['Feature: Cart', '', '  @flaky', '  Scenario: Add item']);
+    });
+
+    test('should append to the existing tag line once', () => {
+      const lines = ['  @smoke', '  Scenario: Add item'];
+
+      addTag(lines, 2, '@flaky', SCENARIO);
+      addTag(lines, 2, '@flaky', SCENARIO);
+
+      expect(lines).toEqual(['  @smoke @flaky', '  Scenario: Add item']);
+    });
+
+    test('should replace @flaky with @quarantine', () => {
+      const lines = ['  @smoke @flaky @ui', '  Scenario: Add item'];
+
+      addTag(lines, 2, '@quarantine', SCENARIO);
+
+      expect(lines).toEqual(['  @smoke @quarantine @ui', '  Scenario: Add item']);
+    });
+
+    test('should look at every tag line of the scenario', () => {
+      const lines = ['  @flaky', '  @smoke', '  Scenario: Add item'];
+
+      addTag(lines, 3, '@quarantine', SCENARIO);
+      addTag(lines, 3, '@smoke', SCENARIO);
+
+      expect(lines).toEqual(['  @quarantine', '  @smoke', '  Scenario: Add item']);
+    });
+
+    test('should not add a tag where the keyword is missing', () => {
+      const lines = ['  Given a step'];
+
+      expect(addTag(lines, 1, '@flaky', SCENARIO)).toBe(false);
+      expect(lines).toEqual(['  Given a step']);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Flaky Scenario CLI
+ *
+ * Command line tool analysing the local scenario result history
+ * (test-results/history/results.jsonl) written by every test run.
+ *
+ * Usage:
+ *   npm run flaky -- report [options]   Print flakiness rates, tag suggestions and quarantined failures
+ *   npm run flaky -- apply [options]    Add the suggested @flaky/@quarantine tags to the feature files
+ *
+ * Options:
+ *   --window=<n>        Most recent runs analysed per scenario (default 20)
+ *   --flaky=<rate>      Minimum flakiness rate suggesting @flaky (default 0.05)
+ *   --quarantine=<rate> Minimum flakiness rate suggesting @quarantine (default 0.3)
+ *   --env=<ENV>         Only use results of one environment
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  computeFlakiness,
+  getHistoryFilePath,
+  readHistory,
+  suggestTag,
+  FLAKY_TAG,
+  QUARANTINE_TAG,
+  type FlakinessStats,
+  type HistoryEntry,
+} from '../common/support/flakyHistory';
+import { PathUtils } from '../utils/paths';
+
+/** Gherkin keywords starting a scenario */
+const SCENARIO_KEYWORD_PATTERN = /^\s*(Scenario Outline|Scenario Template|Scenario|Example):/;
+
+/** Gherkin keywords starting an Examples block */
+const EXAMPLES_KEYWORD_PATTERN = /^\s*(Examples|Scenarios):/;
+
+/**
+ * Analysis options from the command line
+ */
+interface AnalysisOptions {
+  window: number;
+  thresholds: { flaky: number; quarantine: number };
+  environment?: string;
+}
+
+/**
+ * Reads a --name=value option
+ * @param args - Command line arguments
+ * @param name - Option name
+ * @returns Option value, or undefined if absent
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.substring(prefix.length);
+}
+
+/**
+ * Reads a numeric option
+ * @param args - Command line arguments
+ * @param name - Option name
+ * @param defaultValue - Value used when the option is absent
+ * @returns Option value
+ * @throws Error if the value is not a non-negative number
+ */
+function getNumberOption(args: string[], name: string, defaultValue: number): number {
+  const raw = getOption(args, name);
+  if (raw === undefined) {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (Number.isNaN(value) || value < 0) {
+    throw new Error(`Invalid --${name}: ${raw}`);
+  }
+  return value;
+}
+
+/**
+ * Parses the analysis options
+ * @param args - Command line arguments
+ * @returns Analysis options
+ */
+function parseOptions(args: string[]): AnalysisOptions {
+  return {
+    window: Math.max(1, Math.floor(getNumberOption(args, 'window', 20))),
+    thresholds: {
+      flaky: getNumberOption(args, 'flaky', 0.05),
+      quarantine: getNumberOption(args, 'quarantine', 0.3),
+    },
+    environment: getOption(args, 'env'),
+  };
+}
+
+/**
+ * Loads the history entries selected by the options
+ * @param options - Analysis options
+ * @returns History entries, oldest first
+ */
+function loadEntries(options: AnalysisOptions): HistoryEntry[] {
+  const entries = readHistory();
+  return options.environment
+    ? entries.filter(entry => entry.environment === options.environment)
+    : entries;
+}
+
+/**
+ * Formats a scenario reference
+ * @param stats - Scenario statistics or history entry
+ * @returns "path:line name"
+ */
+function formatScenario(stats: { uri: string; line: number; name: string }): string {
+  return `${stats.uri}:${stats.line} ${stats.name}`;
+}
+
+/**
+ * Prints flakiness rates, tag suggestions and quarantined failures
+ * @param options - Analysis options
+ */
+function reportCommand(options: AnalysisOptions): void {
+  const entries = loadEntries(options);
+  if (entries.length === 0) {
+    console.log(`No results recorded yet in ${getHistoryFilePath()}`);
+    return;
+  }
+
+  const stats = computeFlakiness(entries, options.window);
+  const flaky = stats.filter(scenario => scenario.flakinessRate > 0);
+  const broken = stats.filter(scenario => scenario.runs > 0 && scenario.fails === scenario.runs);
+
+  console.log(`${entries.length} result(s) of ${stats.length} scenario(s)`);
+  console.log(`Analysing the last ${options.window} run(s) per scenario\n`);
+
+  console.log(`Flaky scenarios: ${flaky.length}`);
+  if (flaky.length > 0) {
+    console.log('  Rate  Runs  Pass  Fail  Retried  Suggest      Scenario');
+    for (const scenario of flaky) {
+      const suggestion = suggestTag(scenario, options.thresholds) ?? '-';
+      console.log(
+        [
+          `${Math.round(scenario.flakinessRate * 100)}%`.padStart(6),
+          String(scenario.runs).padStart(5),
+          String(scenario.passes).padStart(5),
+          String(scenario.fails).padStart(5),
+          String(scenario.retriedPasses).padStart(8),
+          ` ${suggestion.padEnd(12)}`,
+          formatScenario(scenario),
+        ].join(' ')
+      );
+      if (scenario.topErrorSignature) {
+        console.log(`${' '.repeat(48)}${scenario.topErrorSignature}`);
+      }
+    }
+  }
+
+  console.log(`\nFailing on every run (broken, not flaky): ${broken.length}`);
+  broken.forEach(scenario => console.log(`  ${formatScenario(scenario)}`));
+
+  // Latest result of each quarantined scenario; these failures never fail the build
+  const latestQuarantined = new Map<string, HistoryEntry>();
+  entries
+    .filter(entry => entry.quarantined)
+    .forEach(entry => latestQuarantined.set(entry.scenarioId, entry));
+  const quarantinedFailures = Array.from(latestQuarantined.values()).filter(
+    entry => entry.outcome === 'fail'
+  );
+
+  console.log(`\nQuarantined scenarios: ${latestQuarantined.size}`);
+  console.log(`Failing in their latest run (not failing the build): ${quarantinedFailures.length}`);
+  for (const entry of quarantinedFailures) {
+    console.log(`  ✗ ${formatScenario(entry)} (${entry.timestamp})`);
+    if (entry.errorSignature) {
+      console.log(`      ${entry.errorSignature}`);
+    }
+  }
+}
+
+/**
+ * Adds a tag to the scenario or Examples block starting at a line
+ * Adding the quarantine tag replaces the flaky tag: quarantined scenarios no longer run in
+ * the main run, where the flaky tag retries them.
+ * @param lines - Feature file lines (mutated)
+ * @param line - 1-based line of the Scenario or Examples keyword
+ * @param tag - Tag to add
+ * @param keywordPattern - Keyword expected at the line
+ * @returns True if the tag was added
+ */
+export function addTag(
+  lines: string[],
+  line: number,
+  tag: string,
+  keywordPattern: RegExp
+): boolean {
+  const index = line - 1;
+  if (!keywordPattern.test(lines[index] ?? '')) {
+    return false;
+  }
+
+  // Tag lines directly above the keyword
+  let first = index;
+  while (first > 0 && lines[first - 1].trim().startsWith('@')) {
+    first--;
+  }
+
+  const replaced = tag === QUARANTINE_TAG ? FLAKY_TAG : undefined;
+  let present = false;
+  for (let tagLine = first; tagLine < index; tagLine++) {
+    const tags = lines[tagLine].trim().split(/\s+/);
+    if (replaced && tags.includes(replaced)) {
+      const indent = lines[tagLine].match(/^\s*/)![0];
+      const replacedTags = new Set(tags.map(name => (name === replaced ? tag : name)));
+      lines[tagLine] = `${indent}${Array.from(replacedTags).join(' ')}`;
+      present = true;
+    } else {
+      present = present || tags.includes(tag);
+    }
+  }
+
+  if (present) {
+    return true;
+  }
+  if (first < index) {
+    lines[index - 1] = `${lines[index - 1].trimEnd()} ${tag}`;
+  } else {
+    const indent = lines[index].match(/^\s*/)![0];
+    lines.splice(index, 0, `${indent}${tag}`);
+  }
+  return true;
+}
+
+/**
+ * Finds where the tag of a scenario goes
+ * Examples rows are tagged through their Examples block, only when the block holds just that
+ * row, so the other examples of the outline keep running in the main run.
+ * @param stats - Scenario statistics
+ * @returns Tagged line and its keyword, or null if the row shares its Examples block
+ */
+function getTagTarget(stats: FlakinessStats): { line: number; keywordPattern: RegExp } | null {
+  if (!stats.examples) {
+    return { line: stats.scenarioLine, keywordPattern: SCENARIO_KEYWORD_PATTERN };
+  }
+  return stats.examples.rows === 1
+    ? { line: stats.examples.line, keywordPattern: EXAMPLES_KEYWORD_PATTERN }
+    : null;
+}
+
+/**
+ * Adds the suggested tags to the feature files
+ * @param options - Analysis options
+ * @returns True if every suggestion was applied
+ */
+function applyCommand(options: AnalysisOptions): boolean {
+  const suggestions = computeFlakiness(loadEntries(options), options.window)
+    .map(stats => ({ stats, tag: suggestTag(stats, options.thresholds) }))
+    .filter(
+      (suggestion): suggestion is { stats: FlakinessStats; tag: string } => suggestion.tag !== null
+    );
+
+  if (suggestions.length === 0) {
+    console.log('No tags to apply');
+    return true;
+  }
+
+  const byFile = new Map<string, typeof suggestions>();
+  suggestions.forEach(suggestion =>
+    byFile.set(suggestion.stats.uri, [...(byFile.get(suggestion.stats.uri) ?? []), suggestion])
+  );
+
+  let allApplied = true;
+  for (const [uri, fileSuggestions] of byFile) {
+    const filePath = path.resolve(PathUtils.getProjectRoot(), uri);
+    if (!fs.existsSync(filePath)) {
+      console.log(`✗ ${uri}: feature file not found`);
+      allApplied = false;
+      continue;
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+    // Bottom-up, so inserted tag lines do not shift the lines still to edit
+    const byLine = [...fileSuggestions].sort((a, b) => b.stats.line - a.stats.line);
+    const applied = new Set<string>();
+    for (const { stats, tag } of byLine) {
+      const target = getTagTarget(stats);
+      if (!target) {
+        allApplied = false;
+        console.log(
+          `✗ ${formatScenario(stats)}: example row shares its Examples block (line ` +
+            `${stats.examples!.line}); move it to its own Examples block and tag that block ${tag}`
+        );
+        continue;
+      }
+      const key = `${target.line}${tag}`;
+      if (applied.has(key)) {
+        continue;
+      }
+      if (addTag(lines, target.line, tag, target.keywordPattern)) {
+        applied.add(key);
+        console.log(`✓ ${tag} ${formatScenario(stats)}`);
+      } else {
+        allApplied = false;
+        console.log(
+          `✗ ${formatScenario(stats)}: no scenario at that line, the history is outdated`
+        );
+      }
+    }
+    fs.writeFileSync(filePath, lines.join('\n'));
+  }
+
+  if (suggestions.some(({ tag }) => tag === QUARANTINE_TAG)) {
+    console.log('\nQuarantined scenarios are excluded from the main run: npm run test:quarantine');
+  }
+  return allApplied;
+}
+
+/**
+ * Prints usage information
+ */
+function printUsage(): void {
+  console.log(
+    [
+      'Usage: npm run flaky -- <command> [options]',
+      '',
+      'Commands:',
+      '  report                Print flakiness rates, tag suggestions and quarantined failures',
+      '  apply                 Add the suggested @flaky/@quarantine tags to the feature files',
+      '',
+      'Options:',
+      '  --window=<n>          Most recent runs analysed per scenario (default 20)',
+      '  --flaky=<rate>        Minimum flakiness rate suggesting @flaky (default 0.05)',
+      `  --quarantine=<rate>   Minimum flakiness rate suggesting ${QUARANTINE_TAG} (default 0.3)`,
+      '  --env=<ENV>           Only use results of one environment',
+    ].join('\n')
+  );
+}
+
+/**
+ * CLI entry point
+ * @param argv - Command line arguments without the node and script paths
+ * @returns Process exit code
+ */
+export function main(argv: string[]): number {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case 'report':
+        reportCommand(parseOptions(args));
+        return 0;
+      case 'apply':
+        return applyCommand(parseOptions(args)) ? 0 : 1;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  printUsage();
+  return 1;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,83 @@
+/**
+ * Quarantine Run CLI Test Suite
+ *
+ * Validates which failures of a quarantine run fail the build.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { getQuarantineRunFailures } from './quarantine';
+import type { CucumberElement } from './trendReport';
+
+/**
+ * Builds a scenario element
+ * @param line - Scenario line
+ * @param tags - Scenario tags
+ * @param statuses - Step statuses
+ * @returns Scenario element
+ */
+function scenario(line: number, tags: string[], statuses: string[]): CucumberElement {
+  return {
+    name: `Scenario at line ${line}`,
+    line,
+    type: 'scenario',
+    tags: tags.map(name => ({ name })),
+    steps: statuses.map(status => ({ keyword: 'Given ', result: { status } })),
+  };
+}
+
+describe('Quarantine Run CLI', () => {
+  describe('getQuarantineRunFailures', () => {
+    test('should accept failed steps of quarantined scenarios', () => {
+      const failures = getQuarantineRunFailures([
+        {
+          uri: 'a.feature',
+          name: 'A',
+          elements: [
+            scenario(3, ['@quarantine'], ['passed', 'failed', 'skipped']),
+            scenario(8, ['@quarantine', '@smoke'], ['passed']),
+          ],
+        },
+      ]);
+
+      expect(failures).toEqual({
+        quarantined: ['a.feature:3 Scenario at line 3'],
+        unexpected: [],
+      });
+    });
+
+    test('should reject failures of scenarios without @quarantine', () => {
+      const failures = getQuarantineRunFailures([
+        { uri: 'a.feature', name: 'A', elements: [scenario(3, ['@smoke'], ['failed'])] },
+      ]);
+
+      expect(failures.unexpected).toEqual([
+        'a.feature:3 Scenario at line 3 (not tagged @quarantine)',
+      ]);
+    });
+
+    test('should reject undefined, pending and ambiguous steps of quarantined scenarios', () => {
+      const failures = getQuarantineRunFailures([
+        {
+          uri: 'a.feature',
+          name: 'A',
+          elements: [
+            scenario(3, ['@quarantine'], ['undefined']),
+            scenario(8, ['@quarantine'], ['passed', 'pending']),
+            scenario(13, ['@quarantine'], ['failed', 'ambiguous']),
+          ],
+        },
+      ]);
+
+      expect(failures).toEqual({
+        quarantined: [],
+        unexpected: [
+          'a.feature:3 Scenario at line 3 (undefined step)',
+          'a.feature:8 Scenario at line 8 (pending step)',
+          'a.feature:13 Scenario at line 13 (ambiguous step)',
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Step Catalog Test Suite
+ *
+ * Validates the scan of step definition sources and the snippets suggested
+ * for undefined steps.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CucumberExpressionGenerator, ParameterTypeRegistry } from '@cucumber/cucumber-expressions';
+import { generateSnippet, scanStepDefinitions, type PickleStep } from './stepCatalog';
+
+/**
+ * Builds a pickle step
+ * @param text - Step text
+ * @param type - Pickle step type
+ * @param argument - Doc string or data table argument
+ * @returns Pickle step
+ */
+function pickleStep(text: string, type: string, argument?: object): PickleStep {
+  return { id: '1', astNodeIds: ['1'], text, type, argument } as PickleStep;
+}
+
+describe('Step Catalog', () => {
+  describe('scanStepDefinitions', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'step-catalog-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should find definitions with their keyword, pattern and line', () => {
+      const stepsDir = path.join(tempDir, 'src', 'steps');
+      fs.mkdirSync(stepsDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(stepsDir, 'cart.steps.ts'),
+        [
+          "import { Given, When } from '@cucumber/cucumber';",
+          '',
+          "Given('I open the cart', async function () {});",
+          'When(',
+          "  'I add {int} item(s) named {string}',",
+          '  async function (count: number, name: string) {}',
+          ');',
+        ].join('\n')
+      );
+
+      expect(scanStepDefinitions(tempDir, path.join(tempDir, 'src'))).toEqual([
+        {
+          keyword: 'Given',
+          pattern: 'I open the cart',
+          uri: 'src/steps/cart.steps.ts',
+          line: 3,
+          loaded: false,
+          usages: [],
+        },
+        {
+          keyword: 'When',
+          pattern: 'I add {int} item(s) named {string}',
+          uri: 'src/steps/cart.steps.ts',
+          line: 4,
+          loaded: false,
+          usages: [],
+        },
+      ]);
+    });
+
+    test('should unescape quotes in patterns', () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'quote.steps.ts'),
+        "Then('the user\\'s name is shown', async function () {});"
+      );
+
+      expect(scanStepDefinitions(tempDir, tempDir)[0].pattern).toBe("the user's name is shown");
+    });
+
+    test('should scan disabled step files and skip declaration files', () => {
+      const source = "Then('it works', async function () {});";
+      fs.writeFileSync(path.join(tempDir, 'old.steps.ts.disabled'), source);
+      fs.writeFileSync(path.join(tempDir, 'types.d.ts'), source);
+      fs.writeFileSync(path.join(tempDir, 'notes.md'), source);
+
+      expect(scanStepDefinitions(tempDir, tempDir).map(definition => definition.uri)).toEqual([
+        'old.steps.ts.disabled',
+      ]);
+    });
+
+    test('should skip unit tests, whose fixtures contain step definitions', () => {
+      const source = "Then('the user\\'s name is shown', async function () {});";
+      fs.writeFileSync(path.join(tempDir, 'catalog.test.ts'), source);
+      fs.writeFileSync(path.join(tempDir, 'catalog.spec.ts'), source);
+      fs.writeFileSync(path.join(tempDir, 'profile.steps.ts'), source);
+
+      expect(scanStepDefinitions(tempDir, tempDir).map(definition => definition.uri)).toEqual([
+        'profile.steps.ts',
+      ]);
+    });
+
+    test('should return nothing for a missing directory', () => {
+      expect(scanStepDefinitions(tempDir, path.join(tempDir, 'missing'))).toEqual([]);
+    });
+  });
+
+  describe('generateSnippet', () => {
+    const registry = new ParameterTypeRegistry();
+    const generator = new CucumberExpressionGenerator(() => registry.parameterTypes);
+
+    test('should use the keyword of the step type and typed parameters', () => {
+      expect(generateSnippet(pickleStep('I add 2 items named "apple"', 'Action'), generator)).toBe(
+        [
+          "When('I add {int} items named {string}', async function (this: CustomWorld, int: number, string: string) {",
+          '  // Write code here that turns the phrase above into concrete actions',
+          "  return 'pending';",
+          '});',
+        ].join('\n')
+      );
+    });
+
+    test('should fall back to Given for steps of unknown type', () => {
+      expect(generateSnippet(pickleStep('a step', 'Unknown'), generator)).toMatch(
+        /^Given\('a step', async function \(this: CustomWorld\) \{/
+      );
+    });
+
+    test('should add doc string and data table parameters', () => {
+      const docString = generateSnippet(
+        pickleStep('the body is', 'Outcome', { docString: { content: '{}' } }),
+        generator
+      );
+      const dataTable = generateSnippet(
+        pickleStep('the users are', 'Context', { dataTable: { rows: [] } }),
+        generator
+      );
+
+      expect(docString).toContain(
+        "Then('the body is', async function (this: CustomWorld, docString: string) {"
+      );
+      expect(dataTable).toContain(
+        "Given('the users are', async function (this: CustomWorld, dataTable: DataTable) {"
+      );
+    });
+
+    test('should escape quotes and backslashes in the pattern', () => {
+      expect(
+        generateSnippet(pickleStep("the user's path is C:\\temp", 'Outcome'), generator)
+      ).toContain("Then('the user\\'s path is C:\\\\temp'");
+    });
+  });
+});
@@ -0,0 +1,548 @@
+/**
+ * Step Catalog Module
+ *
+ * This module loads every step definition and feature file through a Cucumber
+ * dry run and analyses how they fit together:
+ * - Undefined steps, with a suggested step definition snippet
+ * - Loaded step definitions never used by a feature
+ * - Ambiguous steps matching more than one loaded definition
+ * - Patterns defined more than once across modules
+ *
+ * Step definition files that are not loaded (e.g. *.steps.ts.disabled, or
+ * outside the required globs) are found by scanning the sources, so their
+ * duplicates and the undefined steps they would define are reported too.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { loadConfiguration, runCucumber } from '@cucumber/cucumber/api';
+import {
+  CucumberExpression,
+  CucumberExpressionGenerator,
+  ParameterType,
+  ParameterTypeRegistry,
+} from '@cucumber/cucumber-expressions';
+
+/** Number of example usages shown per step definition in the catalog */
+const CATALOG_EXAMPLE_COUNT = 3;
+
+/** Source files scanned for step definitions */
+const STEP_SOURCE_PATTERN = /\.ts(\.disabled)?$/;
+
+/** Source files never scanned: declarations and unit tests, whose fixtures contain step-like strings */
+const EXCLUDED_SOURCE_PATTERN = /\.(d|test|spec)\.ts$/;
+
+/** Step definition call with a string pattern, e.g. When('I open {string}', ... */
+const STEP_DEFINITION_PATTERN = /\b(Given|When|Then|defineStep)\(\s*'((?:[^'\\\n]|\\.)*)'/g;
+
+/** TypeScript types of the built-in parameter types used in snippets */
+const SNIPPET_ARGUMENT_TYPES: Record<string, string> = {
+  int: 'number',
+  float: 'number',
+  double: 'number',
+  bigdecimal: 'number',
+  byte: 'number',
+  short: 'number',
+  long: 'number',
+  biginteger: 'bigint',
+  string: 'string',
+  word: 'string',
+  '': 'string',
+};
+
+/** Snippet keywords of the pickle step types */
+const SNIPPET_KEYWORDS: Record<string, string> = {
+  Context: 'Given',
+  Action: 'When',
+  Outcome: 'Then',
+};
+
+/** Cucumber message emitted by the dry run */
+type Envelope = Parameters<NonNullable<Parameters<typeof runCucumber>[2]>>[0];
+
+/** Pickle step of a Cucumber message */
+export type PickleStep = NonNullable<Envelope['pickle']>['steps'][number];
+
+/**
+ * A feature step using a step definition
+ */
+export interface StepUsage {
+  /** Step text without the keyword */
+  text: string;
+  /** Feature file path relative to the project root */
+  uri: string;
+  /** Line of the step in the feature file */
+  line: number;
+  /** Scenario name */
+  scenario: string;
+}
+
+/**
+ * A step definition found in the sources or loaded by Cucumber
+ */
+export interface StepDefinitionInfo {
+  /** Keyword the definition was registered with (Given, When, Then or defineStep) */
+  keyword: string;
+  /** Cucumber expression or regular expression source */
+  pattern: string;
+  /** Source file path relative to the project root */
+  uri: string;
+  /** Line of the definition */
+  line: number;
+  /** Whether Cucumber loaded the definition with the required globs */
+  loaded: boolean;
+  /** Feature steps using the definition (would use it, for definitions not loaded) */
+  usages: StepUsage[];
+}
+
+/**
+ * A step text without a loaded step definition
+ */
+export interface UndefinedStep {
+  /** Step text without the keyword */
+  text: string;
+  /** Suggested step definition */
+  snippet: string;
+  /** Feature steps using the text */
+  usages: StepUsage[];
+  /** Definitions matching the text in modules that are not loaded */
+  candidates: StepDefinitionInfo[];
+}
+
+/**
+ * A step text matching more than one loaded step definition
+ */
+export interface AmbiguousStep {
+  text: string;
+  definitions: StepDefinitionInfo[];
+  usages: StepUsage[];
+}
+
+/**
+ * Result of the step analysis
+ */
+export interface StepCatalog {
+  /** Scenarios in the analysed features */
+  scenarioCount: number;
+  /** Every step definition, loaded or not, in source order */
+  definitions: StepDefinitionInfo[];
+  undefinedSteps: UndefinedStep[];
+  ambiguousSteps: AmbiguousStep[];
+  /** Loaded definitions no feature step uses */
+  unused: StepDefinitionInfo[];
+  /** Groups of definitions sharing a pattern, in more than one place */
+  duplicates: StepDefinitionInfo[][];
+}
+
+/**
+ * Options of the step analysis
+ */
+export interface StepCatalogOptions {
+  /** Project root, the working directory of the dry run */
+  cwd: string;
+  /** Feature files or directories */
+  paths: string[];
+  /** Step definition globs loaded by Cucumber */
+  require: string[];
+  /** Directory scanned for step definition sources */
+  sourceDir: string;
+}
+
+/**
+ * Lists the files of a directory recursively
+ * @param dir - Directory to list
+ * @returns Absolute file paths
+ */
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+  });
+}
+
+/**
+ * Converts an absolute path into a project-relative path with forward slashes
+ * @param cwd - Project root
+ * @param filePath - Absolute path
+ * @returns Relative path
+ */
+function toUri(cwd: string, filePath: string): string {
+  return path.relative(cwd, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Scans source files for step definitions with string patterns
+ * Also finds definitions Cucumber does not load, such as *.steps.ts.disabled.
+ * Declaration files and unit tests are skipped.
+ * @param cwd - Project root
+ * @param sourceDir - Directory to scan
+ * @returns Step definitions, marked as not loaded
+ */
+export function scanStepDefinitions(cwd: string, sourceDir: string): StepDefinitionInfo[] {
+  return listFiles(sourceDir)
+    .filter(file => STEP_SOURCE_PATTERN.test(file) && !EXCLUDED_SOURCE_PATTERN.test(file))
+    .flatMap(file => {
+      const source = fs.readFileSync(file, 'utf-8');
+      return Array.from(source.matchAll(STEP_DEFINITION_PATTERN), match => ({
+        keyword: match[1],
+        pattern: match[2].replace(/\\(.)/g, '$1'),
+        uri: toUri(cwd, file),
+        line: source.substring(0, match.index).split('\n').length,
+        loaded: false,
+        usages: [],
+      }));
+    });
+}
+
+/**
+ * Maps the step ids of a Gherkin document to their lines
+ * @param document - Gherkin document message
+ * @param lines - Step lines by AST node id (mutated)
+ */
+function collectStepLines(
+  document: NonNullable<Envelope['gherkinDocument']>,
+  lines: Map<string, number>
+): void {
+  type Child = NonNullable<typeof document.feature>['children'][number];
+  const visit = (children: readonly Child[]): void => {
+    for (const child of children) {
+      const steps = [...(child.background?.steps ?? []), ...(child.scenario?.steps ?? [])];
+      steps.forEach(step => lines.set(step.id, step.location.line));
+      if (child.rule) {
+        visit(child.rule.children as readonly Child[]);
+      }
+    }
+  };
+  visit(document.feature?.children ?? []);
+}
+
+/**
+ * Generates a step definition snippet for an undefined step, in the style of the step files
+ * @param step - Undefined pickle step
+ * @param generator - Cucumber expression generator
+ * @returns TypeScript snippet
+ */
+export function generateSnippet(step: PickleStep, generator: CucumberExpressionGenerator): string {
+  const keyword = SNIPPET_KEYWORDS[String(step.type)] ?? 'Given';
+  const [expression] = generator.generateExpressions(step.text);
+  const parameters = expression.parameterNames.map(
+    (name, index) =>
+      `${name}: ${SNIPPET_ARGUMENT_TYPES[expression.parameterTypes[index].name ?? ''] ?? 'unknown'}`
+  );
+  if (step.argument?.docString) {
+    parameters.push('docString: string');
+  }
+  if (step.argument?.dataTable) {
+    parameters.push('dataTable: DataTable');
+  }
+
+  const pattern = expression.source.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  return [
+    `${keyword}('${pattern}', async function (${['this: CustomWorld', ...parameters].join(', ')}) {`,
+    '  // Write code here that turns the phrase above into concrete actions',
+    "  return 'pending';",
+    '});',
+  ].join('\n');
+}
+
+/**
+ * Builds a matcher for a step definition pattern
+ * @param pattern - Cucumber expression
+ * @param registry - Parameter types
+ * @returns Matcher, or null if the pattern does not compile (e.g. unknown parameter type)
+ */
+function createMatcher(
+  pattern: string,
+  registry: ParameterTypeRegistry
+): ((text: string) => boolean) | null {
+  try {
+    const expression = new CucumberExpression(pattern, registry);
+    return text => expression.match(text) !== null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads the step definitions and features with a Cucumber dry run and analyses them
+ * @param options - Analysis options
+ * @returns Step catalog
+ */
+export async function buildStepCatalog(options: StepCatalogOptions): Promise<StepCatalog> {
+  const { cwd } = options;
+  const definitions = scanStepDefinitions(cwd, options.sourceDir);
+  const definitionsById = new Map<string, StepDefinitionInfo>();
+  const registry = new ParameterTypeRegistry();
+  const stepLines = new Map<string, number>();
+  const pickles = new Map<string, NonNullable<Envelope['pickle']>>();
+  const testCases: Array<NonNullable<Envelope['testCase']>> = [];
+
+  const onMessage = (envelope: Envelope): void => {
+    if (envelope.stepDefinition) {
+      const { id, pattern, sourceReference } = envelope.stepDefinition;
+      const uri = toUri(cwd, path.resolve(cwd, sourceReference.uri ?? ''));
+      const line = sourceReference.location?.line ?? 0;
+      const sameSource = (candidate: StepDefinitionInfo): boolean =>
+        candidate.uri === uri && candidate.pattern === pattern.source;
+      let definition =
+        definitions.find(candidate => sameSource(candidate) && candidate.line === line) ??
+        definitions.find(candidate => sameSource(candidate) && !candidate.loaded);
+      if (!definition) {
+        definition = {
+          keyword: 'Step',
+          pattern: pattern.source,
+          uri,
+          line,
+          loaded: true,
+          usages: [],
+        };
+        definitions.push(definition);
+      }
+      definition.loaded = true;
+      definition.line = line;
+      definitionsById.set(id, definition);
+    } else if (envelope.parameterType) {
+      const { name, regularExpressions, useForSnippets, preferForRegularExpressionMatch } =
+        envelope.parameterType;
+      registry.defineParameterType(
+        new ParameterType(
+          name,
+          regularExpressions,
+          null,
+          (value: string) => value,
+          useForSnippets,
+          preferForRegularExpressionMatch
+        )
+      );
+    } else if (envelope.gherkinDocument) {
+      collectStepLines(envelope.gherkinDocument, stepLines);
+    } else if (envelope.pickle) {
+      pickles.set(envelope.pickle.id, envelope.pickle);
+    } else if (envelope.testCase) {
+      testCases.push(envelope.testCase);
+    }
+  };
+
+  // The cucumber.cjs profiles are skipped: their compiled requires and tag filter would mix in
+  const { runConfiguration } = await loadConfiguration(
+    {
+      file: false,
+      provided: { paths: options.paths, require: options.require, dryRun: true, format: [] },
+    },
+    { cwd }
+  );
+  // Formatter output is discarded; the analysis only needs the messages
+  const stdout = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  await runCucumber(runConfiguration, { cwd, stdout }, onMessage);
+
+  const generator = new CucumberExpressionGenerator(() => registry.parameterTypes);
+  const notLoaded = definitions
+    .filter(definition => !definition.loaded)
+    .map(definition => ({ definition, matches: createMatcher(definition.pattern, registry) }));
+  const undefinedSteps = new Map<string, UndefinedStep>();
+  const ambiguousSteps = new Map<string, AmbiguousStep>();
+
+  for (const testCase of testCases) {
+    const pickle = pickles.get(testCase.pickleId);
+    for (const testStep of testCase.testSteps) {
+      const step = pickle?.steps.find(candidate => candidate.id === testStep.pickleStepId);
+      if (!pickle || !step) {
+        continue; // Hook
+      }
+
+      const usage: StepUsage = {
+        text: step.text,
+        uri: pickle.uri,
+        line: stepLines.get(step.astNodeIds[0]) ?? 0,
+        scenario: pickle.name,
+      };
+      const matched = (testStep.stepDefinitionIds ?? []).flatMap(id => {
+        const definition = definitionsById.get(id);
+        return definition ? [definition] : [];
+      });
+      matched.forEach(definition => definition.usages.push(usage));
+
+      if (matched.length === 0) {
+        let undefinedStep = undefinedSteps.get(step.text);
+        if (!undefinedStep) {
+          const candidates = notLoaded
+            .filter(({ matches }) => matches?.(step.text))
+            .map(({ definition }) => definition);
+          undefinedStep = {
+            text: step.text,
+            snippet: generateSnippet(step, generator),
+            usages: [],
+            candidates,
+          };
+          undefinedSteps.set(step.text, undefinedStep);
+        }
+        undefinedStep.candidates.forEach(definition => definition.usages.push(usage));
+        undefinedStep.usages.push(usage);
+      } else if (matched.length > 1) {
+        const ambiguous = ambiguousSteps.get(step.text) ?? {
+          text: step.text,
+          definitions: matched,
+          usages: [],
+        };
+        ambiguous.usages.push(usage);
+        ambiguousSteps.set(step.text, ambiguous);
+      }
+    }
+  }
+
+  const byPattern = new Map<string, StepDefinitionInfo[]>();
+  definitions.forEach(definition =>
+    byPattern.set(definition.pattern, [...(byPattern.get(definition.pattern) ?? []), definition])
+  );
+
+  return {
+    scenarioCount: testCases.length,
+    definitions,
+    undefinedSteps: Array.from(undefinedSteps.values()),
+    ambiguousSteps: Array.from(ambiguousSteps.values()),
+    unused: definitions.filter(definition => definition.loaded && definition.usages.length === 0),
+    duplicates: Array.from(byPattern.values()).filter(group => group.length > 1),
+  };
+}
+
+/**
+ * Escapes text for HTML
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats a step usage for the catalog
+ * @param usage - Step usage
+ * @returns HTML list item
+ */
+function renderUsage(usage: StepUsage): string {
+  return (
+    `<li>${escapeHtml(usage.text)} <small>${escapeHtml(usage.uri)}:${usage.line} - ` +
+    `${escapeHtml(usage.scenario)}</small></li>`
+  );
+}
+
+/**
+ * Renders the status of a step definition
+ * @param definition - Step definition
+ * @param duplicated - Whether its pattern is defined more than once
+ * @returns HTML badges
+ */
+function renderStatus(definition: StepDefinitionInfo, duplicated: boolean): string {
+  const badges = [
+    definition.loaded
+      ? definition.usages.length > 0
+        ? '<span class="badge used">used</span>'
+        : '<span class="badge unused">unused</span>'
+      : '<span class="badge off">not loaded</span>',
+    duplicated ? '<span class="badge duplicate">duplicate</span>' : '',
+  ];
+  return badges.join(' ');
+}
+
+/** Inline stylesheet of the catalog */
+const STYLES = `
+body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; margin: 24px; color: #222; }
+input { width: 480px; padding: 6px; font-size: 14px; }
+table { border-collapse: collapse; margin-top: 8px; width: 100%; }
+th, td { border-bottom: 1px solid #ddd; padding: 4px 10px; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }
+code, pre { font-family: Menlo, Consolas, monospace; font-size: 13px; }
+pre { margin: 0; white-space: pre-wrap; }
+ul { margin: 0; padding-left: 18px; }
+small { color: #777; }
+.badge { border-radius: 4px; padding: 1px 6px; font-size: 12px; white-space: nowrap; }
+.used { background: #dafbe1; }
+.unused { background: #fff8c5; }
+.off { background: #eee; }
+.duplicate, .ambiguous { background: #ffebe9; }
+`;
+
+/** Inline script filtering the table rows by the search text */
+const SEARCH_SCRIPT = `
+document.getElementById('search').addEventListener('input', function (event) {
+  var query = event.target.value.toLowerCase();
+  document.querySelectorAll('tbody tr').forEach(function (row) {
+    row.hidden = query !== '' && row.textContent.toLowerCase().indexOf(query) === -1;
+  });
+});
+`;
+
+/**
+ * Renders the step catalog as a searchable HTML page
+ * @param catalog - Step catalog
+ * @returns Self-contained HTML document
+ */
+export function renderStepCatalog(catalog: StepCatalog): string {
+  const duplicated = new Set(catalog.duplicates.flat());
+  const ambiguous = new Set(catalog.ambiguousSteps.flatMap(step => step.definitions));
+  const loadedCount = catalog.definitions.filter(definition => definition.loaded).length;
+
+  const definitionRows = catalog.definitions
+    .map(definition => {
+      const examples = definition.usages.slice(0, CATALOG_EXAMPLE_COUNT).map(renderUsage).join('');
+      const more = definition.usages.length - CATALOG_EXAMPLE_COUNT;
+      return (
+        `<tr><td>${escapeHtml(definition.keyword)}</td>` +
+        `<td><code>${escapeHtml(definition.pattern)}</code></td>` +
+        `<td><small>${escapeHtml(definition.uri)}:${definition.line}</small></td>` +
+        `<td>${renderStatus(definition, duplicated.has(definition))}` +
+        `${ambiguous.has(definition) ? ' <span class="badge ambiguous">ambiguous</span>' : ''}</td>` +
+        `<td>${definition.usages.length}</td>` +
+        `<td><ul>${examples}${more > 0 ? `<li><small>and ${more} more</small></li>` : ''}</ul></td></tr>`
+      );
+    })
+    .join('');
+
+  const undefinedRows = catalog.undefinedSteps
+    .map(
+      step =>
+        `<tr><td>${escapeHtml(step.text)}</td><td>${step.usages.length}</td>` +
+        `<td><ul>${step.usages.slice(0, CATALOG_EXAMPLE_COUNT).map(renderUsage).join('')}</ul>` +
+        step.candidates
+          .map(
+            candidate =>
+              `<small>Defined in a module that is not loaded: ${escapeHtml(candidate.uri)}:` +
+              `${candidate.line}</small><br>`
+          )
+          .join('') +
+        `</td><td><pre>${escapeHtml(step.snippet)}</pre></td></tr>`
+    )
+    .join('');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    '<title>Step catalog</title>',
+    `<style>${STYLES}</style></head><body>`,
+    '<h1>Step catalog</h1>',
+    `<p>${loadedCount} loaded step definition(s), ` +
+      `${catalog.definitions.length - loadedCount} not loaded, ${catalog.unused.length} unused; ` +
+      `${catalog.undefinedSteps.length} undefined and ${catalog.ambiguousSteps.length} ambiguous ` +
+      `step(s) in ${catalog.scenarioCount} scenario(s)</p>`,
+    '<input id="search" type="search" placeholder="Search steps, files and scenarios" autofocus>',
+    '<h2>Step definitions</h2>',
+    '<table><thead><tr><th>Keyword</th><th>Pattern</th><th>Location</th><th>Status</th>' +
+      `<th>Usages</th><th>Examples</th></tr></thead><tbody>${definitionRows}</tbody></table>`,
+    '<h2>Undefined steps</h2>',
+    '<table><thead><tr><th>Step</th><th>Usages</th><th>Examples</th><th>Suggested snippet</th>' +
+      `</tr></thead><tbody>${undefinedRows}</tbody></table>`,
+    `<script>${SEARCH_SCRIPT}</script>`,
+    '</body></html>',
+  ].join('\n');
+}
@@ -0,0 +1,206 @@
+/**
+ * Step Catalog CLI
+ *
+ * Command line tool loading every step definition and feature file with a
+ * Cucumber dry run (nothing is executed) to find undefined, unused, ambiguous
+ * and duplicate steps, and to build a searchable HTML catalog of all steps.
+ *
+ * Usage:
+ *   npm run steps -- report [options]    Print undefined (with snippets), unused, ambiguous and duplicate steps
+ *   npm run steps -- catalog [options]   Build the HTML step catalog
+ *
+ * Options:
+ *   --paths=<dirs>      Comma-separated feature files or directories (default src/applications/)
+ *   --require=<globs>   Comma-separated step definition globs (default the globs of the test scripts)
+ *   --out=<file>        Catalog file (default test-results/step-catalog.html)
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  buildStepCatalog,
+  renderStepCatalog,
+  type StepCatalog,
+  type StepDefinitionInfo,
+  type StepUsage,
+} from './stepCatalog';
+import { PathUtils } from '../utils/paths';
+
+/** Feature directories analysed by default */
+const DEFAULT_PATHS = ['src/applications/'];
+
+/** Step definitions loaded by default, the sources of the test scripts' --require globs */
+const DEFAULT_REQUIRE = ['src/common/steps/**/*.ts', 'src/applications/**/steps/**/*.ts'];
+
+/**
+ * Reads a --name=value option
+ * @param args - Command line arguments
+ * @param name - Option name
+ * @returns Option value, or undefined if absent
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.substring(prefix.length);
+}
+
+/**
+ * Reads a comma-separated list option
+ * @param args - Command line arguments
+ * @param name - Option name
+ * @param defaultValue - Value used when the option is absent
+ * @returns Option values
+ */
+function getListOption(args: string[], name: string, defaultValue: string[]): string[] {
+  const raw = getOption(args, name);
+  return raw === undefined ? defaultValue : raw.split(',').filter(value => value.length > 0);
+}
+
+/**
+ * Loads and analyses the steps selected by the options
+ * @param args - Command line arguments
+ * @returns Step catalog
+ */
+function loadCatalog(args: string[]): Promise<StepCatalog> {
+  const cwd = PathUtils.getProjectRoot();
+  return buildStepCatalog({
+    cwd,
+    paths: getListOption(args, 'paths', DEFAULT_PATHS),
+    require: getListOption(args, 'require', DEFAULT_REQUIRE),
+    sourceDir: path.join(cwd, 'src'),
+  });
+}
+
+/**
+ * Formats a step definition reference
+ * @param definition - Step definition
+ * @returns "path:line pattern"
+ */
+function formatDefinition(definition: StepDefinitionInfo): string {
+  return `${definition.uri}:${definition.line} ${definition.keyword}('${definition.pattern}')`;
+}
+
+/**
+ * Formats where a step is used
+ * @param usages - Step usages
+ * @returns e.g. "used 3x, first at path:line"
+ */
+function formatUsages(usages: StepUsage[]): string {
+  return `used ${usages.length}x, first at ${usages[0].uri}:${usages[0].line}`;
+}
+
+/**
+ * Prints undefined, unused, ambiguous and duplicate steps
+ * @param catalog - Step catalog
+ */
+function reportCommand(catalog: StepCatalog): void {
+  const loaded = catalog.definitions.filter(definition => definition.loaded);
+  const notLoaded = catalog.definitions.filter(definition => !definition.loaded);
+  const undefinedCount = catalog.undefinedSteps.reduce((sum, step) => sum + step.usages.length, 0);
+
+  console.log(
+    `${catalog.scenarioCount} scenario(s), ${loaded.length} loaded step definition(s), ` +
+      `${notLoaded.length} in modules that are not loaded\n`
+  );
+
+  console.log(`Undefined steps: ${undefinedCount} (${catalog.undefinedSteps.length} distinct)`);
+  for (const step of catalog.undefinedSteps) {
+    console.log(`\n  ✗ ${step.text}`);
+    console.log(`      ${formatUsages(step.usages)}`);
+    step.candidates.forEach(candidate =>
+      console.log(`      defined in a module that is not loaded: ${formatDefinition(candidate)}`)
+    );
+    console.log(step.snippet.replace(/^/gm, '      '));
+  }
+
+  console.log(`\nUnused step definitions: ${catalog.unused.length}`);
+  catalog.unused.forEach(definition => console.log(`  ${formatDefinition(definition)}`));
+
+  console.log(`\nAmbiguous steps: ${catalog.ambiguousSteps.length}`);
+  for (const step of catalog.ambiguousSteps) {
+    console.log(`  ✗ ${step.text} (${formatUsages(step.usages)})`);
+    step.definitions.forEach(definition => console.log(`      ${formatDefinition(definition)}`));
+  }
+
+  console.log(`\nDuplicate patterns: ${catalog.duplicates.length}`);
+  for (const group of catalog.duplicates) {
+    console.log(`  '${group[0].pattern}'`);
+    group.forEach(definition =>
+      console.log(
+        `      ${definition.uri}:${definition.line}${definition.loaded ? '' : ' (not loaded)'}`
+      )
+    );
+  }
+}
+
+/**
+ * Builds the HTML step catalog
+ * @param catalog - Step catalog
+ * @param args - Command line arguments
+ */
+function catalogCommand(catalog: StepCatalog, args: string[]): void {
+  const outPath = path.resolve(
+    PathUtils.getProjectRoot(),
+    getOption(args, 'out') ?? 'test-results/step-catalog.html'
+  );
+  PathUtils.ensureDirectoryExists(path.dirname(outPath));
+  fs.writeFileSync(outPath, renderStepCatalog(catalog));
+
+  console.log(
+    `✓ Catalog of ${catalog.definitions.length} step definition(s) written to ${outPath}`
+  );
+}
+
+/**
+ * Prints usage information
+ */
+function printUsage(): void {
+  console.log(
+    [
+      'Usage: npm run steps -- <command> [options]',
+      '',
+      'Commands:',
+      '  report                Print undefined (with snippets), unused, ambiguous and duplicate steps',
+      '  catalog               Build the HTML step catalog',
+      '',
+      'Options:',
+      `  --paths=<dirs>        Comma-separated feature paths (default ${DEFAULT_PATHS.join(',')})`,
+      '  --require=<globs>     Comma-separated step definition globs (default the test scripts)',
+      '  --out=<file>          Catalog file (default test-results/step-catalog.html)',
+    ].join('\n')
+  );
+}
+
+/**
+ * CLI entry point
+ * @param argv - Command line arguments without the node and script paths
+ * @returns Process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case 'report':
+        reportCommand(await loadCatalog(args));
+        return 0;
+      case 'catalog':
+        catalogCommand(await loadCatalog(args), args);
+        return 0;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  printUsage();
+  return 1;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,206 @@
+/**
+ * Trend Report Test Suite
+ *
+ * Validates the summaries of archived Cucumber JSON reports and the
+ * scenarios whose status changed between runs.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import {
+  findStatusChanges,
+  summarizeRun,
+  type ArchivedRun,
+  type CucumberFeature,
+  type RunSummary,
+  type ScenarioStatus,
+} from './trendReport';
+
+/**
+ * Builds a scenario element with one step per status
+ * @param line - Scenario line
+ * @param statuses - Step statuses
+ * @param stepDuration - Duration of each step in nanoseconds
+ * @returns Scenario element
+ */
+function scenario(line: number, statuses: string[], stepDuration = 1e6) {
+  return {
+    name: `Scenario at line ${line}`,
+    line,
+    type: 'scenario',
+    steps: statuses.map(status => ({
+      keyword: 'Given ',
+      name: 'a step',
+      result: { status, duration: stepDuration },
+    })),
+  };
+}
+
+/**
+ * Builds an archived T5 run of the given features
+ * @param features - Cucumber JSON features
+ * @returns Archived run
+ */
+function run(features: CucumberFeature[]): ArchivedRun {
+  return { environment: 'T5', timestamp: '2026-01-01T00:00:00.000Z', features };
+}
+
+/**
+ * Builds a run summary with the given scenario statuses
+ * @param statuses - Status by scenario identifier
+ * @returns Run summary
+ */
+function summary(statuses: Record<string, ScenarioStatus>): RunSummary {
+  return {
+    ...summarizeRun(run([])),
+    scenarios: Object.entries(statuses).map(([id, status]) => ({
+      id,
+      name: id,
+      feature: id.split(':')[0],
+      status,
+      duration: 0,
+    })),
+  };
+}
+
+/**
+ * Lists the identifiers of scenarios
+ * @param scenarios - Scenario results
+ * @returns Scenario identifiers
+ */
+function ids(scenarios: Array<{ id: string }>): string[] {
+  return scenarios.map(scenario => scenario.id);
+}
+
+describe('Trend Report', () => {
+  describe('summarizeRun', () => {
+    test('should count scenario statuses and compute the pass rate', () => {
+      const summary = summarizeRun(
+        run([
+          {
+            uri: 'features/cart.feature',
+            name: 'Cart',
+            elements: [
+              scenario(3, ['passed', 'passed']),
+              scenario(8, ['passed', 'failed', 'skipped']),
+              scenario(12, ['passed', 'passed']),
+              scenario(16, ['passed', 'passed']),
+              scenario(20, ['passed', 'undefined']),
+            ],
+          },
+        ])
+      );
+
+      expect(summary).toMatchObject({
+        environment: 'T5',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        passed: 3,
+        failed: 1,
+        skipped: 1,
+        passRate: 0.75,
+      });
+      expect(summary.scenarios.map(result => [result.id, result.status])).toEqual([
+        ['features/cart.feature:3', 'passed'],
+        ['features/cart.feature:8', 'failed'],
+        ['features/cart.feature:12', 'passed'],
+        ['features/cart.feature:16', 'passed'],
+        ['features/cart.feature:20', 'skipped'],
+      ]);
+    });
+
+    test('should count ambiguous steps as failures', () => {
+      const summary = summarizeRun(
+        run([{ uri: 'a.feature', name: 'A', elements: [scenario(3, ['ambiguous'])] }])
+      );
+
+      expect(summary.scenarios[0].status).toBe('failed');
+    });
+
+    test('should count scenarios without steps as skipped', () => {
+      const summary = summarizeRun(
+        run([
+          { uri: 'a.feature', name: 'A', elements: [{ name: 'Empty', line: 3, type: 'scenario' }] },
+        ])
+      );
+
+      expect(summary.skipped).toBe(1);
+    });
+
+    test('should ignore backgrounds', () => {
+      const summary = summarizeRun(
+        run([
+          {
+            uri: 'a.feature',
+            name: 'A',
+            elements: [{ ...scenario(2, ['passed']), type: 'background' }, scenario(5, ['passed'])],
+          },
+        ])
+      );
+
+      expect(summary.scenarios).toHaveLength(1);
+    });
+
+    test('should convert step durations from nanoseconds to milliseconds', () => {
+      const summary = summarizeRun(
+        run([
+          {
+            uri: 'a.feature',
+            name: '',
+            elements: [scenario(3, ['passed', 'passed'], 1.5e9), scenario(7, ['passed'], 2e6)],
+          },
+        ])
+      );
+
+      expect(summary.scenarios.map(result => result.duration)).toEqual([3000, 2]);
+      expect(summary.duration).toBe(3002);
+      expect(summary.scenarios[0].feature).toBe('a.feature');
+    });
+
+    test('should report a full pass rate for runs without passed or failed scenarios', () => {
+      const summary = summarizeRun(run([{ uri: 'a.feature', name: 'A' }]));
+
+      expect(summary).toMatchObject({ passed: 0, failed: 0, skipped: 0, passRate: 1 });
+    });
+  });
+
+  describe('findStatusChanges', () => {
+    test('should compare the latest run with the previous result of each scenario', () => {
+      const changes = findStatusChanges([
+        summary({ 'a.feature:3': 'passed', 'a.feature:8': 'failed', 'b.feature:5': 'passed' }),
+        summary({ 'a.feature:3': 'failed', 'a.feature:8': 'passed', 'b.feature:5': 'passed' }),
+      ]);
+
+      expect(ids(changes.newlyFailing)).toEqual(['a.feature:3']);
+      expect(ids(changes.newlyFixed)).toEqual(['a.feature:8']);
+    });
+
+    test('should not report scenarios missing from the latest run of a subset', () => {
+      const changes = findStatusChanges([
+        summary({ 'a.feature:3': 'passed', 'b.feature:5': 'failed' }),
+        summary({ 'a.feature:3': 'passed' }),
+      ]);
+
+      expect(changes).toEqual({ newlyFailing: [], newlyFixed: [] });
+    });
+
+    test('should find the previous result in older runs and ignore skipped results', () => {
+      const changes = findStatusChanges([
+        summary({ 'a.feature:3': 'passed', 'b.feature:5': 'failed' }),
+        summary({ 'c.feature:7': 'passed' }),
+        summary({ 'a.feature:3': 'skipped' }),
+        summary({ 'a.feature:3': 'failed', 'b.feature:5': 'passed', 'c.feature:7': 'passed' }),
+      ]);
+
+      expect(ids(changes.newlyFailing)).toEqual(['a.feature:3']);
+      expect(ids(changes.newlyFixed)).toEqual(['b.feature:5']);
+    });
+
+    test('should report nothing for scenarios without a previous result', () => {
+      expect(findStatusChanges([summary({ 'a.feature:3': 'failed' })])).toEqual({
+        newlyFailing: [],
+        newlyFixed: [],
+      });
+    });
+  });
+});
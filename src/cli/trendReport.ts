@@ -0,0 +1,481 @@
+/**
+ * Trend Report Module
+ *
+ * This module turns archived Cucumber JSON reports into run summaries and
+ * renders them as a single self-contained HTML dashboard (inline CSS and SVG,
+ * no scripts or external resources), so it opens offline from the artifacts
+ * folder.
+ *
+ * Dashboard sections:
+ * - Pass rate over time
+ * - Per-environment breakdown
+ * - Newly failing and newly fixed scenarios (each scenario vs its previous result)
+ * - Slowest scenarios
+ * - Duration trend per feature
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+/** Number of slowest scenarios listed */
+const SLOWEST_SCENARIO_COUNT = 15;
+
+/**
+ * Step of a Cucumber JSON report (hooks are hidden steps)
+ */
+export interface CucumberStep {
+  keyword: string;
+  name?: string;
+  hidden?: boolean;
+  result: { status: string; duration?: number };
+}
+
+/**
+ * Scenario of a Cucumber JSON report
+ */
+export interface CucumberElement {
+  name: string;
+  line: number;
+  type: string;
+  tags?: Array<{ name: string }>;
+  steps?: CucumberStep[];
+}
+
+/**
+ * Feature of a Cucumber JSON report
+ */
+export interface CucumberFeature {
+  uri: string;
+  name: string;
+  elements?: CucumberElement[];
+}
+
+/**
+ * Cucumber JSON report archived with the context of its run
+ */
+export interface ArchivedRun {
+  /** Environment the run used, e.g. T5 */
+  environment: string;
+  /** ISO timestamp of the run */
+  timestamp: string;
+  /** Cucumber JSON report */
+  features: CucumberFeature[];
+}
+
+/**
+ * Final status of a scenario in a run
+ */
+export type ScenarioStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Result of one scenario in a run
+ */
+export interface ScenarioResult {
+  /** Feature file and line, unique per outline example */
+  id: string;
+  feature: string;
+  name: string;
+  status: ScenarioStatus;
+  /** Duration in milliseconds, hooks included */
+  duration: number;
+}
+
+/**
+ * Summary of one archived run
+ */
+export interface RunSummary {
+  environment: string;
+  timestamp: string;
+  scenarios: ScenarioResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Duration of all scenarios in milliseconds */
+  duration: number;
+  /** Passed share of the passed and failed scenarios, 0 to 1 */
+  passRate: number;
+}
+
+/**
+ * Determines the status of a scenario from its steps
+ * @param steps - Steps and hooks of the scenario
+ * @returns failed if any step failed, passed if every step passed, skipped otherwise
+ */
+function getScenarioStatus(steps: CucumberStep[]): ScenarioStatus {
+  if (steps.some(step => step.result.status === 'failed' || step.result.status === 'ambiguous')) {
+    return 'failed';
+  }
+  return steps.length > 0 && steps.every(step => step.result.status === 'passed')
+    ? 'passed'
+    : 'skipped';
+}
+
+/**
+ * Summarizes an archived run
+ * @param run - Archived run
+ * @returns Run summary
+ */
+export function summarizeRun(run: ArchivedRun): RunSummary {
+  const scenarios: ScenarioResult[] = run.features.flatMap(feature =>
+    (feature.elements ?? [])
+      .filter(element => element.type === 'scenario')
+      .map(element => {
+        const steps = element.steps ?? [];
+        const nanoseconds = steps.reduce((sum, step) => sum + (step.result.duration ?? 0), 0);
+        return {
+          id: `${feature.uri}:${element.line}`,
+          feature: feature.name || feature.uri,
+          name: element.name,
+          status: getScenarioStatus(steps),
+          duration: Math.round(nanoseconds / 1e6),
+        };
+      })
+  );
+
+  const passed = scenarios.filter(scenario => scenario.status === 'passed').length;
+  const failed = scenarios.filter(scenario => scenario.status === 'failed').length;
+
+  return {
+    environment: run.environment,
+    timestamp: run.timestamp,
+    scenarios,
+    passed,
+    failed,
+    skipped: scenarios.length - passed - failed,
+    duration: scenarios.reduce((sum, scenario) => sum + scenario.duration, 0),
+    passRate: passed + failed > 0 ? passed / (passed + failed) : 1,
+  };
+}
+
+/**
+ * Escapes text for HTML
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats a duration for display
+ * @param ms - Duration in milliseconds
+ * @returns e.g. "850ms", "12.4s", "3m 05s"
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Formats a run timestamp for display
+ * @param timestamp - ISO timestamp
+ * @returns "YYYY-MM-DD HH:mm"
+ */
+function formatTimestamp(timestamp: string): string {
+  return timestamp.replace('T', ' ').substring(0, 16);
+}
+
+/**
+ * Formats a share as a percentage
+ * @param rate - Share from 0 to 1
+ * @returns e.g. "97.5%"
+ */
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Renders a line chart as inline SVG
+ * @param points - Values with their tooltip, oldest first
+ * @param options - Chart size and value range (defaults to the data range)
+ * @returns SVG markup
+ */
+function renderLineChart(
+  points: Array<{ value: number; label: string }>,
+  options: { width: number; height: number; min?: number; max?: number }
+): string {
+  const { width, height } = options;
+  const padding = 6;
+  const values = points.map(point => point.value);
+  const min = options.min ?? Math.min(...values);
+  const max = options.max ?? Math.max(...values);
+  const range = max - min || 1;
+  const step = points.length > 1 ? (width - 2 * padding) / (points.length - 1) : 0;
+
+  const coordinates = points.map((point, index) => ({
+    x: padding + index * step,
+    y: height - padding - ((point.value - min) / range) * (height - 2 * padding),
+    label: point.label,
+  }));
+  const line = coordinates.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  const dots = coordinates
+    .map(
+      ({ x, y, label }) =>
+        `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="3"><title>${escapeHtml(label)}</title></circle>`
+    )
+    .join('');
+
+  return (
+    `<svg class="chart" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<polyline points="${line}" />${dots}</svg>`
+  );
+}
+
+/**
+ * Renders the pass rate over time section
+ * @param runs - Run summaries, oldest first
+ * @returns HTML section
+ */
+function renderPassRateSection(runs: RunSummary[]): string {
+  const chart = renderLineChart(
+    runs.map(run => ({
+      value: run.passRate * 100,
+      label: `${formatTimestamp(run.timestamp)} ${run.environment}: ${formatPercent(run.passRate)}`,
+    })),
+    { width: 720, height: 180, min: 0, max: 100 }
+  );
+
+  const rows = [...runs]
+    .reverse()
+    .map(
+      run =>
+        `<tr class="${run.failed > 0 ? 'bad' : 'good'}"><td>${formatTimestamp(run.timestamp)}</td>` +
+        `<td>${escapeHtml(run.environment)}</td><td>${run.scenarios.length}</td><td>${run.passed}</td>` +
+        `<td>${run.failed}</td><td>${run.skipped}</td><td>${formatPercent(run.passRate)}</td>` +
+        `<td>${formatDuration(run.duration)}</td></tr>`
+    )
+    .join('');
+
+  return (
+    '<section><h2>Pass rate over time</h2>' +
+    chart +
+    '<table><thead><tr><th>Run</th><th>Environment</th><th>Scenarios</th><th>Passed</th>' +
+    '<th>Failed</th><th>Skipped</th><th>Pass rate</th><th>Duration</th></tr></thead>' +
+    `<tbody>${rows}</tbody></table></section>`
+  );
+}
+
+/**
+ * Renders the per-environment breakdown section
+ * @param runs - Run summaries, oldest first
+ * @returns HTML section
+ */
+function renderEnvironmentSection(runs: RunSummary[]): string {
+  const environments = Array.from(new Set(runs.map(run => run.environment))).sort();
+
+  const rows = environments
+    .map(environment => {
+      const envRuns = runs.filter(run => run.environment === environment);
+      const latest = envRuns[envRuns.length - 1];
+      const averageRate = envRuns.reduce((sum, run) => sum + run.passRate, 0) / envRuns.length;
+      const averageDuration = envRuns.reduce((sum, run) => sum + run.duration, 0) / envRuns.length;
+      return (
+        `<tr><td>${escapeHtml(environment)}</td><td>${envRuns.length}</td>` +
+        `<td>${formatPercent(latest.passRate)}</td><td>${formatPercent(averageRate)}</td>` +
+        `<td>${latest.failed}</td><td>${formatDuration(Math.round(averageDuration))}</td></tr>`
+      );
+    })
+    .join('');
+
+  return (
+    '<section><h2>Environments</h2><table><thead><tr><th>Environment</th><th>Runs</th>' +
+    '<th>Latest pass rate</th><th>Average pass rate</th><th>Latest failures</th>' +
+    `<th>Average duration</th></tr></thead><tbody>${rows}</tbody></table></section>`
+  );
+}
+
+/**
+ * Finds the scenarios of the latest run whose status changed since their previous result
+ * Each scenario is compared with its most recent earlier result in the same environment, so
+ * runs of a subset of the scenarios (one application, some tags) compare only what they ran.
+ * @param runs - Run summaries of one environment, oldest first
+ * @returns Scenarios of the latest run that newly fail or were newly fixed
+ */
+export function findStatusChanges(runs: RunSummary[]): {
+  newlyFailing: ScenarioResult[];
+  newlyFixed: ScenarioResult[];
+} {
+  const latest = runs[runs.length - 1];
+  const previousStatus = new Map<string, ScenarioStatus>();
+  for (const run of runs.slice(0, -1)) {
+    for (const scenario of run.scenarios) {
+      if (scenario.status !== 'skipped') {
+        previousStatus.set(scenario.id, scenario.status);
+      }
+    }
+  }
+
+  const changed = (from: ScenarioStatus, to: ScenarioStatus): ScenarioResult[] =>
+    (latest?.scenarios ?? []).filter(
+      scenario => scenario.status === to && previousStatus.get(scenario.id) === from
+    );
+  return { newlyFailing: changed('passed', 'failed'), newlyFixed: changed('failed', 'passed') };
+}
+
+/**
+ * Renders the newly failing and newly fixed scenarios of each environment
+ * @param runs - Run summaries, oldest first
+ * @returns HTML section
+ */
+function renderChangesSection(runs: RunSummary[]): string {
+  const environments = Array.from(new Set(runs.map(run => run.environment))).sort();
+
+  const blocks = environments.map(environment => {
+    const envRuns = runs.filter(run => run.environment === environment);
+    if (envRuns.length < 2) {
+      return `<h3>${escapeHtml(environment)}</h3><p>Only one run archived.</p>`;
+    }
+
+    const latest = envRuns[envRuns.length - 1];
+    const { newlyFailing, newlyFixed } = findStatusChanges(envRuns);
+    const list = (scenarios: ScenarioResult[]): string =>
+      scenarios.length > 0
+        ? `<ul>${scenarios
+            .map(
+              scenario =>
+                `<li>${escapeHtml(scenario.name)} <small>${escapeHtml(scenario.id)}</small></li>`
+            )
+            .join('')}</ul>`
+        : '<p>None</p>';
+
+    return (
+      `<h3>${escapeHtml(environment)} <small>${formatTimestamp(latest.timestamp)}, ` +
+      `compared with each scenario's previous result</small></h3>` +
+      `<h4 class="bad">Newly failing (${newlyFailing.length})</h4>${list(newlyFailing)}` +
+      `<h4 class="good">Newly fixed (${newlyFixed.length})</h4>${list(newlyFixed)}`
+    );
+  });
+
+  return `<section><h2>Newly failing and newly fixed</h2>${blocks.join('')}</section>`;
+}
+
+/**
+ * Renders the slowest scenarios by average duration across the runs
+ * @param runs - Run summaries, oldest first
+ * @returns HTML section
+ */
+function renderSlowestSection(runs: RunSummary[]): string {
+  const durations = new Map<string, { scenario: ScenarioResult; total: number; count: number }>();
+  for (const scenario of runs.flatMap(run => run.scenarios)) {
+    if (scenario.status === 'skipped') {
+      continue;
+    }
+    const entry = durations.get(scenario.id) ?? { scenario, total: 0, count: 0 };
+    entry.total += scenario.duration;
+    entry.count++;
+    durations.set(scenario.id, entry);
+  }
+
+  const rows = Array.from(durations.values())
+    .map(entry => ({ ...entry, average: entry.total / entry.count }))
+    .sort((a, b) => b.average - a.average)
+    .slice(0, SLOWEST_SCENARIO_COUNT)
+    .map(
+      ({ scenario, average, count }) =>
+        `<tr><td>${escapeHtml(scenario.name)}<br><small>${escapeHtml(scenario.id)}</small></td>` +
+        `<td>${formatDuration(Math.round(average))}</td><td>${count}</td></tr>`
+    )
+    .join('');
+
+  return (
+    '<section><h2>Slowest scenarios</h2><table><thead><tr><th>Scenario</th>' +
+    `<th>Average duration</th><th>Runs</th></tr></thead><tbody>${rows}</tbody></table></section>`
+  );
+}
+
+/**
+ * Renders the duration trend of each feature
+ * @param runs - Run summaries, oldest first
+ * @returns HTML section
+ */
+function renderFeatureSection(runs: RunSummary[]): string {
+  const features = Array.from(
+    new Set(runs.flatMap(run => run.scenarios.map(scenario => scenario.feature)))
+  ).sort();
+
+  const rows = features
+    .map(feature => {
+      const points = runs
+        .map(run => ({
+          run,
+          scenarios: run.scenarios.filter(scenario => scenario.feature === feature),
+        }))
+        .filter(({ scenarios }) => scenarios.length > 0)
+        .map(({ run, scenarios }) => {
+          const duration = scenarios.reduce((sum, scenario) => sum + scenario.duration, 0);
+          return {
+            value: duration,
+            label: `${formatTimestamp(run.timestamp)} ${run.environment}: ${formatDuration(duration)}`,
+          };
+        });
+
+      const first = points[0].value;
+      const latest = points[points.length - 1].value;
+      const change = first > 0 ? ((latest - first) / first) * 100 : 0;
+      return (
+        `<tr><td>${escapeHtml(feature)}</td><td>${renderLineChart(points, { width: 160, height: 32 })}</td>` +
+        `<td>${formatDuration(latest)}</td>` +
+        `<td class="${change > 10 ? 'bad' : ''}">${change >= 0 ? '+' : ''}${change.toFixed(0)}%</td></tr>`
+      );
+    })
+    .join('');
+
+  return (
+    '<section><h2>Duration trend per feature</h2><table><thead><tr><th>Feature</th><th>Trend</th>' +
+    `<th>Latest</th><th>Change since first run</th></tr></thead><tbody>${rows}</tbody></table></section>`
+  );
+}
+
+/** Inline stylesheet of the dashboard */
+const STYLES = `
+body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; margin: 24px; color: #222; }
+h1 { margin-bottom: 4px; }
+section { margin: 28px 0; }
+table { border-collapse: collapse; margin-top: 8px; }
+th, td { border-bottom: 1px solid #ddd; padding: 4px 10px; text-align: left; vertical-align: middle; }
+th { background: #f4f4f4; }
+small { color: #777; }
+.good { color: #1a7f37; }
+.bad { color: #cf222e; }
+tr.good, tr.bad { color: inherit; }
+tr.bad td:nth-child(5) { color: #cf222e; font-weight: bold; }
+svg.chart { background: #fafafa; border: 1px solid #eee; }
+svg.chart polyline { fill: none; stroke: #0969da; stroke-width: 2; }
+svg.chart circle { fill: #0969da; }
+`;
+
+/**
+ * Renders the trend dashboard
+ * @param runs - Run summaries, oldest first (at least one)
+ * @returns Self-contained HTML document
+ */
+export function renderTrendReport(runs: RunSummary[]): string {
+  const latest = runs[runs.length - 1];
+  const generated = new Date().toISOString();
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    '<title>Test run trends</title>',
+    `<style>${STYLES}</style></head><body>`,
+    '<h1>Test run trends</h1>',
+    `<p><small>${runs.length} run(s) from ${formatTimestamp(runs[0].timestamp)} to ` +
+      `${formatTimestamp(latest.timestamp)}, generated ${formatTimestamp(generated)}</small></p>`,
+    renderPassRateSection(runs),
+    renderEnvironmentSection(runs),
+    renderChangesSection(runs),
+    renderSlowestSection(runs),
+    renderFeatureSection(runs),
+    '</body></html>',
+  ].join('\n');
+}
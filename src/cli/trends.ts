@@ -0,0 +1,187 @@
+/**
+ * Run Trends CLI
+ *
+ * Command line tool archiving the Cucumber JSON report of each run
+ * (test-results/runs/<timestamp>-<env>.json) and building an offline HTML
+ * trend dashboard from the most recent archived runs. The cucumber.cjs
+ * profiles archive every run automatically (see runArchiveFormatter); the
+ * archive command covers reports of other runs.
+ *
+ * Usage:
+ *   npm run trends -- archive [options]   Archive the Cucumber JSON report of the last run
+ *   npm run trends -- build [options]     Build the HTML trend dashboard
+ *
+ * Options:
+ *   --report=<file>   Cucumber JSON report to archive (default test-results/cucumber-report.json)
+ *   --env=<ENV>       Environment of the archived run (default APP_ENV)
+ *   --runs=<n>        Most recent runs included in the dashboard (default 20)
+ *   --out=<file>      Dashboard file (default test-results/trend-report.html)
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { renderTrendReport, summarizeRun, type ArchivedRun } from './trendReport';
+import { PathUtils } from '../utils/paths';
+
+/**
+ * Reads a --name=value option
+ * @param args - Command line arguments
+ * @param name - Option name
+ * @returns Option value, or undefined if absent
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.substring(prefix.length);
+}
+
+/**
+ * Writes a run to the archive directory
+ * @param run - Run to archive
+ * @returns Path of the archive file
+ */
+export function archiveRun(run: ArchivedRun): string {
+  const fileName = `${run.timestamp.replace(/[:.]/g, '-')}-${run.environment}.json`;
+  const archivePath = path.join(PathUtils.getRunsPath(), fileName);
+  PathUtils.ensureDirectoryExists(PathUtils.getRunsPath());
+  fs.writeFileSync(archivePath, JSON.stringify(run));
+  return archivePath;
+}
+
+/**
+ * Archives the Cucumber JSON report of the last run
+ * @param args - Command line arguments
+ * @returns True if the report was archived
+ */
+function archiveCommand(args: string[]): boolean {
+  const reportPath = path.resolve(
+    PathUtils.getProjectRoot(),
+    getOption(args, 'report') ?? 'test-results/cucumber-report.json'
+  );
+  if (!fs.existsSync(reportPath)) {
+    console.log(`✗ No Cucumber JSON report at ${reportPath}`);
+    return false;
+  }
+
+  const run: ArchivedRun = {
+    environment: getOption(args, 'env') ?? process.env.APP_ENV ?? 'unknown',
+    timestamp: fs.statSync(reportPath).mtime.toISOString(),
+    features: JSON.parse(fs.readFileSync(reportPath, 'utf-8')),
+  };
+  const archivePath = archiveRun(run);
+
+  const summary = summarizeRun(run);
+  console.log(
+    `✓ Archived ${summary.scenarios.length} scenario(s) of ${run.environment} ` +
+      `(${summary.passed} passed, ${summary.failed} failed) to ${archivePath}`
+  );
+  return true;
+}
+
+/**
+ * Reads the most recent archived runs
+ * Unreadable archives are skipped.
+ * @param count - Number of runs to read
+ * @returns Archived runs, oldest first
+ */
+function readArchivedRuns(count: number): ArchivedRun[] {
+  const runsPath = PathUtils.getRunsPath();
+  if (!fs.existsSync(runsPath)) {
+    return [];
+  }
+
+  const runs = fs
+    .readdirSync(runsPath)
+    .filter(file => file.endsWith('.json'))
+    .flatMap(file => {
+      try {
+        return [JSON.parse(fs.readFileSync(path.join(runsPath, file), 'utf-8')) as ArchivedRun];
+      } catch {
+        console.log(`✗ Skipping unreadable archive ${file}`);
+        return [];
+      }
+    });
+
+  return runs.sort((a, b) => a.timestamp.localeCompare(b.timestamp)).slice(-count);
+}
+
+/**
+ * Builds the HTML trend dashboard
+ * @param args - Command line arguments
+ * @returns True if the dashboard was built
+ * @throws Error if --runs is not a positive number
+ */
+function buildCommand(args: string[]): boolean {
+  const rawCount = getOption(args, 'runs') ?? '20';
+  const count = Number(rawCount);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid --runs: ${rawCount}`);
+  }
+
+  const runs = readArchivedRuns(count);
+  if (runs.length === 0) {
+    console.log(`No archived runs in ${PathUtils.getRunsPath()}; run: npm run trends -- archive`);
+    return false;
+  }
+
+  const outPath = path.resolve(
+    PathUtils.getProjectRoot(),
+    getOption(args, 'out') ?? 'test-results/trend-report.html'
+  );
+  PathUtils.ensureDirectoryExists(path.dirname(outPath));
+  fs.writeFileSync(outPath, renderTrendReport(runs.map(summarizeRun)));
+
+  console.log(`✓ Trend report of ${runs.length} run(s) written to ${outPath}`);
+  return true;
+}
+
+/**
+ * Prints usage information
+ */
+function printUsage(): void {
+  console.log(
+    [
+      'Usage: npm run trends -- <command> [options]',
+      '',
+      'Commands:',
+      '  archive               Archive the Cucumber JSON report of the last run',
+      '  build                 Build the HTML trend dashboard',
+      '',
+      'Options:',
+      '  --report=<file>       Report to archive (default test-results/cucumber-report.json)',
+      '  --env=<ENV>           Environment of the archived run (default APP_ENV)',
+      '  --runs=<n>            Most recent runs included in the dashboard (default 20)',
+      '  --out=<file>          Dashboard file (default test-results/trend-report.html)',
+    ].join('\n')
+  );
+}
+
+/**
+ * CLI entry point
+ * @param argv - Command line arguments without the node and script paths
+ * @returns Process exit code
+ */
+export function main(argv: string[]): number {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case 'archive':
+        return archiveCommand(args) ? 0 : 1;
+      case 'build':
+        return buildCommand(args) ? 0 : 1;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  printUsage();
+  return 1;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -8,7 +8,7 @@
  * Key Features:
  * - Navigation and page lifecycle management
  * - Element interaction methods with logging
- * - Comprehensive waiting strategies
+ * - Comprehensive waiting strategies (defaults from the environment timeouts)
  * - Built-in assertion helpers
  * - Screenshot capture capabilities
  * - Keyboard and mouse interaction support
@@ -20,6 +20,7 @@
 
 import { Page, Locator, expect } from '@playwright/test';
 import { logger } from '../../utils/logger';
+import { getEnvironmentTimeouts, type EnvironmentTimeouts } from '../support/env';
 
 /**
  * Base class for all page objects in the framework
@@ -28,6 +29,8 @@ import { logger } from '../../utils/logger';
 export class BasePage {
   /** Playwright page instance for browser interactions */
   protected page: Page;
+  /** Environment timeouts used as wait and assertion defaults */
+  protected timeouts: EnvironmentTimeouts;
 
   /**
    * Creates a new BasePage instance
@@ -35,6 +38,7 @@ export class BasePage {
    */
   constructor(page: Page) {
     this.page = page;
+    this.timeouts = getEnvironmentTimeouts();
   }
 
   // ==================== Navigation Methods ====================
@@ -142,7 +146,7 @@ export class BasePage {
    * @param selector - CSS selector for the element
    * @param timeout - Maximum wait time in milliseconds
    */
-  async waitForVisible(selector: string, timeout = 30000): Promise<void> {
+  async waitForVisible(selector: string, timeout = this.timeouts.wait): Promise<void> {
     logger.debug(`Waiting for element to be visible: ${selector}`);
     await this.page.locator(selector).waitFor({ state: 'visible', timeout });
   }
@@ -152,7 +156,7 @@ export class BasePage {
    * @param selector - CSS selector for the element
    * @param timeout - Maximum wait time in milliseconds
    */
-  async waitForHidden(selector: string, timeout = 30000): Promise<void> {
+  async waitForHidden(selector: string, timeout = this.timeouts.wait): Promise<void> {
     logger.debug(`Waiting for element to be hidden: ${selector}`);
     await this.page.locator(selector).waitFor({ state: 'hidden', timeout });
   }
@@ -162,7 +166,7 @@ export class BasePage {
    * @param selector - CSS selector for the element
    * @param timeout - Maximum wait time in milliseconds
    */
-  async waitForEnabled(selector: string, timeout = 30000): Promise<void> {
+  async waitForEnabled(selector: string, timeout = this.timeouts.wait): Promise<void> {
     logger.debug(`Waiting for element to be enabled: ${selector}`);
     await this.page.locator(selector).waitFor({ state: 'attached', timeout });
     await expect(this.page.locator(selector)).toBeEnabled({ timeout });
@@ -174,7 +178,7 @@ export class BasePage {
    * @param text - Expected text content
    * @param timeout - Maximum wait time in milliseconds
    */
-  async waitForText(selector: string, text: string, timeout = 30000): Promise<void> {
+  async waitForText(selector: string, text: string, timeout = this.timeouts.wait): Promise<void> {
     logger.debug(`Waiting for element ${selector} to contain text: ${text}`);
     await expect(this.page.locator(selector)).toContainText(text, { timeout });
   }
@@ -183,7 +187,7 @@ export class BasePage {
    * Waits for network activity to become idle
    * @param timeout - Maximum wait time in milliseconds
    */
-  async waitForNetworkIdle(timeout = 30000): Promise<void> {
+  async waitForNetworkIdle(timeout = this.timeouts.navigation): Promise<void> {
     logger.debug('Waiting for network idle');
     await this.page.waitForLoadState('networkidle', { timeout });
   }
@@ -193,7 +197,7 @@ export class BasePage {
    * @param url - Expected URL string or regex pattern
    * @param timeout - Maximum wait time in milliseconds
    */
-  async waitForUrl(url: string | RegExp, timeout = 30000): Promise<void> {
+  async waitForUrl(url: string | RegExp, timeout = this.timeouts.navigation): Promise<void> {
     logger.debug(`Waiting for URL: ${url}`);
     await this.page.waitForURL(url, { timeout });
   }
@@ -305,7 +309,7 @@ export class BasePage {
    * @param selector - CSS selector for the element
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertElementVisible(selector: string, timeout = 10000): Promise<void> {
+  async assertElementVisible(selector: string, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page.locator(selector)).toBeVisible({ timeout });
   }
 
@@ -314,7 +318,7 @@ export class BasePage {
    * @param selector - CSS selector for the element
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertElementHidden(selector: string, timeout = 10000): Promise<void> {
+  async assertElementHidden(selector: string, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page.locator(selector)).toBeHidden({ timeout });
   }
 
@@ -323,7 +327,7 @@ export class BasePage {
    * @param selector - CSS selector for the element
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertElementEnabled(selector: string, timeout = 10000): Promise<void> {
+  async assertElementEnabled(selector: string, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page.locator(selector)).toBeEnabled({ timeout });
   }
 
@@ -332,7 +336,7 @@ export class BasePage {
    * @param selector - CSS selector for the element
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertElementDisabled(selector: string, timeout = 10000): Promise<void> {
+  async assertElementDisabled(selector: string, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page.locator(selector)).toBeDisabled({ timeout });
   }
 
@@ -342,7 +346,7 @@ export class BasePage {
    * @param expectedText - Expected text content
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertText(selector: string, expectedText: string, timeout = 10000): Promise<void> {
+  async assertText(selector: string, expectedText: string, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page.locator(selector)).toHaveText(expectedText, { timeout });
   }
 
@@ -352,7 +356,7 @@ export class BasePage {
    * @param expectedText - Expected text to be contained
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertTextContains(selector: string, expectedText: string, timeout = 10000): Promise<void> {
+  async assertTextContains(selector: string, expectedText: string, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page.locator(selector)).toContainText(expectedText, { timeout });
   }
 
@@ -362,7 +366,7 @@ export class BasePage {
    * @param expectedValue - Expected input value
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertValue(selector: string, expectedValue: string, timeout = 10000): Promise<void> {
+  async assertValue(selector: string, expectedValue: string, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page.locator(selector)).toHaveValue(expectedValue, { timeout });
   }
 
@@ -371,7 +375,7 @@ export class BasePage {
    * @param expectedUrl - Expected URL string or regex pattern
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertUrl(expectedUrl: string | RegExp, timeout = 10000): Promise<void> {
+  async assertUrl(expectedUrl: string | RegExp, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page).toHaveURL(expectedUrl, { timeout });
   }
 
@@ -380,7 +384,7 @@ export class BasePage {
    * @param expectedTitle - Expected title string or regex pattern
    * @param timeout - Maximum wait time in milliseconds
    */
-  async assertTitle(expectedTitle: string | RegExp, timeout = 10000): Promise<void> {
+  async assertTitle(expectedTitle: string | RegExp, timeout = this.timeouts.assertion): Promise<void> {
     await expect(this.page).toHaveTitle(expectedTitle, { timeout });
   }
 
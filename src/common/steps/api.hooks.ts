@@ -0,0 +1,22 @@
+/**
+ * API Scenario Hooks
+ *
+ * Gives every @api scenario an initialized API client of its application
+ * (`world.apiClient`) and disposes the shared clients once the run ends.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { registerScenarioHook } from '../support/scenarioHooks';
+import { ApiClientFactory } from '../../api/ApiClientFactory';
+
+registerScenarioHook({
+  name: 'api-client',
+  tags: '@api',
+  order: 10,
+  before: async world => {
+    await world.initializeApiClient();
+  },
+  teardown: () => ApiClientFactory.disposeAllClients(),
+});
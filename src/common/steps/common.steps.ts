@@ -7,6 +7,8 @@
  * 
  * Features:
  * - Navigation steps for different pages
+ * - Device and viewport emulation
+ * - Client certificate switching (mTLS)
  * - Element interaction (click, type, select)
  * - Form handling and input validation
  * - Wait conditions and assertions
@@ -20,6 +22,7 @@
 import { Given, When, Then } from '@cucumber/cucumber';
 import { expect } from '@playwright/test';
 import { CustomWorld } from './hooks';
+import { resolveDevice, parseViewport } from '../support/emulation';
 import { logger } from '../../utils/logger';
 
 // ==================== Navigation Steps ====================
@@ -30,7 +33,7 @@ import { logger } from '../../utils/logger';
 Given('I navigate to {string}', async function (this: CustomWorld, url: string) {
   await this.initializeBrowser();
   
-  const fullUrl = url.startsWith('http') ? url : `${this.config.app.baseUrl}${url}`;
+  const fullUrl = url.startsWith('http') ? url : `${this.app.baseUrl}${url}`;
   logger.info(`Navigating to: ${fullUrl}`);
   
   await this.page!.goto(fullUrl, { waitUntil: 'networkidle' });
@@ -54,12 +57,46 @@ Given('I am on the {string} page', async function (this: CustomWorld, pageName:
   };
   
   const path = pageUrls[pageName.toLowerCase()] || `/${pageName.toLowerCase()}`;
-  const fullUrl = `${this.config.app.baseUrl}${path}`;
+  const fullUrl = `${this.app.baseUrl}${path}`;
   
   logger.info(`Navigating to ${pageName} page: ${fullUrl}`);
   await this.page!.goto(fullUrl, { waitUntil: 'networkidle' });
 });
 
+// ==================== Emulation Steps ====================
+
+/**
+ * Emulates a Playwright device (user agent, viewport, touch, device scale factor)
+ * Best used as the first step; use a Scenario Outline to iterate a device matrix
+ */
+Given('I am using a(n) {string} device', async function (this: CustomWorld, deviceName: string) {
+  await this.emulate(resolveDevice(deviceName));
+});
+
+/**
+ * Sets the viewport size, e.g. "375x667"
+ */
+Given('the viewport size is {string}', async function (this: CustomWorld, viewport: string) {
+  await this.emulate(parseViewport(viewport));
+});
+
+// ==================== Client Certificate Steps ====================
+
+/**
+ * Presents another configured client certificate ("client" or a certs.additional name)
+ * for its origin, e.g. an expired or revoked certificate to test rejection
+ */
+Given('I use the {string} client certificate', async function (this: CustomWorld, name: string) {
+  await this.useClientCertificate(name);
+});
+
+/**
+ * Presents no client certificate at all
+ */
+Given('I use no client certificate', async function (this: CustomWorld) {
+  await this.useClientCertificate(null);
+});
+
 // ==================== Element Interaction Steps ====================
 
 /**
@@ -233,7 +270,7 @@ Then('the page title should be {string}', async function (this: CustomWorld, exp
  * Verifies the current URL
  */
 Then('the current URL should be {string}', async function (this: CustomWorld, expectedUrl: string) {
-  const fullUrl = expectedUrl.startsWith('http') ? expectedUrl : `${this.config.app.baseUrl}${expectedUrl}`;
+  const fullUrl = expectedUrl.startsWith('http') ? expectedUrl : `${this.app.baseUrl}${expectedUrl}`;
   logger.info(`Verifying current URL: ${fullUrl}`);
   await expect(this.page!).toHaveURL(fullUrl);
 });
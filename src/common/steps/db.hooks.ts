@@ -0,0 +1,28 @@
+/**
+ * Database Scenario Hooks
+ *
+ * Runs every @db/@database scenario in a transaction (`world.dbTransaction`)
+ * that is rolled back after the scenario, passed or failed, so scenarios
+ * neither see nor leave each other's data. Scenarios tagged @readonly run
+ * without a transaction.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { registerScenarioHook } from '../support/scenarioHooks';
+import { beginScenarioTransaction } from '../support/dbTransactions';
+
+registerScenarioHook({
+  name: 'db-transaction',
+  tags: '(@db or @database) and not @readonly',
+  order: 20,
+  before: async world => {
+    world.dbTransaction = await beginScenarioTransaction();
+  },
+  after: async world => {
+    const transaction = world.dbTransaction;
+    world.dbTransaction = null;
+    await transaction?.rollback();
+  },
+});
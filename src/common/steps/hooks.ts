@@ -7,8 +7,19 @@
  * 
  * Key Features:
  * - Custom World class extending Cucumber's World with browser capabilities
- * - Global browser instance management for performance optimization
+ * - Shared browser per engine (@chromium/@firefox/@webkit tags, BROWSER), launched lazily
+ * - No browser for @api/@db/@nobrowser scenarios unless a step initializes one
+ * - Tag-bound hooks contributed by feature modules (scenario hook registry), timed and reported
+ * - Scenario outcomes appended to the local result history for flakiness tracking
  * - Automatic screenshot capture on test failures
+ * - Failure debug bundle (DOM, accessibility tree, console, network, storage keys, logs)
+ * - Per-scenario Playwright traces kept on failure (TRACE=on|off|retain-on-failure)
+ * - Per-scenario videos kept on failure (video.mode, VIDEO=on|off|retain-on-failure)
+ * - Optional HAR recording (har section) and a network summary attached on failure
+ * - Role logins reused across scenarios through a storage state cache
+ * - Client certificate switching for mutual TLS rejection tests
+ * - Unexpected browser console and page errors fail (or warn) the scenario
+ * - Step-registered cleanups (world.onCleanup) run last-in first-out after every scenario
  * - Environment validation and directory setup
  * - Test context isolation between scenarios
  * - Performance tracking and debug information collection
@@ -18,12 +29,49 @@
  * @version 1.0.0
  */
 
-import { Before, After, BeforeAll, AfterAll, setWorldConstructor, World } from '@cucumber/cucumber';
-import { chromium, Browser, BrowserContext, Page } from '@playwright/test';
+import * as fs from 'fs';
+import {
+  Before,
+  After,
+  BeforeAll,
+  AfterAll,
+  setWorldConstructor,
+  setDefaultTimeout,
+  World,
+} from '@cucumber/cucumber';
+import { Browser, BrowserContext, BrowserContextOptions, Page } from '@playwright/test';
 import { TestContextManager, TestContext, setCurrentContext } from '../support/testContext';
-import { validateCurrentEnvironment } from '../support/env';
-import { logger } from '../../utils/logger';
+import {
+  validateCurrentEnvironment,
+  getEnvironment,
+  getEnvironmentTimeouts,
+  getEnvironmentVideoSettings,
+} from '../support/env';
+import { getScenarioSkipReason } from '../support/scenarioGate';
+import { BrowserRegistry, getEngineFromTags, isBrowserlessScenario } from '../support/browsers';
+import { getEmulationFromTags, type EmulationSettings } from '../support/emulation';
+import { getTraceMode, shouldKeepTrace, getTracePath } from '../support/tracing';
+import { collectDebugBundle } from '../support/debugBundle';
+import { formatBrowserErrors, getBrowserErrorFailure } from '../support/browserErrors';
+import { AuthSessionCache } from '../support/auth';
+import { ScenarioHookRegistry, formatHookTimings } from '../support/scenarioHooks';
+import {
+  beginScenarioAttempt,
+  flushScenarioResults,
+  recordScenarioResult,
+} from '../support/flakyHistory';
+import {
+  getBrowserClientCertificates,
+  getNamedCertificate,
+  replaceCertificateForOrigin,
+  resolveClientCertificate,
+} from '../support/certificates';
+import type { AppConfig, BrowserEngine, RecordingMode } from '../../../config/schema';
+import { logger, clearRecentLogLines } from '../../utils/logger';
 import { PathUtils } from '../../utils/paths';
+import { ApiClientFactory } from '../../api/ApiClientFactory';
+import type { BaseApiClient } from '../../api/BaseApiClient';
+import type { ScenarioTransaction } from '../support/dbTransactions';
 
 /**
  * Custom World class that extends Cucumber's World with browser capabilities
@@ -36,6 +84,12 @@ class CustomWorld extends World {
   public testContext: TestContext;
   /** Singleton context manager for resource management */
   public contextManager: TestContextManager;
+  /** Name of the running scenario, used as trace title */
+  public scenarioName = '';
+  /** API client of the active application, set by initializeApiClient */
+  public apiClient: BaseApiClient | null = null;
+  /** Transaction of @db scenarios, rolled back after the scenario (see db.hooks.ts) */
+  public dbTransaction: ScenarioTransaction | null = null;
 
   /**
    * Creates a new CustomWorld instance for a test scenario
@@ -85,27 +139,138 @@ class CustomWorld extends World {
     return this.testContext.config;
   }
 
+  /**
+   * Gets the application selected for this scenario via its @app:<name> tag
+   * @returns Application configuration (the environment's default app when untagged)
+   */
+  get app(): AppConfig {
+    return getEnvironment().getAppConfig();
+  }
+
   // ==================== Helper Methods ====================
 
   /**
-   * Initializes a new browser instance for this scenario
-   * Creates browser with appropriate settings for the environment
+   * Initializes the browser context for this scenario
+   * Uses the shared browser of the requested engine, launching it on first use, and starts
+   * recording a Playwright trace unless TRACE=off. Does nothing if a browser context exists,
+   * so steps of browserless (@api/@db/@nobrowser) scenarios can call it to get a page on demand.
+   * @param engine - Browser engine, defaults to the run's default engine
+   * @param contextOptions - Browser context overrides (e.g. device emulation)
    */
-  async initializeBrowser(): Promise<void> {
+  async initializeBrowser(engine?: BrowserEngine, contextOptions?: BrowserContextOptions): Promise<void> {
     if (!this.browser) {
-      const browser = await chromium.launch({
-        headless: process.env.CI === 'true' || process.env.HEADLESS === 'true',
-        slowMo: process.env.SLOW_MO ? parseInt(process.env.SLOW_MO) : 0,
-        args: [
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-        ],
-      });
-      
-      await this.contextManager.initializeBrowser(this.contextId, browser);
+      const browser = await BrowserRegistry.getInstance().getBrowser(engine);
+      await this.contextManager.initializeBrowser(this.contextId, browser, contextOptions);
+
+      if (getTraceMode() !== 'off') {
+        await this.contextManager.startTracing(this.contextId, this.scenarioName);
+      }
+    }
+  }
+
+  /**
+   * Initializes the API client of the active application
+   * Clients are shared per base URL across scenarios and disposed at the end of the run.
+   * @returns API client
+   */
+  async initializeApiClient(): Promise<BaseApiClient> {
+    if (!this.apiClient) {
+      this.apiClient = await ApiClientFactory.createClient(
+        this.config,
+        getEnvironment().getActiveAppName()
+      );
     }
+    return this.apiClient;
+  }
+
+  /**
+   * Emulates a device or viewport for the rest of the scenario
+   * Rebuilds the browser context when one already exists (cookies and storage are lost)
+   * @param emulation - Emulation settings from a device descriptor or viewport
+   */
+  async emulate(emulation: EmulationSettings): Promise<void> {
+    logger.info(`Emulating: ${emulation.description}`);
+    if (this.browser) {
+      await this.contextManager.recreateBrowserContext(this.contextId, emulation.options);
+    } else {
+      await this.initializeBrowser(undefined, emulation.options);
+    }
+    this.setTestData('emulation', emulation.description);
+  }
+
+  /**
+   * Switches the client certificate presented for mutual TLS
+   * Rebuilds the browser context (cookies and storage are lost); the current URL is reopened.
+   * @param name - certs.client ("client") or a certs.additional entry; null presents no certificate
+   */
+  async useClientCertificate(name: string | null): Promise<void> {
+    const current =
+      this.testContext.contextOptions.clientCertificates ?? getBrowserClientCertificates(this.config.certs);
+    let clientCertificates: typeof current = [];
+    if (name) {
+      const cert = resolveClientCertificate(getNamedCertificate(this.config.certs, name));
+      clientCertificates = replaceCertificateForOrigin(current, cert.origin, cert);
+      logger.info(`Using client certificate ${name} for ${cert.origin}`);
+    } else {
+      logger.info('Using no client certificate');
+    }
+
+    if (this.browser) {
+      await this.contextManager.recreateBrowserContext(this.contextId, { clientCertificates });
+    } else {
+      await this.initializeBrowser(undefined, { clientCertificates });
+    }
+    this.setTestData('clientCertificate', name ?? 'none');
+  }
+
+  /**
+   * Starts the browser context authenticated as a role of the active application
+   * Logs in once and reuses the saved session (storage state) while it is fresh.
+   * A session the application sends back to the login page is dropped and the role
+   * logs in again. Rebuilds the browser context, so use it before other browser steps.
+   * @param roleName - Role name as configured under `apps.<app>.roles`
+   */
+  async loginAs(roleName: string): Promise<void> {
+    await this.initializeBrowser();
+    const sessions = AuthSessionCache.getInstance();
+    const contextOptions = this.testContext.contextOptions;
+
+    for (let attempt = 1; ; attempt++) {
+      const session = await sessions.getSession(this.browser!, roleName, contextOptions);
+
+      // Open the landing page once instead of reopening the previous page first
+      await this.contextManager.recreateBrowserContext(
+        this.contextId,
+        { storageState: session.storageState },
+        false
+      );
+      await this.page!.goto(session.landingUrl);
+
+      if (!sessions.isRejected(session, this.page!.url())) {
+        break;
+      }
+      sessions.forgetSession(roleName, contextOptions);
+      if (attempt === 2) {
+        throw new Error(
+          `Session of role ${roleName} was sent back to the login page right after logging in`
+        );
+      }
+      logger.warn(`Saved session of role ${roleName} was rejected, logging in again`);
+    }
+
+    this.setTestData('role', roleName);
+    this.setTestData('isLoggedIn', true);
+  }
+
+  /**
+   * Registers a cleanup run after the scenario, even when it fails
+   * Cleanups run last registered first, each within `timeouts.cleanup`. A failing cleanup
+   * is logged and attached to the report without failing the scenario.
+   * @param fn - Cleanup function
+   * @param description - What the cleanup does, e.g. "delete order 42"
+   */
+  onCleanup(fn: () => unknown | Promise<unknown>, description: string): void {
+    this.contextManager.addCleanup(this.contextId, fn, description);
   }
 
   /**
@@ -141,12 +306,30 @@ class CustomWorld extends World {
 // Set the custom world constructor for Cucumber
 setWorldConstructor(CustomWorld);
 
-/** Global browser instance shared across scenarios for performance */
-let globalBrowser: Browser | null = null;
+// Step and hook timeout from the environment (scaled by its timeout multiplier)
+setDefaultTimeout(getEnvironmentTimeouts().step);
+
+/** Tag prefix used by features and scenarios to select the application under test */
+const APP_TAG_PREFIX = '@app:';
+
+/**
+ * Extracts the application name from scenario tags
+ * The most specific tag wins, i.e. a scenario tag overrides its feature tag
+ * @param tags - Pickle tags of the scenario
+ * @returns Application name or null if the scenario has no @app:<name> tag
+ */
+function getAppFromTags(tags: ReadonlyArray<{ name: string }>): string | null {
+  const appTags = tags.filter(tag => tag.name.startsWith(APP_TAG_PREFIX));
+  if (appTags.length === 0) {
+    return null;
+  }
+  return appTags[appTags.length - 1].name.substring(APP_TAG_PREFIX.length);
+}
 
 /**
  * BeforeAll hook - runs once before all test scenarios
- * Performs global setup including environment validation and browser launch
+ * Performs global setup including environment validation
+ * Browsers are launched lazily, per engine, by the first scenario that needs them
  */
 BeforeAll(async function () {
   logger.info('='.repeat(80));
@@ -165,23 +348,7 @@ BeforeAll(async function () {
   PathUtils.ensureDirectoryExists(PathUtils.getTestResultsPath());
   PathUtils.ensureDirectoryExists(PathUtils.getSecretsPath());
 
-  // Launch global browser instance for reuse across scenarios
-  try {
-    globalBrowser = await chromium.launch({
-      headless: process.env.CI === 'true' || process.env.HEADLESS === 'true',
-      slowMo: process.env.SLOW_MO ? parseInt(process.env.SLOW_MO) : 0,
-      args: [
-        '--disable-web-security',
-        '--disable-features=VizDisplayCompositor',
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-      ],
-    });
-    logger.info('Global browser launched successfully');
-  } catch (error) {
-    logger.error(`Failed to launch global browser: ${error}`);
-    throw error;
-  }
+  logger.info(`Default browser engine: ${BrowserRegistry.getInstance().getDefaultEngine()}`);
 
   logger.info('Test suite initialization completed');
 });
@@ -190,18 +357,51 @@ BeforeAll(async function () {
  * Before hook - runs before each test scenario
  * Sets up scenario-specific context and initializes browser resources
  */
-Before(async function (this: CustomWorld, scenario) {
+Before(async function (this: CustomWorld, scenario): Promise<'skipped' | void> {
+  // Keep only this scenario's lines for its debug bundle
+  clearRecentLogLines();
+  // Settle the history entry of the previous attempt (retried or final)
+  beginScenarioAttempt(scenario.pickle.id);
   logger.info(`Starting scenario: ${scenario.pickle.name}`);
   logger.info(`Tags: ${scenario.pickle.tags.map(tag => tag.name).join(', ')}`);
 
   // Set scenario-specific context as current
   setCurrentContext(this.contextId);
 
-  // Initialize browser context for this scenario using global browser
-  if (globalBrowser) {
-    await this.contextManager.initializeBrowser(this.contextId, globalBrowser);
+  // Select the application under test for this scenario
+  const appName = getAppFromTags(scenario.pickle.tags);
+  getEnvironment().setActiveApp(appName);
+  logger.info(`Application under test: ${getEnvironment().getActiveAppName()}`);
+
+  // Skip scenarios needing infrastructure or feature flags this environment does not provide
+  const tags = scenario.pickle.tags.map(tag => tag.name);
+  const skipReason = getScenarioSkipReason(tags);
+  if (skipReason) {
+    logger.warn(`Skipping scenario: ${skipReason}`);
+    this.attach(`Skipped: ${skipReason}`, 'text/plain');
+    return 'skipped';
+  }
+
+  this.scenarioName = scenario.pickle.name;
+
+  // Initialize browser context on the shared browser of the requested engine,
+  // emulating the device or viewport requested by @device:/@viewport: tags.
+  // API and database scenarios skip it, so they run without browsers installed.
+  if (isBrowserlessScenario(tags)) {
+    logger.info('Browserless scenario: no browser context created');
+  } else {
+    const engine = getEngineFromTags(tags) || BrowserRegistry.getInstance().getDefaultEngine();
+    const emulation = getEmulationFromTags(tags);
+    logger.info(`Browser engine: ${engine}${emulation ? `, emulating ${emulation.description}` : ''}`);
+    await this.initializeBrowser(engine, emulation?.options);
+    if (emulation) {
+      this.setTestData('emulation', emulation.description);
+    }
   }
 
+  // Run the hooks feature modules registered for this scenario's tags
+  await ScenarioHookRegistry.getInstance().runBefore(this.contextId, this, scenario);
+
   // Set scenario start time for performance tracking
   this.setTestData('scenarioStartTime', Date.now());
 });
@@ -209,48 +409,123 @@ Before(async function (this: CustomWorld, scenario) {
 /**
  * After hook - runs after each test scenario
  * Handles failure screenshots, debug information, and context cleanup
+ * Gets two step timeouts: one for the step cleanups (runCleanups caps them at a step timeout)
+ * and one for the evidence, registered hooks, trace and context cleanup around them.
  */
-After(async function (this: CustomWorld, scenario) {
+After({ timeout: 2 * getEnvironmentTimeouts().step }, async function (this: CustomWorld, scenario) {
   const scenarioEndTime = Date.now();
   const scenarioStartTime = this.getTestData<number>('scenarioStartTime') || scenarioEndTime;
   const duration = scenarioEndTime - scenarioStartTime;
 
+  // Unexpected console and page errors fail the scenario once cleanup is done
+  const { browserErrors } = this.testContext;
+  const browserErrorFailure = getBrowserErrorFailure(
+    browserErrors,
+    this.config.browserErrors,
+    scenario.pickle.tags.map(tag => tag.name)
+  );
+  const failed = scenario.result?.status === 'FAILED' || browserErrorFailure !== null;
+
   logger.info(`Scenario completed: ${scenario.pickle.name} (${duration}ms)`);
+  recordScenarioResult(scenario, this.config.name, duration, browserErrorFailure ?? undefined);
+
+  if (browserErrors.length > 0) {
+    this.attach(formatBrowserErrors(browserErrors, this.config.browserErrors.allow), 'text/plain');
+  }
 
   // Handle test failures with comprehensive debugging
-  if (scenario.result?.status === 'FAILED') {
+  if (failed) {
     logger.warn(`Scenario failed: ${scenario.pickle.name}`);
     
     // Capture failure screenshot
-    try {
-      await this.captureScreenshot('failure');
-      logger.info('Failure screenshot captured');
-    } catch (error) {
-      logger.warn(`Failed to capture screenshot: ${error}`);
+    if (this.page) {
+      try {
+        await this.captureScreenshot('failure');
+        logger.info('Failure screenshot captured');
+      } catch (error) {
+        logger.warn(`Failed to capture screenshot: ${error}`);
+      }
+    }
+
+    // Attach each part of the debug bundle separately
+    const bundle = await collectDebugBundle(this.testContext, {
+      scenario: scenario.pickle.name,
+      duration,
+      environment: this.config.name,
+      emulation: this.getTestData<string>('emulation'),
+    });
+    for (const part of bundle) {
+      this.attach(part.body, { mediaType: part.mediaType, fileName: part.fileName });
+    }
+  }
+
+  // Run step cleanups after the failure evidence is captured; they never fail the scenario
+  const cleanupFailures = await this.contextManager.runCleanups(this.contextId);
+  if (cleanupFailures.length > 0) {
+    this.attach(
+      [`Cleanup failures: ${cleanupFailures.length}`, '', ...cleanupFailures].join('\n'),
+      'text/plain'
+    );
+  }
+
+  // Run the registered hooks' after phases; their failures are reported, not thrown
+  const hookTimings = await ScenarioHookRegistry.getInstance().runAfter(this.contextId, this, scenario);
+  if (hookTimings.length > 0) {
+    this.attach(formatHookTimings(hookTimings), 'text/plain');
+  }
+
+  // Save the trace of failed scenarios (or every scenario with TRACE=on), discard the rest
+  try {
+    // One trace per browser context the scenario used, oldest first
+    const tracePaths = await this.contextManager.finishTracing(
+      this.contextId,
+      shouldKeepTrace(failed) ? getTracePath(scenario.pickle.name) : undefined
+    );
+    for (const tracePath of tracePaths) {
+      this.attach(fs.readFileSync(tracePath), 'application/zip');
+      logger.info(`Open the trace with: npx playwright show-trace ${tracePath}`);
     }
+  } catch (error) {
+    logger.warn(`Failed to save trace: ${error}`);
+  }
 
-    // Attach comprehensive debug information
+  // Clean up scenario-specific resources, keeping the recordings their modes ask for
+  const recordings = await this.contextManager.cleanupContext(this.contextId, {
+    videos: shouldKeepRecording(getEnvironmentVideoSettings().mode, failed),
+    har: shouldKeepRecording(this.config.har.mode, failed),
+  });
+  const attachments = [
+    ...recordings.videos.map(file => ({ file, mediaType: 'video/webm' })),
+    ...recordings.har.map(file => ({
+      file,
+      mediaType: file.endsWith('.zip') ? 'application/zip' : 'application/json',
+    })),
+  ];
+  for (const { file, mediaType } of attachments) {
     try {
-      const debugInfo = {
-        scenario: scenario.pickle.name,
-        duration: `${duration}ms`,
-        timestamp: new Date().toISOString(),
-        environment: this.config.name,
-        url: this.page?.url() || 'N/A',
-        userAgent: 'N/A'
-      };
-
-      this.attach(JSON.stringify(debugInfo, null, 2), 'application/json');
+      this.attach(fs.readFileSync(file), mediaType);
     } catch (error) {
-      logger.warn(`Failed to attach debug info: ${error}`);
+      logger.warn(`Failed to attach recording ${file}: ${error}`);
     }
   }
-
-  // Clean up scenario-specific resources
-  await this.contextManager.cleanupContext(this.contextId);
   logger.debug(`Cleaned up context: ${this.contextId}`);
+
+  // Report browser errors as the failure unless a step already failed the scenario
+  if (browserErrorFailure && scenario.result?.status !== 'FAILED') {
+    throw new Error(browserErrorFailure);
+  }
 });
 
+/**
+ * Decides whether a scenario recording (video, HAR) is kept
+ * @param mode - Recording mode
+ * @param failed - Whether the scenario failed
+ * @returns True if the recording should be kept
+ */
+function shouldKeepRecording(mode: RecordingMode, failed: boolean): boolean {
+  return mode === 'on' || (mode === 'retain-on-failure' && failed);
+}
+
 /**
  * AfterAll hook - runs once after all test scenarios
  * Performs global cleanup including browser closure and context cleanup
@@ -263,16 +538,14 @@ AfterAll(async function () {
   // Clean up all remaining test contexts
   await TestContextManager.getInstance().cleanupAllContexts();
 
-  // Close global browser instance
-  if (globalBrowser) {
-    try {
-      await globalBrowser.close();
-      globalBrowser = null;
-      logger.info('Global browser closed successfully');
-    } catch (error) {
-      logger.warn(`Failed to close global browser: ${error}`);
-    }
-  }
+  // Write the final result of this worker's last scenario to the history
+  flushScenarioResults();
+
+  // Tear down the registered hooks initialized during the run
+  await ScenarioHookRegistry.getInstance().runTeardown();
+
+  // Close every browser launched during the run
+  await BrowserRegistry.getInstance().closeAll();
 
   logger.info('Test suite cleanup completed');
   logger.info('='.repeat(80));
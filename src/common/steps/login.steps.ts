@@ -2,14 +2,18 @@ import { Given, When, Then } from '@cucumber/cucumber';
 import { expect } from '@playwright/test';
 import { CustomWorld } from './hooks';
 import { LoginPage } from '../pages/LoginPage';
+import { getEnvironmentTimeouts } from '../support/env';
 import { logger } from '../../utils/logger';
 
+// Form steps are bounded by the environment's action timeout (scaled by timeouts.multiplier)
+const actionTimeout = getEnvironmentTimeouts().action;
+
 // Login page navigation
 Given('I am on the login page', async function (this: CustomWorld) {
   await this.initializeBrowser();
   
   const loginPage = new LoginPage(this.page!);
-  await loginPage.goto(this.config.app.baseUrl);
+  await loginPage.goto(this.app.baseUrl);
   
   logger.info('Navigated to login page');
 });
@@ -24,7 +28,7 @@ Given('I navigate to the login page', async function (this: CustomWorld) {
 });
 
 // Login form interactions
-When('I enter username {string}', { timeout: 10000 }, async function (this: CustomWorld, username: string) {
+When('I enter username {string}', { timeout: actionTimeout }, async function (this: CustomWorld, username: string) {
   const currentUrl = this.page!.url();
   
   if (currentUrl.includes('saucedemo.com')) {
@@ -41,7 +45,7 @@ When('I enter username {string}', { timeout: 10000 }, async function (this: Cust
   logger.info(`Entered username: ${username}`);
 });
 
-When('I enter password {string}', { timeout: 10000 }, async function (this: CustomWorld, password: string) {
+When('I enter password {string}', { timeout: actionTimeout }, async function (this: CustomWorld, password: string) {
   const currentUrl = this.page!.url();
   
   if (currentUrl.includes('saucedemo.com')) {
@@ -60,19 +64,19 @@ When('I enter password {string}', { timeout: 10000 }, async function (this: Cust
 
 When('I enter the configured username', async function (this: CustomWorld) {
   const loginPage = new LoginPage(this.page!);
-  await loginPage.enterUsername(this.config.app.username);
+  await loginPage.enterUsername(this.app.username);
   
-  logger.info(`Entered configured username: ${this.config.app.username}`);
+  logger.info(`Entered configured username: ${this.app.username}`);
 });
 
 When('I enter the configured password', async function (this: CustomWorld) {
   const loginPage = new LoginPage(this.page!);
-  await loginPage.enterPassword(this.config.app.password);
+  await loginPage.enterPassword(this.app.password);
   
   logger.info('Entered configured password');
 });
 
-When('I click the login button', { timeout: 10000 }, async function (this: CustomWorld) {
+When('I click the login button', { timeout: actionTimeout }, async function (this: CustomWorld) {
   const currentUrl = this.page!.url();
   
   if (currentUrl.includes('saucedemo.com')) {
@@ -89,7 +93,7 @@ When('I click the login button', { timeout: 10000 }, async function (this: Custo
   logger.info('Clicked login button');
 });
 
-When('I login with username {string} and password {string}', { timeout: 20000 }, async function (this: CustomWorld, username: string, password: string) {
+When('I login with username {string} and password {string}', { timeout: 2 * actionTimeout }, async function (this: CustomWorld, username: string, password: string) {
   // Handle special test values
   const actualUsername = username === 'empty_user' ? '' : username;
   const actualPassword = password === 'empty_password' ? '' : password;
@@ -119,14 +123,14 @@ When('I login with username {string} and password {string}', { timeout: 20000 },
 
 When('I login with the configured credentials', async function (this: CustomWorld) {
   const loginPage = new LoginPage(this.page!);
-  await loginPage.login(this.config.app.username, this.config.app.password);
+  await loginPage.login(this.app.username, this.app.password);
   
-  logger.info(`Attempted login with configured credentials: ${this.config.app.username}`);
+  logger.info(`Attempted login with configured credentials: ${this.app.username}`);
 });
 
 When('I login with valid credentials', async function (this: CustomWorld) {
   const loginPage = new LoginPage(this.page!);
-  await loginPage.login(this.config.app.username, this.config.app.password);
+  await loginPage.login(this.app.username, this.app.password);
   
   logger.info('Attempted login with valid credentials');
 });
@@ -317,7 +321,7 @@ Then('I should be redirected to the dashboard', async function (this: CustomWorl
 });
 
 Then('I should be redirected to {string}', async function (this: CustomWorld, expectedPath: string) {
-  const fullUrl = expectedPath.startsWith('http') ? expectedPath : `${this.config.app.baseUrl}${expectedPath}`;
+  const fullUrl = expectedPath.startsWith('http') ? expectedPath : `${this.app.baseUrl}${expectedPath}`;
   await expect(this.page!).toHaveURL(fullUrl);
   
   logger.info(`Verified redirection to: ${expectedPath}`);
@@ -349,8 +353,8 @@ Given('I am already logged in', async function (this: CustomWorld) {
   await this.initializeBrowser();
   
   const loginPage = new LoginPage(this.page!);
-  await loginPage.goto(this.config.app.baseUrl);
-  await loginPage.login(this.config.app.username, this.config.app.password);
+  await loginPage.goto(this.app.baseUrl);
+  await loginPage.login(this.app.username, this.app.password);
   
   // Verify login was successful
   await loginPage.assertLoggedIn();
@@ -359,10 +363,16 @@ Given('I am already logged in', async function (this: CustomWorld) {
   logger.info('User is already logged in');
 });
 
+Given('I am logged in as {string}', async function (this: CustomWorld, roleName: string) {
+  await this.loginAs(roleName);
+  
+  logger.info(`Logged in as role: ${roleName}`);
+});
+
 Given('I have valid login credentials', async function (this: CustomWorld) {
   // Store credentials for later use in the scenario
-  this.setTestData('validUsername', this.config.app.username);
-  this.setTestData('validPassword', this.config.app.password);
+  this.setTestData('validUsername', this.app.username);
+  this.setTestData('validPassword', this.app.password);
   
   logger.info('Valid login credentials are available');
 });
@@ -373,7 +383,7 @@ When('I perform a complete login process', async function (this: CustomWorld) {
   
   const loginPage = new LoginPage(this.page!);
   await loginPage.goto();
-  await loginPage.login(this.config.app.username, this.config.app.password);
+  await loginPage.login(this.app.username, this.app.password);
   
   logger.info('Completed full login process');
 });
@@ -384,8 +394,8 @@ When('I attempt to login and wait for result', async function (this: CustomWorld
   
   // Wait for either success or error
   await Promise.race([
-    this.page!.waitForURL(/dashboard|home|main/, { timeout: 10000 }),
-    this.page!.waitForSelector('[data-testid="error"], .error, .alert-error', { timeout: 10000 }),
+    this.page!.waitForURL(/dashboard|home|main/, { timeout: actionTimeout }),
+    this.page!.waitForSelector('[data-testid="error"], .error, .alert-error', { timeout: actionTimeout }),
   ]).catch(() => {
     // Timeout is acceptable here as we're just waiting for any result
     logger.debug('Login attempt completed (timeout reached)');
@@ -0,0 +1,28 @@
+/**
+ * Mutual TLS Scenario Hooks
+ *
+ * Validates the client certificate once, before the first @mtls scenario,
+ * so a broken PFX file or passphrase fails those scenarios with setup
+ * instructions instead of TLS handshake errors.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { registerScenarioHook } from '../support/scenarioHooks';
+import {
+  DEFAULT_CERTIFICATE_NAME,
+  getNamedCertificate,
+  resolveClientCertificate,
+} from '../support/certificates';
+import { getEnvironment } from '../support/env';
+
+registerScenarioHook({
+  name: 'mtls-certificate',
+  tags: '@mtls',
+  order: 10,
+  init: () => {
+    const certs = getEnvironment().getConfig().certs;
+    resolveClientCertificate(getNamedCertificate(certs, DEFAULT_CERTIFICATE_NAME));
+  },
+});
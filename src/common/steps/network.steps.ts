@@ -0,0 +1,141 @@
+/**
+ * Network Mocking Step Definitions
+ *
+ * This module contains steps that mock backend responses, block requests and
+ * assert on the requests a scenario's pages have made. Mocks apply to the
+ * whole scenario, including browser contexts recreated by emulation steps.
+ *
+ * Features:
+ * - Fixture responses resolved through DataProvider (test-data/fixtures/)
+ * - Status-only responses and blocked requests
+ * - Request log assertions, including request bodies
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { Given, Then } from '@cucumber/cucumber';
+import { expect } from '@playwright/test';
+import { CustomWorld } from './hooks';
+import {
+  blockRoute,
+  fixtureRoute,
+  matchesRequest,
+  parseRequestSpec,
+  statusRoute,
+  type RecordedRequest,
+} from '../support/mocking';
+import { getEnvironmentTimeouts } from '../support/env';
+import { logger } from '../../utils/logger';
+
+/**
+ * Finds the recorded requests matching a request specification
+ * @param world - Scenario world
+ * @param spec - Request specification, e.g. "POST /api/order"
+ * @returns Matching requests in the order they were made
+ */
+function findRequests(world: CustomWorld, spec: string): RecordedRequest[] {
+  const matcher = parseRequestSpec(spec);
+  return world.testContext.requests.filter(request => matchesRequest(request, matcher));
+}
+
+/**
+ * Checks whether a request body matches the expected body
+ * JSON bodies match when they contain the expected fields, other bodies must be equal.
+ * @param actual - Recorded request body
+ * @param expected - Expected body
+ * @returns True if the body matches
+ */
+function bodyMatches(actual: string | null, expected: string): boolean {
+  if (actual === null) {
+    return false;
+  }
+
+  try {
+    expect(JSON.parse(actual)).toMatchObject(JSON.parse(expected));
+    return true;
+  } catch {
+    return actual.trim() === expected.trim();
+  }
+}
+
+// ==================== Mocking Steps ====================
+
+Given(
+  'the request {string} responds with fixture {string} and status {int}',
+  async function (this: CustomWorld, spec: string, fixture: string, status: number) {
+    await this.contextManager.addMockRoute(
+      this.contextId,
+      await fixtureRoute(spec, fixture, status)
+    );
+  }
+);
+
+Given(
+  'the request {string} responds with fixture {string}',
+  async function (this: CustomWorld, spec: string, fixture: string) {
+    await this.contextManager.addMockRoute(this.contextId, await fixtureRoute(spec, fixture, 200));
+  }
+);
+
+Given(
+  'the request {string} responds with status {int}',
+  async function (this: CustomWorld, spec: string, status: number) {
+    await this.contextManager.addMockRoute(this.contextId, statusRoute(spec, status));
+  }
+);
+
+Given('requests to {string} are blocked', async function (this: CustomWorld, spec: string) {
+  await this.contextManager.addMockRoute(this.contextId, blockRoute(spec));
+});
+
+// ==================== Request Assertions ====================
+
+Then(
+  'the request {string} should have been made',
+  async function (this: CustomWorld, spec: string) {
+    await expect
+      .poll(() => findRequests(this, spec).length, {
+        message: `Expected a request matching ${spec}`,
+        timeout: getEnvironmentTimeouts().assertion,
+      })
+      .toBeGreaterThan(0);
+
+    logger.info(`Verified request was made: ${spec}`);
+  }
+);
+
+Then(
+  'the request {string} should not have been made',
+  async function (this: CustomWorld, spec: string) {
+    const requests = findRequests(this, spec).map(request => `${request.method} ${request.url}`);
+    expect(requests, `Unexpected requests matching ${spec}`).toEqual([]);
+
+    logger.info(`Verified request was not made: ${spec}`);
+  }
+);
+
+Then(
+  'the request {string} should have been made with body:',
+  async function (this: CustomWorld, spec: string, expectedBody: string) {
+    try {
+      await expect
+        .poll(
+          () => findRequests(this, spec).some(request => bodyMatches(request.body, expectedBody)),
+          {
+            timeout: getEnvironmentTimeouts().assertion,
+          }
+        )
+        .toBe(true);
+    } catch {
+      const bodies = findRequests(this, spec).map(request => request.body ?? '(no body)');
+      throw new Error(
+        `No request matching ${spec} was made with the expected body.\n` +
+          `Expected body:\n${expectedBody}\n` +
+          `Recorded bodies (${bodies.length}):\n${bodies.length > 0 ? bodies.join('\n---\n') : '(none)'}`
+      );
+    }
+
+    logger.info(`Verified request was made with the expected body: ${spec}`);
+  }
+);
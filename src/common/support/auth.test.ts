@@ -0,0 +1,220 @@
+/**
+ * Authenticated Session Cache Test Suite
+ *
+ * Validates session reuse within the TTL, the session files shared by
+ * workers, certificate identities and the handling of failed logins and
+ * rejected sessions, using fake Playwright objects so no browser is launched.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Browser, BrowserContextOptions, Frame, Page } from '@playwright/test';
+import { AuthSessionCache, registerLoginHandler, type StoredSession } from './auth';
+import { getClientCertificateOptions } from './certificates';
+import { PathUtils } from '../../utils/paths';
+
+/** Session lifetime configured for the tests, in seconds */
+const TTL_SECONDS = 60;
+
+jest.mock('./env', () => {
+  const roles = Object.fromEntries(
+    ['admin', 'buyer', 'viewer', 'auditor', 'partner', 'support', 'guest'].map(name => [
+      name,
+      { username: name, password: 'secret' },
+    ])
+  );
+  const environment = {
+    getEnvironmentName: () => 'T5',
+    getActiveAppName: () => 'shop',
+    getAppConfig: () => ({ baseUrl: 'https://shop.test', roles }),
+    getConfig: () => ({ auth: { storageStateTtl: 60 }, certs: { additional: {} } }),
+  };
+  return { getEnvironment: () => environment };
+});
+
+jest.mock('./certificates', () => ({ getClientCertificateOptions: jest.fn(() => ({})) }));
+
+jest.mock('../pages/LoginPage', () => ({ LoginPage: jest.fn() }));
+
+/**
+ * Creates a fake browser whose pages navigate like a login form: first the
+ * login page, then the landing page
+ * @returns Fake browser and the options of the contexts it created
+ */
+function createFakeBrowser() {
+  const contexts: BrowserContextOptions[] = [];
+  const browser = {
+    browserType: () => ({ name: () => 'chromium' }),
+    newContext: jest.fn(async (options: BrowserContextOptions) => {
+      contexts.push(options);
+      let url = 'about:blank';
+      const mainFrame = { url: () => url } as Frame;
+      const listeners: Array<(frame: Frame) => void> = [];
+      const page = {
+        url: () => url,
+        mainFrame: () => mainFrame,
+        on: (_event: string, listener: (frame: Frame) => void) => listeners.push(listener),
+        navigate: (target: string) => {
+          url = target;
+          listeners.forEach(listener => listener(mainFrame));
+        },
+      };
+      return {
+        newPage: async () => page,
+        storageState: async () => ({ cookies: [], origins: [] }),
+        close: jest.fn(async () => undefined),
+      };
+    }),
+  };
+  return { browser: browser as unknown as Browser, contexts };
+}
+
+describe('Authenticated Session Cache', () => {
+  const cache = AuthSessionCache.getInstance();
+  const handler = jest.fn(async (page: Page) => {
+    const fakePage = page as Page & { navigate: (url: string) => void };
+    fakePage.navigate('https://shop.test/login');
+    fakePage.navigate('https://shop.test/inventory');
+  });
+  let tempDir: string;
+  let browser: Browser;
+  let contexts: BrowserContextOptions[];
+
+  beforeAll(() => {
+    registerLoginHandler('shop', handler);
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+    jest.spyOn(PathUtils, 'getAuthPath').mockReturnValue(tempDir);
+    ({ browser, contexts } = createFakeBrowser());
+    handler.mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Writes a session file as another worker would
+   * @param roleName - Role name
+   * @param savedAt - Epoch milliseconds of the login
+   */
+  function writeSessionFile(roleName: string, savedAt: number): void {
+    const session: StoredSession = {
+      savedAt,
+      landingUrl: 'https://shop.test/saved',
+      storageState: { cookies: [], origins: [] },
+    };
+    fs.writeFileSync(
+      path.join(tempDir, `t5-shop-${roleName}-nocert.json`),
+      JSON.stringify(session)
+    );
+  }
+
+  describe('getSession', () => {
+    test('should log in once and save the session with its login and landing pages', async () => {
+      const first = await cache.getSession(browser, 'admin');
+      const second = await cache.getSession(browser, 'admin');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+      expect(first).toMatchObject({
+        loginUrl: 'https://shop.test/login',
+        landingUrl: 'https://shop.test/inventory',
+      });
+      expect(fs.readdirSync(tempDir)).toEqual(['t5-shop-admin-nocert.json']);
+    });
+
+    test('should reuse a fresh session file saved by another worker', async () => {
+      writeSessionFile('buyer', Date.now());
+
+      const session = await cache.getSession(browser, 'buyer');
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(session.landingUrl).toBe('https://shop.test/saved');
+    });
+
+    test('should log in again once the session is older than the TTL', async () => {
+      writeSessionFile('viewer', Date.now() - TTL_SECONDS * 1000);
+
+      const session = await cache.getSession(browser, 'viewer');
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(session.landingUrl).toBe('https://shop.test/inventory');
+
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + TTL_SECONDS * 1000);
+      await cache.getSession(browser, 'viewer');
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    test('should forget a failed login so the next request logs in again', async () => {
+      handler.mockRejectedValueOnce(new Error('invalid credentials'));
+
+      await expect(cache.getSession(browser, 'auditor')).rejects.toThrow(
+        'Login as role auditor on shop failed: invalid credentials'
+      );
+      await cache.getSession(browser, 'auditor');
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(fs.readdirSync(tempDir)).toEqual(['t5-shop-auditor-nocert.json']);
+    });
+
+    test('should keep sessions of different client certificates apart', async () => {
+      const preloaded = { origin: 'https://shop.test', pfxPath: '/certs/client.pfx' };
+      jest.mocked(getClientCertificateOptions).mockReturnValue({
+        clientCertificates: [preloaded],
+      });
+      const partner = { origin: 'https://shop.test', pfxPath: '/certs/partner.pfx' };
+
+      await cache.getSession(browser, 'partner');
+      await cache.getSession(browser, 'partner', { clientCertificates: [partner] });
+      await cache.getSession(browser, 'partner', { clientCertificates: [partner] });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(contexts.map(options => options.clientCertificates)).toEqual([[preloaded], [partner]]);
+      const files = fs.readdirSync(tempDir);
+      expect(files).toHaveLength(2);
+      expect(files.every(file => /^t5-shop-partner-[0-9a-f]{12}\.json$/.test(file))).toBe(true);
+    });
+
+    test('should not log in with a restored session', async () => {
+      await cache.getSession(browser, 'guest', { storageState: { cookies: [], origins: [] } });
+
+      expect(contexts[0]).not.toHaveProperty('storageState');
+    });
+  });
+
+  describe('isRejected and forgetSession', () => {
+    test('should detect sessions sent back to the login page and log in again', async () => {
+      const session = await cache.getSession(browser, 'support');
+
+      expect(cache.isRejected(session, 'https://shop.test/inventory')).toBe(false);
+      expect(cache.isRejected(session, 'https://shop.test/login#expired')).toBe(true);
+
+      cache.forgetSession('support');
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+      await cache.getSession(browser, 'support');
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not reject sessions whose login page is the landing page', () => {
+      const session: StoredSession = {
+        savedAt: Date.now(),
+        loginUrl: 'https://shop.test/',
+        landingUrl: 'https://shop.test/',
+        storageState: { cookies: [], origins: [] },
+      };
+
+      expect(cache.isRejected(session, 'https://shop.test/')).toBe(false);
+      expect(cache.isRejected({ ...session, loginUrl: undefined }, 'https://shop.test/')).toBe(
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Authenticated Session Cache Module
+ *
+ * This module logs user roles in once and reuses the authenticated browser
+ * storage state (cookies and local storage) across scenarios, so scenarios
+ * start already logged in instead of going through the login form each time.
+ *
+ * - Roles come from `apps.<app>.roles` in the environment configuration
+ * - Applications register how to log in with `registerLoginHandler`;
+ *   unregistered applications use the generic LoginPage
+ * - Sessions are saved to test-results/auth/ and reused for `auth.storageStateTtl`
+ *   seconds, logging in at most once per worker while a saved session is valid
+ * - Sessions are kept per client certificate identity, and dropped when the
+ *   application sends a restored session back to the login page
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Browser, BrowserContext, BrowserContextOptions, Page } from '@playwright/test';
+import { LoginPage } from '../pages/LoginPage';
+import { getEnvironment } from './env';
+import { adaptToEngine } from './emulation';
+import { getClientCertificateOptions } from './certificates';
+import { logger } from '../../utils/logger';
+import { PathUtils } from '../../utils/paths';
+import type { AppConfig, BrowserEngine, RoleConfig } from '../../../config/schema';
+
+/**
+ * Logs a role in through the application's UI on a fresh page
+ * Must resolve only once the login succeeded and reject otherwise.
+ */
+export type LoginHandler = (page: Page, app: AppConfig, role: RoleConfig) => Promise<void>;
+
+/** Browser storage state as returned by BrowserContext.storageState() */
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * Authenticated session saved after a successful login
+ */
+export interface StoredSession {
+  /** Epoch milliseconds of the login */
+  savedAt: number;
+  /** Page URL right after the login, reopened when the session is restored */
+  landingUrl: string;
+  /** First page URL of the login, where the application sends rejected sessions */
+  loginUrl?: string;
+  /** Cookies and local storage of the logged-in context */
+  storageState: StorageState;
+}
+
+/** Session key part of logins presenting no client certificate */
+const NO_CERTIFICATE = 'nocert';
+
+/** Login handlers keyed by application name */
+const loginHandlers: Map<string, LoginHandler> = new Map();
+
+/**
+ * Logs in with the generic login page
+ * @param page - Fresh page
+ * @param app - Application configuration
+ * @param role - Role credentials
+ */
+const defaultLoginHandler: LoginHandler = async (page, app, role) => {
+  const loginPage = new LoginPage(page);
+  await loginPage.goto(app.baseUrl);
+  await loginPage.login(role.username, role.password);
+  await loginPage.assertLoggedIn();
+};
+
+/**
+ * Registers how an application logs a role in
+ * @param appName - Application name as configured under `apps`
+ * @param handler - Login handler
+ */
+export function registerLoginHandler(appName: string, handler: LoginHandler): void {
+  loginHandlers.set(appName, handler);
+}
+
+/**
+ * Resolves the credentials of a role of the active application
+ * @param roleName - Role name as configured under `apps.<app>.roles`
+ * @returns Role credentials
+ * @throws Error if the role is not configured for the application
+ */
+export function resolveRole(roleName: string): RoleConfig {
+  const environment = getEnvironment();
+  const appName = environment.getActiveAppName();
+  const roles = environment.getAppConfig().roles;
+
+  const role = roles[roleName];
+  if (!role) {
+    const configured = Object.keys(roles);
+    throw new Error(
+      `Unknown role: ${roleName} for application ${appName} in ${environment.getEnvironmentName()}. ` +
+        `Roles configured: ${configured.length > 0 ? configured.join(', ') : 'none'} (apps.${appName}.roles)`
+    );
+  }
+  return role;
+}
+
+/**
+ * Singleton cache of authenticated sessions, one per environment, application, role and
+ * client certificate identity
+ */
+export class AuthSessionCache {
+  private static instance: AuthSessionCache;
+  private sessions: Map<string, Promise<StoredSession>> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Gets the singleton instance of AuthSessionCache
+   * @returns AuthSessionCache instance
+   */
+  static getInstance(): AuthSessionCache {
+    if (!AuthSessionCache.instance) {
+      AuthSessionCache.instance = new AuthSessionCache();
+    }
+    return AuthSessionCache.instance;
+  }
+
+  /**
+   * Gets an authenticated session of a role of the active application
+   * Reuses a session saved within the TTL, otherwise logs in and saves a new one.
+   * @param browser - Browser to log in with
+   * @param roleName - Role name
+   * @param contextOptions - Options of the login context (e.g. device emulation)
+   * @returns Authenticated session
+   */
+  async getSession(
+    browser: Browser,
+    roleName: string,
+    contextOptions: BrowserContextOptions = {}
+  ): Promise<StoredSession> {
+    const environment = getEnvironment();
+    const appName = environment.getActiveAppName();
+    const role = resolveRole(roleName);
+    const loginOptions = this.getLoginOptions(contextOptions);
+    const key = this.getSessionKey(roleName, loginOptions);
+    const ttl = environment.getConfig().auth.storageStateTtl * 1000;
+
+    const pending = this.sessions.get(key);
+    if (pending) {
+      const session = await pending.catch(() => null);
+      if (session && this.isFresh(session, ttl)) {
+        return session;
+      }
+    }
+
+    const filePath = this.getSessionFilePath(key);
+    const saved = this.readSession(filePath);
+    if (saved && this.isFresh(saved, ttl)) {
+      logger.info(`Reusing saved session of role ${roleName} (${appName})`);
+      this.sessions.set(key, Promise.resolve(saved));
+      return saved;
+    }
+
+    const login = this.login(
+      browser,
+      environment.getAppConfig(),
+      appName,
+      roleName,
+      role,
+      loginOptions
+    ).then(session => {
+      this.writeSession(filePath, session);
+      return session;
+    });
+    this.sessions.set(key, login);
+    // Forget failed logins so a later scenario can retry
+    login.catch(() => this.sessions.delete(key));
+    return login;
+  }
+
+  /**
+   * Forgets the session of a role, in memory and on disk, so the next use logs in again
+   * @param roleName - Role name
+   * @param contextOptions - Options the session was requested with
+   */
+  forgetSession(roleName: string, contextOptions: BrowserContextOptions = {}): void {
+    const key = this.getSessionKey(roleName, this.getLoginOptions(contextOptions));
+    this.sessions.delete(key);
+    fs.rmSync(this.getSessionFilePath(key), { force: true });
+  }
+
+  /**
+   * Checks whether a restored session was sent back to the login page
+   * @param session - Restored session
+   * @param url - Page URL after opening the landing page with the session
+   * @returns True if the application rejected the session
+   */
+  isRejected(session: StoredSession, url: string): boolean {
+    const withoutHash = (value: string): string => value.split('#')[0];
+    return (
+      session.loginUrl !== undefined &&
+      withoutHash(session.loginUrl) !== withoutHash(session.landingUrl) &&
+      withoutHash(url) === withoutHash(session.loginUrl)
+    );
+  }
+
+  /**
+   * Builds the options of the login context: the preloaded client certificates,
+   * replaced by those of the scenario, and never a previously restored session
+   * @param contextOptions - Options of the scenario context
+   * @returns Login context options
+   */
+  private getLoginOptions(contextOptions: BrowserContextOptions): BrowserContextOptions {
+    const loginOptions = {
+      ...getClientCertificateOptions(getEnvironment().getConfig().certs),
+      ...contextOptions,
+    };
+    delete loginOptions.storageState;
+    return loginOptions;
+  }
+
+  /**
+   * Builds the key of a session: environment, application, role and the identity
+   * of the client certificates presented at login
+   * @param roleName - Role name
+   * @param loginOptions - Login context options
+   * @returns Session key
+   */
+  private getSessionKey(roleName: string, loginOptions: BrowserContextOptions): string {
+    const environment = getEnvironment();
+    const certificates = (loginOptions.clientCertificates ?? [])
+      .map(certificate => `${certificate.origin} ${certificate.pfxPath ?? certificate.certPath}`)
+      .sort();
+    const identity =
+      certificates.length > 0
+        ? crypto.createHash('sha256').update(certificates.join('\n')).digest('hex').substring(0, 12)
+        : NO_CERTIFICATE;
+    return `${environment.getEnvironmentName()}-${environment.getActiveAppName()}-${roleName}-${identity}`;
+  }
+
+  /**
+   * Gets the file a session is saved to
+   * @param key - Session key
+   * @returns Session file path
+   */
+  private getSessionFilePath(key: string): string {
+    return path.join(PathUtils.getAuthPath(), `${PathUtils.toFileName(key)}.json`);
+  }
+
+  /**
+   * Checks whether a session is still within the TTL
+   * @param session - Stored session
+   * @param ttl - Time to live in milliseconds
+   * @returns True if the session can be reused
+   */
+  private isFresh(session: StoredSession, ttl: number): boolean {
+    return Date.now() - session.savedAt < ttl;
+  }
+
+  /**
+   * Logs a role in on a separate browser context and captures its storage state
+   * @param browser - Browser to log in with
+   * @param app - Application configuration
+   * @param appName - Application name
+   * @param roleName - Role name
+   * @param role - Role credentials
+   * @param loginOptions - Options of the login context
+   * @returns Authenticated session
+   */
+  private async login(
+    browser: Browser,
+    app: AppConfig,
+    appName: string,
+    roleName: string,
+    role: RoleConfig,
+    loginOptions: BrowserContextOptions
+  ): Promise<StoredSession> {
+    logger.info(`Logging in as role ${roleName} (${role.username}) on ${appName}`);
+    const handler = loginHandlers.get(appName) || defaultLoginHandler;
+    const engine = browser.browserType().name() as BrowserEngine;
+    const context = await browser.newContext(adaptToEngine(loginOptions, engine));
+
+    try {
+      const page = await context.newPage();
+      let loginUrl: string | undefined;
+      page.on('framenavigated', frame => {
+        if (!loginUrl && frame === page.mainFrame() && frame.url() !== 'about:blank') {
+          loginUrl = frame.url();
+        }
+      });
+      await handler(page, app, role);
+      const session: StoredSession = {
+        savedAt: Date.now(),
+        landingUrl: page.url(),
+        loginUrl,
+        storageState: await context.storageState(),
+      };
+      logger.info(`Logged in as role ${roleName}`);
+      return session;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : error;
+      throw new Error(`Login as role ${roleName} on ${appName} failed: ${reason}`);
+    } finally {
+      await context.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Reads a saved session from disk
+   * @param filePath - Session file
+   * @returns Saved session, or null if it does not exist or cannot be read
+   */
+  private readSession(filePath: string): StoredSession | null {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as StoredSession;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable session file ${filePath}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Saves a session to disk, replacing the file atomically for parallel workers
+   * @param filePath - Session file
+   * @param session - Session to save
+   */
+  private writeSession(filePath: string, session: StoredSession): void {
+    try {
+      PathUtils.ensureDirectoryExists(path.dirname(filePath));
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(session, null, 2));
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      logger.warn(`Failed to save session file ${filePath}: ${error}`);
+    }
+  }
+}
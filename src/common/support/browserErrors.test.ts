@@ -0,0 +1,143 @@
+/**
+ * Browser Error Collection Test Suite
+ *
+ * Validates the collection of console errors and uncaught exceptions, the
+ * allow-list, the @allow-console-errors tag and the fail/warn/off modes.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import type { ConsoleMessage, Page } from '@playwright/test';
+import {
+  ALLOW_CONSOLE_ERRORS_TAG,
+  collectBrowserErrors,
+  formatBrowserErrors,
+  getBrowserErrorFailure,
+  type BrowserError,
+} from './browserErrors';
+import { logger } from '../../utils/logger';
+
+/** Errors of a scenario: one expected, one not */
+const ERRORS: BrowserError[] = [
+  {
+    source: 'console',
+    message: 'Failed to load resource: the server responded with a status of 404',
+    location: 'https://shop.test/favicon.ico:0',
+  },
+  {
+    source: 'page',
+    message: "TypeError: Cannot read properties of undefined (reading 'id')\n    at cart.js:7",
+  },
+];
+
+/** Allow-list matching the missing favicon */
+const ALLOW = ['status of 404'];
+
+/**
+ * Creates a fake page whose console messages and page errors can be emitted by the test
+ * @returns Fake page and the listeners it registered
+ */
+function createFakePage() {
+  const listeners: Record<string, (payload: unknown) => void> = {};
+  const page = {
+    on: (event: string, listener: (payload: unknown) => void) => {
+      listeners[event] = listener;
+    },
+  };
+  const log = (type: string, text: string): void => {
+    listeners.console({
+      type: () => type,
+      text: () => text,
+      location: () => ({ url: 'https://shop.test/main.js', lineNumber: 12, columnNumber: 3 }),
+    } as unknown as ConsoleMessage);
+  };
+  const throwError = (error: Error): void => listeners.pageerror(error);
+  return { page: page as unknown as Page, log, throwError };
+}
+
+describe('Browser Error Collection', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('collectBrowserErrors', () => {
+    test('should collect console errors and uncaught exceptions only', () => {
+      const { page, log, throwError } = createFakePage();
+      const errors: BrowserError[] = [];
+      collectBrowserErrors(page, errors);
+
+      log('warning', 'Deprecated API');
+      log('error', 'Checkout failed');
+      const error = new Error('boom');
+      error.stack = 'Error: boom\n    at main.js:3';
+      throwError(error);
+
+      expect(errors).toEqual([
+        { source: 'console', message: 'Checkout failed', location: 'https://shop.test/main.js:12' },
+        { source: 'page', message: 'Error: boom\n    at main.js:3' },
+      ]);
+    });
+
+    test('should keep at most 200 errors', () => {
+      const { page, log } = createFakePage();
+      const errors: BrowserError[] = [];
+      collectBrowserErrors(page, errors);
+
+      for (let index = 0; index < 250; index++) {
+        log('error', `Error ${index}`);
+      }
+
+      expect(errors).toHaveLength(200);
+      expect(errors[199].message).toBe('Error 199');
+    });
+  });
+
+  describe('getBrowserErrorFailure', () => {
+    test('should fail on errors that are not allowed', () => {
+      const failure = getBrowserErrorFailure(ERRORS, { mode: 'fail', allow: ALLOW }, ['@smoke']);
+
+      expect(failure).toBe(
+        "1 unexpected browser error(s): TypeError: Cannot read properties of undefined (reading 'id'). " +
+          'Allow expected errors with browserErrors.allow or @allow-console-errors'
+      );
+    });
+
+    test('should not fail when every error is allowed', () => {
+      const allow = [...ALLOW, '^TypeError: Cannot read'];
+
+      expect(getBrowserErrorFailure(ERRORS, { mode: 'fail', allow }, [])).toBeNull();
+    });
+
+    test('should not fail or warn for scenarios tagged @allow-console-errors', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      const tags = ['@checkout', ALLOW_CONSOLE_ERRORS_TAG];
+
+      expect(getBrowserErrorFailure(ERRORS, { mode: 'fail', allow: [] }, tags)).toBeNull();
+      expect(getBrowserErrorFailure(ERRORS, { mode: 'warn', allow: [] }, tags)).toBeNull();
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    test('should only warn in warn mode and ignore errors in off mode', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+
+      expect(getBrowserErrorFailure(ERRORS, { mode: 'warn', allow: ALLOW }, [])).toBeNull();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('1 unexpected browser error(s)'));
+      expect(getBrowserErrorFailure(ERRORS, { mode: 'off', allow: [] }, [])).toBeNull();
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('formatBrowserErrors', () => {
+    test('should list every error and mark the allowed ones', () => {
+      expect(formatBrowserErrors(ERRORS, ALLOW).split('\n')).toEqual([
+        'Browser errors: 2',
+        '',
+        '1. Console error (allowed): Failed to load resource: the server responded with a status of 404',
+        '   at https://shop.test/favicon.ico:0',
+        "2. Uncaught exception: TypeError: Cannot read properties of undefined (reading 'id')",
+        '    at cart.js:7',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Browser Error Collection Module
+ *
+ * This module collects console errors and uncaught page errors of a scenario's
+ * pages and decides whether they fail the scenario, so JavaScript errors in the
+ * application no longer pass silently.
+ *
+ * Controlled by the `browserErrors` config section:
+ * - mode: fail (default), warn or off
+ * - allow: regular expressions of expected error messages
+ *
+ * Scenarios tagged @allow-console-errors never fail or warn because of browser
+ * errors; their errors are still attached to the report.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { Page } from '@playwright/test';
+import { logger } from '../../utils/logger';
+import type { Config } from '../../../config/schema';
+
+/** Tag of scenarios expected to produce browser errors */
+export const ALLOW_CONSOLE_ERRORS_TAG = '@allow-console-errors';
+
+/** Maximum number of errors kept per scenario */
+const MAX_BROWSER_ERRORS = 200;
+
+/**
+ * A console error or uncaught exception raised by a page
+ */
+export interface BrowserError {
+  /** console for console.error messages, page for uncaught exceptions */
+  source: 'console' | 'page';
+  /** Error message */
+  message: string;
+  /** Script location of console errors, e.g. https://app/main.js:12 */
+  location?: string;
+}
+
+/**
+ * Collects the console errors and uncaught exceptions of a page
+ * @param page - Page to observe
+ * @param errors - Error list to append to (mutated)
+ */
+export function collectBrowserErrors(page: Page, errors: BrowserError[]): void {
+  const add = (error: BrowserError): void => {
+    if (errors.length < MAX_BROWSER_ERRORS) {
+      errors.push(error);
+    }
+  };
+
+  page.on('console', msg => {
+    if (msg.type() === 'error') {
+      const { url, lineNumber } = msg.location();
+      add({
+        source: 'console',
+        message: msg.text(),
+        location: url ? `${url}:${lineNumber}` : undefined,
+      });
+    }
+  });
+
+  page.on('pageerror', error => {
+    add({ source: 'page', message: error.stack || error.message });
+  });
+}
+
+/**
+ * Checks whether an error matches the allow-list
+ * @param error - Browser error
+ * @param allow - Regular expressions of expected error messages
+ * @returns True if the error is expected
+ */
+export function isAllowedError(error: BrowserError, allow: string[]): boolean {
+  return allow.some(pattern => new RegExp(pattern).test(error.message));
+}
+
+/**
+ * Formats the collected errors for the report
+ * @param errors - Collected browser errors
+ * @param allow - Regular expressions of expected error messages
+ * @returns Plain text listing every error, allowed ones marked as such
+ */
+export function formatBrowserErrors(errors: BrowserError[], allow: string[]): string {
+  const lines = errors.map((error, index) => {
+    const label = error.source === 'page' ? 'Uncaught exception' : 'Console error';
+    const allowed = isAllowedError(error, allow) ? ' (allowed)' : '';
+    const location = error.location ? `\n   at ${error.location}` : '';
+    return `${index + 1}. ${label}${allowed}: ${error.message}${location}`;
+  });
+  return [`Browser errors: ${errors.length}`, '', ...lines].join('\n');
+}
+
+/**
+ * Decides whether the browser errors of a scenario fail it
+ * Logs a warning instead when the mode is warn.
+ * @param errors - Collected browser errors
+ * @param settings - browserErrors config section
+ * @param tags - Tag names of the scenario
+ * @returns Failure message, or null if the scenario does not fail because of browser errors
+ */
+export function getBrowserErrorFailure(
+  errors: BrowserError[],
+  settings: Config['browserErrors'],
+  tags: string[]
+): string | null {
+  if (settings.mode === 'off' || tags.includes(ALLOW_CONSOLE_ERRORS_TAG)) {
+    return null;
+  }
+
+  const unexpected = errors.filter(error => !isAllowedError(error, settings.allow));
+  if (unexpected.length === 0) {
+    return null;
+  }
+
+  const summary =
+    `${unexpected.length} unexpected browser error(s): ` +
+    unexpected.map(error => error.message.split('\n')[0]).join('; ');
+
+  if (settings.mode === 'warn') {
+    logger.warn(summary);
+    return null;
+  }
+  return `${summary}. Allow expected errors with browserErrors.allow or ${ALLOW_CONSOLE_ERRORS_TAG}`;
+}
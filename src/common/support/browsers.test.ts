@@ -0,0 +1,121 @@
+/**
+ * Browser Registry Test Suite
+ *
+ * Validates engine selection from tags, browserless scenarios and the lazy,
+ * shared browser launches, using fake Playwright browser types so no browser
+ * is launched.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { chromium, firefox, webkit } from '@playwright/test';
+import {
+  BROWSERLESS_TAGS,
+  BrowserRegistry,
+  getEngineFromTags,
+  isBrowserlessScenario,
+} from './browsers';
+
+jest.mock('@playwright/test', () => {
+  /**
+   * Creates a fake browser type whose launches return closable browsers
+   * @param name - Engine name
+   * @returns Fake browser type
+   */
+  const browserType = (name: string) => ({
+    launch: jest.fn(async () => ({ version: () => `${name}-1.0`, close: jest.fn() })),
+  });
+  return {
+    chromium: browserType('chromium'),
+    firefox: browserType('firefox'),
+    webkit: browserType('webkit'),
+  };
+});
+
+jest.mock('./env', () => ({
+  getEnvironment: () => ({ getConfig: () => ({ browser: { engine: 'firefox' } }) }),
+}));
+
+describe('Browser Registry', () => {
+  describe('getEngineFromTags', () => {
+    test('should use the last engine tag, so scenario tags win over feature tags', () => {
+      expect(getEngineFromTags(['@firefox', '@smoke', '@webkit'])).toBe('webkit');
+      expect(getEngineFromTags(['@chromium'])).toBe('chromium');
+    });
+
+    test('should return null for scenarios without an engine tag', () => {
+      expect(getEngineFromTags(['@smoke', '@edge', '@ui'])).toBeNull();
+    });
+  });
+
+  describe('isBrowserlessScenario', () => {
+    test.each(BROWSERLESS_TAGS)('should run scenarios tagged %s without a browser', tag => {
+      expect(isBrowserlessScenario(['@smoke', tag])).toBe(true);
+    });
+
+    test('should give every other scenario a browser', () => {
+      expect(isBrowserlessScenario([])).toBe(false);
+      expect(isBrowserlessScenario(['@ui', '@apis', '@chromium'])).toBe(false);
+    });
+  });
+
+  describe('BrowserRegistry', () => {
+    const registry = BrowserRegistry.getInstance();
+
+    beforeEach(() => {
+      jest.mocked(chromium.launch).mockClear();
+      jest.mocked(firefox.launch).mockClear();
+      jest.mocked(webkit.launch).mockClear();
+    });
+
+    afterEach(async () => {
+      await registry.closeAll();
+    });
+
+    test('should launch each engine once and share it', async () => {
+      const first = await registry.getBrowser('chromium');
+      const second = await registry.getBrowser('chromium');
+      await registry.getBrowser('webkit');
+
+      expect(second).toBe(first);
+      expect(chromium.launch).toHaveBeenCalledTimes(1);
+      expect(webkit.launch).toHaveBeenCalledTimes(1);
+      expect(firefox.launch).not.toHaveBeenCalled();
+    });
+
+    test('should use the configured engine by default', async () => {
+      const browser = await registry.getBrowser();
+
+      expect(browser.version()).toBe('firefox-1.0');
+    });
+
+    test('should pass the Chromium arguments to Chromium only', async () => {
+      await registry.getBrowser('chromium');
+      await registry.getBrowser('webkit');
+
+      expect(jest.mocked(chromium.launch).mock.calls[0][0]?.args).toContain('--no-sandbox');
+      expect(jest.mocked(webkit.launch).mock.calls[0][0]?.args).toEqual([]);
+    });
+
+    test('should forget a failed launch so a later scenario can retry', async () => {
+      jest.mocked(webkit.launch).mockRejectedValueOnce(new Error('Executable does not exist'));
+
+      await expect(registry.getBrowser('webkit')).rejects.toThrow('Executable does not exist');
+      await expect(registry.getBrowser('webkit')).resolves.toBeDefined();
+      expect(webkit.launch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should close every browser and launch again after closing', async () => {
+      const browser = await registry.getBrowser('chromium');
+      jest.mocked(browser.close).mockRejectedValueOnce(new Error('already closed'));
+      await registry.getBrowser('firefox');
+
+      await expect(registry.closeAll()).resolves.toBeUndefined();
+      expect(browser.close).toHaveBeenCalledTimes(1);
+
+      await registry.getBrowser('chromium');
+      expect(chromium.launch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
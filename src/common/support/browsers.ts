@@ -0,0 +1,144 @@
+/**
+ * Browser Registry Module
+ *
+ * This module launches and shares Playwright browsers across scenarios.
+ * One browser is launched lazily per engine the first time a scenario needs it
+ * and reused by every later scenario running on the same engine.
+ *
+ * Engine selection (most specific wins):
+ * - @chromium, @firefox, @webkit scenario or feature tags
+ * - BROWSER environment variable
+ * - `browser.engine` in the environment configuration (default: chromium)
+ *
+ * Scenarios tagged @api, @db/@database or @nobrowser get no browser unless a step
+ * asks for one, so API-only suites run without Playwright browsers installed.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { chromium, firefox, webkit, Browser, BrowserType } from '@playwright/test';
+import { getEnvironment } from './env';
+import { logger } from '../../utils/logger';
+import type { BrowserEngine } from '../../../config/schema';
+
+/** Playwright browser types keyed by engine */
+const BROWSER_TYPES: Record<BrowserEngine, BrowserType> = {
+  chromium,
+  firefox,
+  webkit,
+};
+
+/** Chromium-only launch arguments */
+const CHROMIUM_ARGS = [
+  '--disable-web-security',
+  '--disable-features=VizDisplayCompositor',
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+];
+
+/**
+ * Resolves the browser engine requested by scenario tags
+ * @param tags - Tag names of the scenario, feature tags first
+ * @returns Engine of the last engine tag, or null if the scenario has none
+ */
+export function getEngineFromTags(tags: string[]): BrowserEngine | null {
+  const engineTags = tags
+    .map(tag => tag.substring(1))
+    .filter((name): name is BrowserEngine => name in BROWSER_TYPES);
+  return engineTags.length > 0 ? engineTags[engineTags.length - 1] : null;
+}
+
+/** Tags of scenarios that do not start a browser context up front */
+export const BROWSERLESS_TAGS = ['@api', '@db', '@database', '@nobrowser'];
+
+/**
+ * Checks whether a scenario starts without a browser context
+ * @param tags - Tag names of the scenario, feature tags included
+ * @returns True if the scenario has a browserless tag
+ */
+export function isBrowserlessScenario(tags: string[]): boolean {
+  return tags.some(tag => BROWSERLESS_TAGS.includes(tag));
+}
+
+/**
+ * Singleton registry of launched browsers, one per engine
+ */
+export class BrowserRegistry {
+  private static instance: BrowserRegistry;
+  private browsers: Map<BrowserEngine, Promise<Browser>> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Gets the singleton instance of BrowserRegistry
+   * @returns BrowserRegistry instance
+   */
+  static getInstance(): BrowserRegistry {
+    if (!BrowserRegistry.instance) {
+      BrowserRegistry.instance = new BrowserRegistry();
+    }
+    return BrowserRegistry.instance;
+  }
+
+  /**
+   * Gets the engine used when a scenario has no engine tag
+   * @returns Engine from BROWSER or the environment configuration
+   */
+  getDefaultEngine(): BrowserEngine {
+    return getEnvironment().getConfig().browser.engine;
+  }
+
+  /**
+   * Gets the shared browser of an engine, launching it on first use
+   * @param engine - Browser engine, defaults to the run's default engine
+   * @returns Connected browser instance
+   */
+  async getBrowser(engine: BrowserEngine = this.getDefaultEngine()): Promise<Browser> {
+    let browser = this.browsers.get(engine);
+    if (!browser) {
+      browser = this.launch(engine);
+      this.browsers.set(engine, browser);
+      // Forget failed launches so a later scenario can retry
+      browser.catch(() => this.browsers.delete(engine));
+    }
+    return browser;
+  }
+
+  /**
+   * Closes every launched browser
+   */
+  async closeAll(): Promise<void> {
+    const launched = Array.from(this.browsers.entries());
+    this.browsers.clear();
+
+    await Promise.all(
+      launched.map(async ([engine, browserPromise]) => {
+        try {
+          await (await browserPromise).close();
+          logger.info(`Browser closed: ${engine}`);
+        } catch (error) {
+          logger.warn(`Failed to close ${engine} browser: ${error}`);
+        }
+      })
+    );
+  }
+
+  /**
+   * Launches a browser of the given engine
+   * @param engine - Browser engine
+   * @returns Launched browser
+   */
+  private async launch(engine: BrowserEngine): Promise<Browser> {
+    logger.info(`Launching ${engine} browser`);
+
+    const browser = await BROWSER_TYPES[engine].launch({
+      headless: process.env.CI === 'true' || process.env.HEADLESS === 'true',
+      slowMo: process.env.SLOW_MO ? parseInt(process.env.SLOW_MO) : 0,
+      args: engine === 'chromium' ? CHROMIUM_ARGS : [],
+    });
+
+    logger.info(`Browser launched: ${engine} ${browser.version()}`);
+    return browser;
+  }
+}
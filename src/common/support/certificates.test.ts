@@ -0,0 +1,190 @@
+/**
+ * Client Certificates Test Suite
+ *
+ * Validates the lookup of named certificates, the certificates presented by
+ * every browser context and switching the certificate of an origin.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getBrowserClientCertificates,
+  getClientCertificateOptions,
+  getNamedCertificate,
+  replaceCertificateForOrigin,
+} from './certificates';
+import { logger } from '../../utils/logger';
+import { assertSecretsResolved } from '../../../config';
+import type { Config } from '../../../config/schema';
+
+jest.mock('../../../config', () => ({ assertSecretsResolved: jest.fn() }));
+
+describe('Client Certificates', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'certificates-test-'));
+    jest.mocked(assertSecretsResolved).mockReset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Writes a fake PFX file
+   * @param name - File name without extension
+   * @returns Absolute path of the file
+   */
+  function writePfx(name: string): string {
+    const pfxPath = path.join(tempDir, `${name}.pfx`);
+    fs.writeFileSync(pfxPath, 'pfx');
+    return pfxPath;
+  }
+
+  /**
+   * Builds a certificate entry
+   * @param pfxPath - PFX file
+   * @param origin - Origin the certificate is presented to
+   * @param preload - Whether every browser context presents it
+   * @returns Certificate entry
+   */
+  function cert(pfxPath: string, origin: string, preload = true) {
+    return { pfxPath, passphrase: 'changeit', origin, preload };
+  }
+
+  describe('getNamedCertificate', () => {
+    test('should return certs.client as "client" and additional certificates by name', () => {
+      const client = cert(writePfx('client'), 'https://shop.test');
+      const partner = cert(writePfx('partner'), 'https://partner.test', false);
+      const certs: Config['certs'] = { client, additional: { partner } };
+
+      expect(getNamedCertificate(certs, 'client')).toBe(client);
+      expect(getNamedCertificate(certs, 'partner')).toBe(partner);
+      expect(assertSecretsResolved).toHaveBeenCalledWith('certs.client');
+      expect(assertSecretsResolved).toHaveBeenCalledWith('certs.additional.partner');
+    });
+
+    test('should list the configured certificates when the name is unknown', () => {
+      const certs: Config['certs'] = {
+        additional: { partner: cert(writePfx('partner'), 'https://partner.test') },
+      };
+
+      expect(() => getNamedCertificate(certs, 'client')).toThrow(
+        'Unknown client certificate: client. Certificates configured: partner'
+      );
+      expect(() => getNamedCertificate({ additional: {} }, 'admin')).toThrow(
+        'Certificates configured: none'
+      );
+    });
+
+    test('should fail when the passphrase of the certificate is not resolved', () => {
+      jest.mocked(assertSecretsResolved).mockImplementation(() => {
+        throw new Error('Unresolved placeholder ${env:PARTNER_PFX_PASSPHRASE}');
+      });
+      const certs: Config['certs'] = {
+        additional: { partner: cert(writePfx('partner'), 'https://partner.test') },
+      };
+
+      expect(() => getNamedCertificate(certs, 'partner')).toThrow('PARTNER_PFX_PASSPHRASE');
+    });
+  });
+
+  describe('getBrowserClientCertificates', () => {
+    test('should present certs.client first and the preloaded additional certificates', () => {
+      const certs: Config['certs'] = {
+        client: cert(writePfx('client'), 'https://shop.test'),
+        additional: {
+          api: cert(writePfx('api'), 'https://api.shop.test'),
+          alternate: cert(writePfx('alternate'), 'https://partner.test', false),
+        },
+      };
+
+      expect(getBrowserClientCertificates(certs)).toEqual([
+        {
+          pfxPath: path.join(tempDir, 'client.pfx'),
+          passphrase: 'changeit',
+          origin: 'https://shop.test',
+        },
+        {
+          pfxPath: path.join(tempDir, 'api.pfx'),
+          passphrase: 'changeit',
+          origin: 'https://api.shop.test',
+        },
+      ]);
+    });
+
+    test('should present one certificate per origin', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      const certs: Config['certs'] = {
+        client: cert(writePfx('client'), 'https://shop.test'),
+        additional: { second: cert(writePfx('second'), 'https://shop.test') },
+      };
+
+      const certificates = getBrowserClientCertificates(certs);
+
+      expect(certificates.map(certificate => certificate.pfxPath)).toEqual([
+        path.join(tempDir, 'client.pfx'),
+      ]);
+      expect(warn).toHaveBeenCalledWith(
+        'Client certificate second ignored: another certificate is preloaded for https://shop.test'
+      );
+    });
+
+    test('should skip missing certificates and warn about each once', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      const certs: Config['certs'] = {
+        additional: {
+          missing: cert(path.join(tempDir, 'missing.pfx'), 'https://missing.test'),
+          api: cert(writePfx('api'), 'https://api.shop.test'),
+        },
+      };
+
+      expect(getBrowserClientCertificates(certs).map(certificate => certificate.origin)).toEqual([
+        'https://api.shop.test',
+      ]);
+      getBrowserClientCertificates(certs);
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain(
+        'Client certificate missing not loaded for https://missing.test'
+      );
+    });
+  });
+
+  describe('getClientCertificateOptions', () => {
+    test('should only set clientCertificates when a certificate is presented', () => {
+      const client = cert(writePfx('client'), 'https://shop.test');
+
+      expect(getClientCertificateOptions({ additional: {} })).toEqual({});
+      expect(getClientCertificateOptions({ client, additional: {} })).toEqual({
+        clientCertificates: [
+          { pfxPath: client.pfxPath, passphrase: 'changeit', origin: 'https://shop.test' },
+        ],
+      });
+    });
+  });
+
+  describe('replaceCertificateForOrigin', () => {
+    const shop = { origin: 'https://shop.test', pfxPath: 'shop.pfx' };
+    const api = { origin: 'https://api.shop.test', pfxPath: 'api.pfx' };
+
+    test('should replace the certificate of the origin and keep the others', () => {
+      const partner = { origin: 'https://shop.test', pfxPath: 'partner.pfx' };
+
+      expect(replaceCertificateForOrigin([shop, api], 'https://shop.test', partner)).toEqual([
+        api,
+        partner,
+      ]);
+    });
+
+    test('should remove the certificate of the origin when none is given', () => {
+      expect(replaceCertificateForOrigin([shop, api], 'https://shop.test', null)).toEqual([api]);
+    });
+  });
+});
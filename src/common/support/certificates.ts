@@ -1,6 +1,8 @@
+import { BrowserContextOptions } from '@playwright/test';
 import { PathUtils } from '../../utils/paths';
 import { logger } from '../../utils/logger';
-import type { Config } from '../../../config/schema';
+import { assertSecretsResolved } from '../../../config';
+import type { ClientCertConfig, Config } from '../../../config/schema';
 
 export interface ClientCertificateConfig {
   pfxPath: string;
@@ -8,15 +10,123 @@ export interface ClientCertificateConfig {
   origin: string;
 }
 
+// Name of certs.client when selecting certificates by name
+export const DEFAULT_CERTIFICATE_NAME = 'client';
+
+// Certificates already reported as missing, so each is warned about once per run
+const reportedMissing = new Set<string>();
+
+export function resolveClientCertificate(cert: ClientCertConfig): ClientCertificateConfig {
+  const resolvedPfxPath = PathUtils.resolvePfxPath(cert.pfxPath);
+
+  try {
+    PathUtils.validatePfxFile(cert.pfxPath);
+    logger.info(`Using client certificate: ${resolvedPfxPath}`);
+
+    return {
+      pfxPath: resolvedPfxPath,
+      passphrase: cert.passphrase,
+      origin: cert.origin,
+    };
+  } catch (error) {
+    logger.error(`Certificate validation failed: ${error}`);
+    throw new Error(
+      `Failed to load client certificate: ${error}\n\n` +
+      'Setup instructions:\n' +
+      '1. Place your client certificate (.pfx file) in the secrets/ directory\n' +
+      '2. Set PFX_PASSPHRASE in your .env file (referenced as ${env:PFX_PASSPHRASE})\n' +
+      '3. Ensure the certificate is valid and not expired\n' +
+      '4. Verify the origin matches your API endpoint\n\n' +
+      'Example .env configuration:\n' +
+      'PFX_PASSPHRASE=your_certificate_passphrase'
+    );
+  }
+}
+
+// Config key path of a certificate, whose passphrase is resolved only when the certificate is used
+function getCertificateKeyPath(name: string): string {
+  return name === DEFAULT_CERTIFICATE_NAME ? 'certs.client' : `certs.additional.${name}`;
+}
+
+// Looks up certs.client ("client") or a certs.additional entry by name
+export function getNamedCertificate(certs: Config['certs'], name: string): ClientCertConfig {
+  const cert = name === DEFAULT_CERTIFICATE_NAME ? certs.client : certs.additional[name];
+  if (!cert) {
+    const configured = [
+      ...(certs.client ? [DEFAULT_CERTIFICATE_NAME] : []),
+      ...Object.keys(certs.additional),
+    ];
+    throw new Error(
+      `Unknown client certificate: ${name}. ` +
+      `Certificates configured: ${configured.length > 0 ? configured.join(', ') : 'none'}`
+    );
+  }
+  assertSecretsResolved(getCertificateKeyPath(name));
+  return cert;
+}
+
+// Certificates presented by every browser context: certs.client plus preloaded additional ones.
+// Missing PFX files and passphrases are skipped so scenarios without @mtls still run.
+export function getBrowserClientCertificates(certs: Config['certs']): ClientCertificateConfig[] {
+  const preloaded: Array<[string, ClientCertConfig]> = Object.entries(certs.additional).filter(
+    ([, cert]) => cert.preload
+  );
+  if (certs.client) {
+    preloaded.unshift([DEFAULT_CERTIFICATE_NAME, certs.client]);
+  }
+
+  const certificates: ClientCertificateConfig[] = [];
+  for (const [name, cert] of preloaded) {
+    if (certificates.some(certificate => certificate.origin === cert.origin)) {
+      logger.warn(`Client certificate ${name} ignored: another certificate is preloaded for ${cert.origin}`);
+      continue;
+    }
+
+    try {
+      PathUtils.validatePfxFile(cert.pfxPath);
+      assertSecretsResolved(getCertificateKeyPath(name));
+    } catch (error) {
+      if (!reportedMissing.has(name)) {
+        reportedMissing.add(name);
+        logger.warn(`Client certificate ${name} not loaded for ${cert.origin}: ${error}`);
+      }
+      continue;
+    }
+
+    certificates.push({
+      pfxPath: PathUtils.resolvePfxPath(cert.pfxPath),
+      passphrase: cert.passphrase,
+      origin: cert.origin,
+    });
+  }
+  return certificates;
+}
+
+// Browser context option presenting the preloaded certificates, empty when there are none
+export function getClientCertificateOptions(certs: Config['certs']): BrowserContextOptions {
+  const clientCertificates = getBrowserClientCertificates(certs);
+  return clientCertificates.length > 0 ? { clientCertificates } : {};
+}
+
+// Replaces the certificate of an origin, or removes it when cert is null
+export function replaceCertificateForOrigin<T extends { origin: string }>(
+  certificates: T[],
+  origin: string,
+  cert: T | null
+): T[] {
+  const others = certificates.filter(certificate => certificate.origin !== origin);
+  return cert ? [...others, cert] : others;
+}
+
 export class CertificateManager {
   private static instance: CertificateManager;
-  private config: Config['certs']['client'];
+  private config: ClientCertConfig;
 
-  private constructor(config: Config['certs']['client']) {
+  private constructor(config: ClientCertConfig) {
     this.config = config;
   }
 
-  static getInstance(config: Config['certs']['client']): CertificateManager {
+  static getInstance(config: ClientCertConfig): CertificateManager {
     if (!CertificateManager.instance) {
       CertificateManager.instance = new CertificateManager(config);
     }
@@ -24,31 +134,7 @@ export class CertificateManager {
   }
 
   getClientCertificateConfig(): ClientCertificateConfig {
-    const resolvedPfxPath = PathUtils.resolvePfxPath(this.config.pfxPath);
-    
-    try {
-      PathUtils.validatePfxFile(this.config.pfxPath);
-      logger.info(`Using client certificate: ${resolvedPfxPath}`);
-      
-      return {
-        pfxPath: resolvedPfxPath,
-        passphrase: this.config.passphrase,
-        origin: this.config.origin,
-      };
-    } catch (error) {
-      logger.error(`Certificate validation failed: ${error}`);
-      throw new Error(
-        `Failed to load client certificate: ${error}\n\n` +
-        'Setup instructions:\n' +
-        '1. Place your client certificate (.pfx file) in the secrets/ directory\n' +
-        '2. Set PFX_PASSPHRASE in your .env file\n' +
-        '3. Ensure the certificate is valid and not expired\n' +
-        '4. Verify the origin matches your API endpoint\n\n' +
-        'Example .env configuration:\n' +
-        'PFX_PASSPHRASE=your_certificate_passphrase\n' +
-        'PFX_PATH=secrets/client.pfx'
-      );
-    }
+    return resolveClientCertificate(this.config);
   }
 
   validateCertificateForOrigin(targetOrigin: string): void {
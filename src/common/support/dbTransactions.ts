@@ -0,0 +1,52 @@
+/**
+ * Scenario Database Transaction Module
+ *
+ * Decouples the @db scenario hook from the database layer: the database layer
+ * registers how transactions are opened, and the hook opens one per scenario
+ * and rolls it back afterwards, so scenarios leave no data behind.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+/**
+ * Database transaction a scenario runs its queries in
+ */
+export interface ScenarioTransaction {
+  /** Runs a query inside the transaction */
+  query(sql: string, params?: unknown[]): Promise<unknown>;
+  /** Commits the transaction */
+  commit(): Promise<void>;
+  /** Rolls the transaction back */
+  rollback(): Promise<void>;
+}
+
+/**
+ * Opens a transaction on the database of the current environment
+ */
+export type TransactionProvider = () => Promise<ScenarioTransaction>;
+
+/** Provider registered by the database layer */
+let transactionProvider: TransactionProvider | null = null;
+
+/**
+ * Registers how scenario transactions are opened
+ * @param provider - Transaction provider, or null to remove it
+ */
+export function setTransactionProvider(provider: TransactionProvider | null): void {
+  transactionProvider = provider;
+}
+
+/**
+ * Opens a scenario transaction
+ * @returns Open transaction
+ * @throws Error if no database layer registered a provider
+ */
+export function beginScenarioTransaction(): Promise<ScenarioTransaction> {
+  if (!transactionProvider) {
+    throw new Error(
+      'No database transaction provider registered: @db scenarios need the database layer (src/db.disabled)'
+    );
+  }
+  return transactionProvider();
+}
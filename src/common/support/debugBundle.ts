@@ -0,0 +1,223 @@
+/**
+ * Failure Debug Bundle Module
+ *
+ * This module collects what is needed to diagnose a failed scenario without
+ * re-running it, as separate report attachments:
+ * - DOM HTML snapshot and accessibility (ARIA) tree of the current page
+ * - Console log and uncaught page errors
+ * - Recent network requests
+ * - Cookie names and local/session storage keys (values redacted)
+ * - Browser name, version, user agent, viewport and environment name
+ * - The last log lines of the scenario
+ *
+ * Every part is collected independently: a closed or crashed page only loses
+ * the parts that need it.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { Page } from '@playwright/test';
+import { formatNetworkSummary } from './network';
+import { logger, getRecentLogLines } from '../../utils/logger';
+import type { TestContext } from './testContext';
+
+/** Maximum number of console messages kept per scenario */
+const MAX_CONSOLE_ENTRIES = 500;
+
+/** Number of most recent requests listed in the bundle (failed requests are always listed) */
+const RECENT_NETWORK_ENTRIES = 100;
+
+/** Placeholder of redacted cookie and storage values */
+const REDACTED = '[redacted]';
+
+/**
+ * A console message logged by a page
+ */
+export interface ConsoleEntry {
+  /** Console method, e.g. log, warning, error */
+  type: string;
+  /** Message text */
+  text: string;
+  /** Script location, e.g. https://app/main.js:12 */
+  location?: string;
+  /** Epoch milliseconds the message was received */
+  timestamp: number;
+}
+
+/**
+ * A report attachment of the debug bundle
+ */
+export interface DebugBundlePart {
+  /** Attachment file name shown in the reports */
+  fileName: string;
+  /** Attachment media type */
+  mediaType: string;
+  /** Attachment content */
+  body: string;
+}
+
+/**
+ * Scenario details included in the environment part of the bundle
+ */
+export interface DebugBundleDetails {
+  /** Scenario name */
+  scenario: string;
+  /** Scenario duration in milliseconds */
+  duration: number;
+  /** Environment name */
+  environment: string;
+  /** Active device or viewport emulation, if any */
+  emulation?: string;
+}
+
+/**
+ * Records the console messages of a page into a console log
+ * Only the most recent messages are kept to bound memory use.
+ * @param page - Page to observe
+ * @param entries - Console log to append to (mutated)
+ */
+export function recordConsole(page: Page, entries: ConsoleEntry[]): void {
+  page.on('console', msg => {
+    const { url, lineNumber } = msg.location();
+    entries.push({
+      type: msg.type(),
+      text: msg.text(),
+      location: url ? `${url}:${lineNumber}` : undefined,
+      timestamp: Date.now(),
+    });
+    if (entries.length > MAX_CONSOLE_ENTRIES) {
+      entries.shift();
+    }
+  });
+}
+
+/**
+ * Formats the console log and page errors of a scenario
+ * @param testContext - Test context of the scenario
+ * @returns Plain text console log followed by the uncaught page errors
+ */
+function formatConsoleLog(testContext: TestContext): string {
+  const messages = testContext.console.map(entry => {
+    const time = new Date(entry.timestamp).toISOString();
+    const location = entry.location ? ` (${entry.location})` : '';
+    return `${time} [${entry.type}] ${entry.text}${location}`;
+  });
+  const pageErrors = testContext.browserErrors
+    .filter(error => error.source === 'page')
+    .map((error, index) => `${index + 1}. ${error.message}`);
+
+  return [
+    `Console messages: ${messages.length}`,
+    ...messages,
+    '',
+    `Page errors: ${pageErrors.length}`,
+    ...pageErrors,
+  ].join('\n');
+}
+
+/**
+ * Lists the cookies and web storage keys of the current page with redacted values
+ * @param page - Current page
+ * @returns Storage summary
+ */
+async function getStorageSummary(page: Page): Promise<Record<string, unknown>> {
+  const cookies = await page.context().cookies();
+  const storageKeys = await page.evaluate(() => ({
+    localStorage: Object.keys(window.localStorage),
+    sessionStorage: Object.keys(window.sessionStorage),
+  }));
+
+  return {
+    cookies: cookies.map(cookie => ({
+      name: cookie.name,
+      domain: cookie.domain,
+      path: cookie.path,
+      value: REDACTED,
+    })),
+    localStorage: Object.fromEntries(storageKeys.localStorage.map(key => [key, REDACTED])),
+    sessionStorage: Object.fromEntries(storageKeys.sessionStorage.map(key => [key, REDACTED])),
+  };
+}
+
+/**
+ * Collects the browser and environment details of a scenario
+ * @param testContext - Test context of the scenario
+ * @param details - Scenario details
+ * @returns Environment summary
+ */
+async function getEnvironmentSummary(
+  testContext: TestContext,
+  details: DebugBundleDetails
+): Promise<Record<string, unknown>> {
+  const { browser, page } = testContext;
+  const userAgent = page ? await page.evaluate(() => navigator.userAgent).catch(() => null) : null;
+
+  return {
+    scenario: details.scenario,
+    duration: `${details.duration}ms`,
+    timestamp: new Date().toISOString(),
+    environment: details.environment,
+    url: page?.url() || 'N/A',
+    browser: browser ? browser.browserType().name() : 'N/A',
+    browserVersion: browser ? browser.version() : 'N/A',
+    userAgent: userAgent || 'N/A',
+    viewport: page?.viewportSize() || 'N/A',
+    emulation: details.emulation || 'none',
+  };
+}
+
+/**
+ * Collects the debug bundle of a failed scenario
+ * Parts that cannot be collected are skipped and logged.
+ * @param testContext - Test context of the scenario
+ * @param details - Scenario details
+ * @returns Bundle parts, one report attachment each
+ */
+export async function collectDebugBundle(
+  testContext: TestContext,
+  details: DebugBundleDetails
+): Promise<DebugBundlePart[]> {
+  const { page } = testContext;
+  const parts: DebugBundlePart[] = [];
+
+  const collect = async (
+    fileName: string,
+    mediaType: string,
+    body: () => string | Promise<string>
+  ): Promise<void> => {
+    try {
+      parts.push({ fileName, mediaType, body: await body() });
+    } catch (error) {
+      logger.warn(`Failed to collect debug bundle part ${fileName}: ${error}`);
+    }
+  };
+
+  await collect('environment.json', 'application/json', async () =>
+    JSON.stringify(await getEnvironmentSummary(testContext, details), null, 2)
+  );
+
+  if (page && !page.isClosed()) {
+    await collect('dom.html', 'text/html', () => page.content());
+    await collect('accessibility-tree.yaml', 'text/plain', () =>
+      page.locator(':root').ariaSnapshot({ timeout: 5000 })
+    );
+    await collect('storage.json', 'application/json', async () =>
+      JSON.stringify(await getStorageSummary(page), null, 2)
+    );
+  }
+
+  if (testContext.browser) {
+    await collect('console.log', 'text/plain', () => formatConsoleLog(testContext));
+  }
+
+  if (testContext.network.length > 0) {
+    await collect('network.txt', 'text/plain', () =>
+      formatNetworkSummary(testContext.network, RECENT_NETWORK_ENTRIES)
+    );
+  }
+
+  await collect('scenario.log', 'text/plain', () => getRecentLogLines().join('\n'));
+
+  return parts;
+}
@@ -0,0 +1,91 @@
+/**
+ * Device and Viewport Emulation Test Suite
+ *
+ * Validates device lookup, viewport parsing and the emulation built from
+ * scenario tags.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { devices } from '@playwright/test';
+import { adaptToEngine, getEmulationFromTags, parseViewport, resolveDevice } from './emulation';
+
+describe('Device and Viewport Emulation', () => {
+  describe('resolveDevice', () => {
+    test('should find devices ignoring case, underscores and spacing', () => {
+      const emulation = resolveDevice('iphone_13');
+
+      expect(emulation.description).toBe('iPhone 13');
+      expect(emulation.options.viewport).toEqual(devices['iPhone 13'].viewport);
+      expect(emulation.options.isMobile).toBe(true);
+    });
+
+    test('should leave the browser engine to BROWSER and engine tags', () => {
+      expect(resolveDevice('iPhone 13').options).not.toHaveProperty('defaultBrowserType');
+    });
+
+    test('should suggest devices with the same first word for unknown devices', () => {
+      expect(() => resolveDevice('iPhone_99')).toThrow(
+        /^Unknown device: iPhone_99\. Did you mean: /
+      );
+      expect(() => resolveDevice('Toaster')).toThrow(/^Unknown device: Toaster\.$/);
+    });
+  });
+
+  describe('parseViewport', () => {
+    test('should parse <width>x<height>', () => {
+      expect(parseViewport(' 375X667 ')).toEqual({
+        description: '375x667',
+        options: { viewport: { width: 375, height: 667 } },
+      });
+    });
+
+    test('should reject malformed specifications', () => {
+      expect(() => parseViewport('375*667')).toThrow(
+        'Invalid viewport: 375*667. Expected <width>x<height>, e.g. 375x667'
+      );
+    });
+  });
+
+  describe('getEmulationFromTags', () => {
+    test('should return null without emulation tags', () => {
+      expect(getEmulationFromTags(['@ui', '@smoke'])).toBeNull();
+    });
+
+    test('should let the last device and viewport tags win', () => {
+      const emulation = getEmulationFromTags([
+        '@device:Pixel_5',
+        '@viewport:800x600',
+        '@device:iPhone_13',
+        '@viewport:375x667',
+      ]);
+
+      expect(emulation?.description).toBe('iPhone 13 @ 375x667');
+    });
+
+    test('should apply a viewport on top of the device', () => {
+      const emulation = getEmulationFromTags(['@device:iPhone_13', '@viewport:375x667']);
+
+      expect(emulation?.options.viewport).toEqual({ width: 375, height: 667 });
+      expect(emulation?.options.userAgent).toBe(devices['iPhone 13'].userAgent);
+      expect(emulation?.options.hasTouch).toBe(true);
+    });
+
+    test('should emulate a viewport alone', () => {
+      expect(getEmulationFromTags(['@viewport:1024x768'])).toEqual({
+        description: '1024x768',
+        options: { viewport: { width: 1024, height: 768 } },
+      });
+    });
+  });
+
+  describe('adaptToEngine', () => {
+    test('should drop isMobile on Firefox only', () => {
+      const options = { isMobile: true, hasTouch: true };
+
+      expect(adaptToEngine(options, 'firefox')).toEqual({ hasTouch: true });
+      expect(adaptToEngine(options, 'webkit')).toBe(options);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Device and Viewport Emulation Module
+ *
+ * This module turns scenario tags and step arguments into Playwright browser
+ * context options, so emulated contexts are built with the right user agent,
+ * touch support, device scale factor and mobile flag from the start.
+ *
+ * Emulation tags (Gherkin tags cannot contain spaces, use underscores):
+ * - @device:iPhone_13       - Playwright device descriptor "iPhone 13"
+ * - @viewport:375x667       - viewport size, applied on top of a device
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { devices, BrowserContextOptions } from '@playwright/test';
+import { logger } from '../../utils/logger';
+import type { BrowserEngine } from '../../../config/schema';
+
+/** Tag prefix selecting a Playwright device descriptor */
+const DEVICE_TAG_PREFIX = '@device:';
+
+/** Tag prefix selecting a viewport size */
+const VIEWPORT_TAG_PREFIX = '@viewport:';
+
+/** Viewport specification format, e.g. 375x667 */
+const VIEWPORT_PATTERN = /^(\d+)x(\d+)$/i;
+
+/**
+ * Browser context options for an emulated device or viewport
+ */
+export interface EmulationSettings {
+  /** Human-readable description used in logs and reports */
+  description: string;
+  /** Browser context options to create the context with */
+  options: BrowserContextOptions;
+}
+
+/**
+ * Normalizes a device name for comparison (case, underscores and spacing)
+ * @param name - Device name
+ * @returns Normalized name
+ */
+function normalizeDeviceName(name: string): string {
+  return name.replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Resolves a Playwright device descriptor by name
+ * @param name - Device name, e.g. "iPhone 13" or "iphone_13"
+ * @returns Emulation settings built from the device descriptor
+ * @throws Error if no device with that name exists
+ */
+export function resolveDevice(name: string): EmulationSettings {
+  const wanted = normalizeDeviceName(name);
+  const deviceName = Object.keys(devices).find(
+    candidate => normalizeDeviceName(candidate) === wanted
+  );
+
+  if (!deviceName) {
+    const suggestions = Object.keys(devices)
+      .filter(candidate => normalizeDeviceName(candidate).startsWith(wanted.split(' ')[0]))
+      .slice(0, 10);
+    throw new Error(
+      `Unknown device: ${name}.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : ''}`
+    );
+  }
+
+  // The engine is chosen by BROWSER and engine tags, not by the descriptor
+  const options: BrowserContextOptions & { defaultBrowserType?: string } = {
+    ...devices[deviceName],
+  };
+  delete options.defaultBrowserType;
+  return { description: deviceName, options };
+}
+
+/**
+ * Parses a viewport specification
+ * @param spec - Viewport size as <width>x<height>, e.g. "375x667"
+ * @returns Emulation settings with the viewport size
+ * @throws Error if the specification is malformed
+ */
+export function parseViewport(spec: string): EmulationSettings {
+  const match = VIEWPORT_PATTERN.exec(spec.trim());
+  if (!match) {
+    throw new Error(`Invalid viewport: ${spec}. Expected <width>x<height>, e.g. 375x667`);
+  }
+
+  const viewport = { width: parseInt(match[1]), height: parseInt(match[2]) };
+  return { description: `${viewport.width}x${viewport.height}`, options: { viewport } };
+}
+
+/**
+ * Builds the emulation requested by scenario tags
+ * The last @device and the last @viewport tag win; a viewport overrides the device's viewport.
+ * @param tags - Tag names of the scenario, feature tags first
+ * @returns Emulation settings, or null if the scenario has no emulation tags
+ */
+export function getEmulationFromTags(tags: string[]): EmulationSettings | null {
+  const deviceTag = tags.filter(tag => tag.startsWith(DEVICE_TAG_PREFIX)).pop();
+  const viewportTag = tags.filter(tag => tag.startsWith(VIEWPORT_TAG_PREFIX)).pop();
+
+  if (!deviceTag && !viewportTag) {
+    return null;
+  }
+
+  const device = deviceTag ? resolveDevice(deviceTag.substring(DEVICE_TAG_PREFIX.length)) : null;
+  const viewport = viewportTag
+    ? parseViewport(viewportTag.substring(VIEWPORT_TAG_PREFIX.length))
+    : null;
+
+  return {
+    description: [device?.description, viewport?.description].filter(Boolean).join(' @ '),
+    options: { ...device?.options, ...viewport?.options },
+  };
+}
+
+/**
+ * Removes emulation options the browser engine does not support
+ * Firefox rejects `isMobile`, so mobile devices fall back to their viewport, UA and touch support.
+ * @param options - Browser context options
+ * @param engine - Browser engine the context is created on
+ * @returns Options supported by the engine
+ */
+export function adaptToEngine(
+  options: BrowserContextOptions,
+  engine: BrowserEngine
+): BrowserContextOptions {
+  if (engine === 'firefox' && options.isMobile !== undefined) {
+    logger.warn('Firefox does not support isMobile emulation, ignoring it');
+    const supported = { ...options };
+    delete supported.isMobile;
+    return supported;
+  }
+  return options;
+}
@@ -1,15 +1,74 @@
-import { loadConfig, getAppEnv, isOnPremEnv, isCloudEnv } from '../../../config';
+import {
+  loadConfig,
+  assertSecretsResolved,
+  getAppEnv,
+  isOnPremEnv,
+  isCloudEnv,
+  getAppConfig,
+  getDefaultAppName,
+} from '../../../config';
 import { logger } from '../../utils/logger';
-import type { Config } from '../../../config/schema';
+import { PathUtils } from '../../utils/paths';
+import { ConfigManager } from '../../utils/ConfigManager';
+import type {
+  Config,
+  AppConfig,
+  OracleConfig,
+  PostgresConfig,
+  ClientCertConfig,
+  RecordingMode,
+} from '../../../config/schema';
+
+/**
+ * Effective timeouts of the current environment in milliseconds
+ */
+export interface EnvironmentTimeouts {
+  step: number;
+  navigation: number;
+  action: number;
+  wait: number;
+  assertion: number;
+  api: number;
+  database: number;
+  cleanup: number;
+}
+
+/**
+ * Effective retry policy of the current environment
+ */
+export interface RetrySettings {
+  maxRetries: number;
+  retryDelay: number;
+  exponentialBackoff: boolean;
+}
+
+/**
+ * Effective video recording settings of the current environment
+ */
+export interface VideoSettings {
+  mode: RecordingMode;
+  size?: { width: number; height: number };
+}
+
+/**
+ * Optional infrastructure available in the current environment
+ */
+export interface EnvironmentCapabilities {
+  hasOracle: boolean;
+  hasPostgres: boolean;
+  hasDatabase: boolean;
+  hasClientCert: boolean;
+}
 
 export class EnvironmentManager {
   private static instance: EnvironmentManager;
   private config: Config;
   private envName: string;
+  private activeApp: string | null = null;
 
   private constructor() {
     this.envName = getAppEnv();
-    this.config = loadConfig();
+    this.config = ConfigManager.getInstance().getConfig();
     this.logEnvironmentInfo();
   }
 
@@ -25,11 +84,17 @@ export class EnvironmentManager {
     logger.info('ENVIRONMENT CONFIGURATION');
     logger.info('='.repeat(60));
     logger.info(`Environment: ${this.config.name} (${this.config.group})`);
-    logger.info(`App URL: ${this.config.app.baseUrl}`);
+    Object.entries(this.config.apps).forEach(([appName, app]) => {
+      logger.info(`App URL [${appName}]: ${app.baseUrl}`);
+    });
     logger.info(`Database Type: ${isOnPremEnv() ? 'Oracle (On-Premise)' : 'PostgreSQL (Cloud)'}`);
-    logger.info(`Oracle Host: ${this.config.db.oracle.host}:${this.config.db.oracle.port}`);
-    logger.info(`PostgreSQL Host: ${this.config.db.postgres.host}:${this.config.db.postgres.port}`);
-    logger.info(`Certificate Origin: ${this.config.certs.client.origin}`);
+    const { oracle, postgres } = this.config.db;
+    const clientCert = this.config.certs.client;
+    logger.info(`Oracle Host: ${oracle ? `${oracle.host}:${oracle.port}` : 'not configured'}`);
+    logger.info(`PostgreSQL Host: ${postgres ? `${postgres.host}:${postgres.port}` : 'not configured'}`);
+    logger.info(`Certificate Origin: ${clientCert ? clientCert.origin : 'not configured'}`);
+    const enabledFeatures = Object.keys(this.config.features).filter(flag => this.config.features[flag]);
+    logger.info(`Enabled Features: ${enabledFeatures.length > 0 ? enabledFeatures.join(', ') : 'none'}`);
     logger.info('='.repeat(60));
   }
 
@@ -53,83 +118,143 @@ export class EnvironmentManager {
     return isCloudEnv();
   }
 
-  getAppUrl(): string {
-    return this.config.app.baseUrl;
+  // Application selection
+  setActiveApp(appName: string | null): void {
+    if (appName && !(appName in this.config.apps)) {
+      throw new Error(
+        `Unknown application: ${appName}. Applications configured for ${this.config.name}: ${this.getAppNames().join(', ')}`
+      );
+    }
+    this.activeApp = appName;
+    ConfigManager.getInstance().setActiveApp(appName);
   }
 
-  getAppCredentials(): { username: string; password: string } {
+  getActiveAppName(): string {
+    return this.activeApp || getDefaultAppName(this.config);
+  }
+
+  getAppNames(): string[] {
+    return Object.keys(this.config.apps);
+  }
+
+  getAppConfig(appName?: string): AppConfig {
+    return getAppConfig(this.config, appName || this.getActiveAppName());
+  }
+
+  getAppUrl(appName?: string): string {
+    return this.getAppConfig(appName).baseUrl;
+  }
+
+  getAppCredentials(appName?: string): { username: string; password: string } {
+    const app = this.getAppConfig(appName);
     return {
-      username: this.config.app.username,
-      password: this.config.app.password,
+      username: app.username,
+      password: app.password,
     };
   }
 
   getDatabaseConfig(): {
-    oracle: Config['db']['oracle'];
-    postgres: Config['db']['postgres'];
+    oracle?: OracleConfig;
+    postgres?: PostgresConfig;
   } {
+    assertSecretsResolved('db');
     return {
       oracle: this.config.db.oracle,
       postgres: this.config.db.postgres,
     };
   }
 
-  getCertificateConfig(): Config['certs']['client'] {
+  getCertificateConfig(): ClientCertConfig | undefined {
     return this.config.certs.client;
   }
 
-  // Environment-specific feature flags
-  isFeatureEnabled(featureName: string): boolean {
-    const featureFlags: Record<string, boolean> = {
-      // Development environment features
-      debugMode: this.config.group === 'dev',
-      verboseLogging: this.config.group === 'dev',
-      
-      // Test environment features
-      parallelExecution: this.config.group === 'test',
-      screenshotOnFailure: true,
-      videoRecording: this.config.group !== 'dev',
-      
-      // UAT environment features
-      performanceMonitoring: this.config.group === 'uat',
-      
-      // On-premise specific features
-      oracleDatabase: this.isOnPremise(),
-      clientCertificates: true,
-      
-      // Cloud specific features
-      postgresDatabase: this.isCloud(),
-      awsIntegration: this.isCloud(),
+  // Capability detection for optional infrastructure
+  hasOracle(): boolean {
+    return !!this.config.db.oracle;
+  }
+
+  hasPostgres(): boolean {
+    return !!this.config.db.postgres;
+  }
+
+  hasDatabase(): boolean {
+    return this.hasOracle() || this.hasPostgres();
+  }
+
+  hasClientCert(): boolean {
+    const clientCert = this.config.certs.client;
+    if (!clientCert) {
+      return false;
+    }
+
+    try {
+      PathUtils.validatePfxFile(clientCert.pfxPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getCapabilities(): EnvironmentCapabilities {
+    return {
+      hasOracle: this.hasOracle(),
+      hasPostgres: this.hasPostgres(),
+      hasDatabase: this.hasDatabase(),
+      hasClientCert: this.hasClientCert(),
     };
+  }
 
-    return featureFlags[featureName] || false;
+  // Environment-specific feature flags (features section, group defaults in <group>/_base.json)
+  isFeatureEnabled(featureName: string): boolean {
+    return this.config.features[featureName] ?? false;
   }
 
-  // Environment-specific timeouts
-  getTimeouts(): {
-    navigation: number;
-    action: number;
-    assertion: number;
-    api: number;
-    database: number;
-  } {
-    const baseTimeouts = {
+  isFeatureDefined(featureName: string): boolean {
+    return featureName in this.config.features;
+  }
+
+  getFeatureFlags(): Record<string, boolean> {
+    return { ...this.config.features };
+  }
+
+  // Video recording (video section, defaults to the videoRecording feature flag)
+  getVideoSettings(): VideoSettings {
+    const { mode, size } = this.config.video;
+    return {
+      mode: mode ?? (this.isFeatureEnabled('videoRecording') ? 'retain-on-failure' : 'off'),
+      size,
+    };
+  }
+
+  // Environment-specific timeouts (group defaults, overridden by the timeouts section, scaled by the multiplier)
+  getTimeouts(): EnvironmentTimeouts {
+    const { multiplier: multiplierOverride, ...overrides } = this.config.timeouts;
+    const baseTimeouts: EnvironmentTimeouts = {
+      step: 60000,
       navigation: 30000,
       action: 10000,
-      assertion: 5000,
-      api: 15000,
+      wait: 30000,
+      assertion: 10000,
+      api: 30000,
       database: 30000,
+      cleanup: 10000,
+      ...overrides,
     };
 
     // Adjust timeouts based on environment
-    const multiplier = this.getTimeoutMultiplier();
+    const multiplier = multiplierOverride ?? this.getTimeoutMultiplier();
+    
+    const scale = (timeout: number): number => Math.round(timeout * multiplier);
     
     return {
-      navigation: baseTimeouts.navigation * multiplier,
-      action: baseTimeouts.action * multiplier,
-      assertion: baseTimeouts.assertion * multiplier,
-      api: baseTimeouts.api * multiplier,
-      database: baseTimeouts.database * multiplier,
+      step: scale(baseTimeouts.step),
+      navigation: scale(baseTimeouts.navigation),
+      action: scale(baseTimeouts.action),
+      wait: scale(baseTimeouts.wait),
+      assertion: scale(baseTimeouts.assertion),
+      api: scale(baseTimeouts.api),
+      database: scale(baseTimeouts.database),
+      cleanup: scale(baseTimeouts.cleanup),
     };
   }
 
@@ -144,16 +269,16 @@ export class EnvironmentManager {
       case 'onprem':
         return 2.0; // Longer for on-premise networks
       default:
-        return 1.0;
+        return 1.0; // Other groups, e.g. sandboxes, use the test defaults
     }
   }
 
-  // Environment-specific retry settings
-  getRetrySettings(): {
-    maxRetries: number;
-    retryDelay: number;
-    exponentialBackoff: boolean;
-  } {
+  // Environment-specific retry settings (group defaults, overridden by the retry section)
+  getRetrySettings(): RetrySettings {
+    return { ...this.getGroupRetrySettings(), ...this.config.retry };
+  }
+
+  private getGroupRetrySettings(): RetrySettings {
     switch (this.config.group) {
       case 'dev':
         return {
@@ -193,27 +318,25 @@ export class EnvironmentManager {
     const errors: string[] = [];
 
     // Validate app configuration
-    if (!this.config.app.baseUrl) {
-      errors.push('App base URL is not configured');
-    }
+    Object.entries(this.config.apps).forEach(([appName, app]) => {
+      if (!app.baseUrl) {
+        errors.push(`App base URL is not configured for ${appName}`);
+      }
+    });
 
-    if (!this.config.app.username || !this.config.app.password) {
-      errors.push('App credentials are not configured');
+    // Validate optional database configuration, only when configured
+    const { oracle, postgres } = this.config.db;
+    if (oracle && (!oracle.host || !oracle.user)) {
+      errors.push('Oracle database configuration is incomplete');
     }
 
-    // Validate database configuration
-    if (this.isOnPremise()) {
-      if (!this.config.db.oracle.host || !this.config.db.oracle.user) {
-        errors.push('Oracle database configuration is incomplete');
-      }
-    } else {
-      if (!this.config.db.postgres.host || !this.config.db.postgres.user) {
-        errors.push('PostgreSQL database configuration is incomplete');
-      }
+    if (postgres && (!postgres.host || !postgres.user)) {
+      errors.push('PostgreSQL database configuration is incomplete');
     }
 
-    // Validate certificate configuration
-    if (!this.config.certs.client.pfxPath || !this.config.certs.client.passphrase) {
+    // Validate optional certificate configuration, only when configured
+    const clientCert = this.config.certs.client;
+    if (clientCert && (!clientCert.pfxPath || !clientCert.passphrase)) {
       errors.push('Client certificate configuration is incomplete');
     }
 
@@ -223,17 +346,19 @@ export class EnvironmentManager {
     };
   }
 
-  // Get environment-specific test tags
+  // Get environment-specific test tags (database tags only for configured databases)
   getEnvironmentTags(): string[] {
     const tags = [
       `@${this.config.group}`,
       `@${this.envName.toLowerCase()}`,
+      this.isOnPremise() ? '@onprem' : '@cloud',
     ];
 
-    if (this.isOnPremise()) {
-      tags.push('@onprem', '@oracle');
-    } else {
-      tags.push('@cloud', '@postgres');
+    if (this.hasOracle()) {
+      tags.push('@oracle');
+    }
+    if (this.hasPostgres()) {
+      tags.push('@postgres');
     }
 
     return tags;
@@ -271,10 +396,26 @@ export function isFeatureEnabled(featureName: string): boolean {
   return getEnvironment().isFeatureEnabled(featureName);
 }
 
-export function getEnvironmentTimeouts() {
+export function setActiveApp(appName: string | null): void {
+  getEnvironment().setActiveApp(appName);
+}
+
+export function getEnvironmentCapabilities(): EnvironmentCapabilities {
+  return getEnvironment().getCapabilities();
+}
+
+export function getEnvironmentTimeouts(): EnvironmentTimeouts {
   return getEnvironment().getTimeouts();
 }
 
+export function getEnvironmentRetrySettings(): RetrySettings {
+  return getEnvironment().getRetrySettings();
+}
+
+export function getEnvironmentVideoSettings(): VideoSettings {
+  return getEnvironment().getVideoSettings();
+}
+
 export function validateCurrentEnvironment() {
   return getEnvironment().validateEnvironment();
 }
\ No newline at end of file
@@ -0,0 +1,202 @@
+/**
+ * Scenario Result History Test Suite
+ *
+ * Validates error grouping, flakiness statistics and tag suggestions.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import {
+  computeFlakiness,
+  getErrorSignature,
+  suggestTag,
+  type FlakinessStats,
+  type HistoryEntry,
+  type ScenarioOutcome,
+} from './flakyHistory';
+
+/**
+ * Builds a history entry of a scenario
+ * @param scenarioId - Scenario identifier
+ * @param outcome - Final outcome
+ * @param overrides - Other fields to set
+ * @returns History entry
+ */
+function entry(
+  scenarioId: string,
+  outcome: ScenarioOutcome,
+  overrides: Partial<HistoryEntry> = {}
+): HistoryEntry {
+  const [uri, line] = scenarioId.split(':');
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    environment: 'T5',
+    scenarioId,
+    name: `Scenario at line ${line}`,
+    uri,
+    line: Number(line),
+    scenarioLine: Number(line),
+    tags: [],
+    outcome,
+    attempts: outcome === 'retried-pass' ? 2 : 1,
+    duration: 100,
+    quarantined: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Builds flakiness statistics with a rate and tags
+ * @param flakinessRate - Flakiness rate
+ * @param tags - Scenario tags
+ * @returns Flakiness statistics
+ */
+function stats(flakinessRate: number, tags: string[] = []): FlakinessStats {
+  return {
+    scenarioId: 'a.feature:3',
+    name: 'A',
+    uri: 'a.feature',
+    line: 3,
+    scenarioLine: 3,
+    tags,
+    runs: 10,
+    passes: 0,
+    fails: 0,
+    retriedPasses: 0,
+    flakinessRate,
+  };
+}
+
+describe('Scenario Result History', () => {
+  describe('getErrorSignature', () => {
+    test('should group errors differing only in numbers, quoted values and URLs', () => {
+      const first = getErrorSignature(
+        'TimeoutError: locator.click: Timeout 10000ms exceeded waiting for "#item-42" at https://shop.test/cart?id=1'
+      );
+      const second = getErrorSignature(
+        "TimeoutError: locator.click: Timeout 15000ms exceeded waiting for '#item-7' at https://shop.test/cart?id=9"
+      );
+
+      expect(first).toBe(
+        'TimeoutError: locator.click: Timeout Nms exceeded waiting for <value> at <url>'
+      );
+      expect(second).toBe(first);
+    });
+
+    test('should use the first non-empty line without colour codes', () => {
+      expect(
+        getErrorSignature('\n\u001b[31mError:   expected  true\u001b[39m\n    at step.ts:12')
+      ).toBe('Error: expected true');
+    });
+
+    test('should cap the signature length', () => {
+      expect(getErrorSignature('x'.repeat(500))).toHaveLength(200);
+    });
+  });
+
+  describe('computeFlakiness', () => {
+    test('should count outcomes per scenario and rate retried passes as flaky', () => {
+      const [result] = computeFlakiness(
+        [
+          entry('a.feature:3', 'pass'),
+          entry('a.feature:3', 'retried-pass', { errorSignature: 'Error: N' }),
+          entry('a.feature:3', 'pass'),
+          entry('a.feature:3', 'pass'),
+        ],
+        10
+      );
+
+      expect(result).toMatchObject({
+        scenarioId: 'a.feature:3',
+        runs: 4,
+        passes: 3,
+        retriedPasses: 1,
+        fails: 0,
+        flakinessRate: 0.25,
+        topErrorSignature: 'Error: N',
+      });
+    });
+
+    test('should rate failures as flaky only when the scenario also passes', () => {
+      const results = computeFlakiness(
+        [
+          entry('a.feature:3', 'pass'),
+          entry('a.feature:3', 'fail'),
+          entry('b.feature:5', 'fail'),
+          entry('b.feature:5', 'fail'),
+        ],
+        10
+      );
+
+      expect(results.map(result => [result.scenarioId, result.flakinessRate])).toEqual([
+        ['a.feature:3', 0.5],
+        ['b.feature:5', 0],
+      ]);
+    });
+
+    test('should analyse only the most recent runs of each scenario', () => {
+      const [result] = computeFlakiness(
+        [
+          entry('a.feature:3', 'fail'),
+          entry('a.feature:3', 'fail'),
+          entry('a.feature:3', 'pass'),
+          entry('a.feature:3', 'pass'),
+        ],
+        2
+      );
+
+      expect(result).toMatchObject({ runs: 2, passes: 2, fails: 0, flakinessRate: 0 });
+    });
+
+    test('should keep outline example rows apart and report the latest tags', () => {
+      const examples = { line: 10, rows: 2 };
+      const results = computeFlakiness(
+        [
+          entry('a.feature:12', 'fail', { scenarioLine: 3, examples }),
+          entry('a.feature:12', 'pass', { scenarioLine: 3, examples, tags: ['@flaky'] }),
+          entry('a.feature:13', 'pass', { scenarioLine: 3, examples }),
+        ],
+        10
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        scenarioId: 'a.feature:12',
+        line: 12,
+        scenarioLine: 3,
+        examples,
+        tags: ['@flaky'],
+        flakinessRate: 0.5,
+      });
+    });
+
+    test('should fall back to the line for entries without a scenario line', () => {
+      const legacy = entry('a.feature:3', 'pass');
+      delete (legacy as Partial<HistoryEntry>).scenarioLine;
+
+      expect(computeFlakiness([legacy], 10)[0].scenarioLine).toBe(3);
+    });
+  });
+
+  describe('suggestTag', () => {
+    const thresholds = { flaky: 0.1, quarantine: 0.3 };
+
+    test('should suggest @flaky and @quarantine by flakiness rate', () => {
+      expect(suggestTag(stats(0.05), thresholds)).toBeNull();
+      expect(suggestTag(stats(0.1), thresholds)).toBe('@flaky');
+      expect(suggestTag(stats(0.3), thresholds)).toBe('@quarantine');
+    });
+
+    test('should not suggest a tag the scenario already has', () => {
+      expect(suggestTag(stats(0.2, ['@flaky']), thresholds)).toBeNull();
+      expect(suggestTag(stats(0.5, ['@flaky']), thresholds)).toBe('@quarantine');
+      expect(suggestTag(stats(0.5, ['@quarantine']), thresholds)).toBeNull();
+    });
+
+    test('should not suggest anything for stable or quarantined scenarios', () => {
+      expect(suggestTag(stats(0), { flaky: 0, quarantine: 0 })).toBeNull();
+      expect(suggestTag(stats(0.2, ['@quarantine']), thresholds)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Scenario Result History Module
+ *
+ * This module appends the final outcome of every scenario to a local history
+ * store (test-results/history/results.jsonl) and analyses it for flakiness:
+ * - pass          - passed on the first attempt
+ * - fail          - failed on every attempt
+ * - retried-pass  - failed, then passed on a retry
+ *
+ * A scenario is flaky when it passes only after retries or both passes and
+ * fails across recent runs. Scenarios failing on every run are broken, not
+ * flaky, and never suggested for @flaky or @quarantine.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ITestCaseHookParameter } from '@cucumber/cucumber';
+import { logger } from '../../utils/logger';
+import { PathUtils } from '../../utils/paths';
+
+/** Tag of scenarios retried on failure (cucumber.cjs retryTagFilter) */
+export const FLAKY_TAG = '@flaky';
+
+/** Tag of scenarios excluded from the main run and run separately without failing the build */
+export const QUARANTINE_TAG = '@quarantine';
+
+/** History file name inside the history directory */
+const HISTORY_FILE = 'results.jsonl';
+
+/** Maximum length of an error signature */
+const MAX_SIGNATURE_LENGTH = 200;
+
+/**
+ * Final outcome of a scenario in one run
+ */
+export type ScenarioOutcome = 'pass' | 'fail' | 'retried-pass';
+
+/**
+ * Examples block of a Scenario Outline
+ */
+export interface ExamplesBlock {
+  /** Line of the Examples keyword */
+  line: number;
+  /** Number of example rows in the block */
+  rows: number;
+}
+
+/**
+ * One scenario result in the history store
+ */
+export interface HistoryEntry {
+  /** ISO timestamp of the result */
+  timestamp: string;
+  /** Environment name */
+  environment: string;
+  /** Stable scenario identifier: feature path and line, one per Scenario Outline example row */
+  scenarioId: string;
+  /** Scenario name */
+  name: string;
+  /** Feature file path relative to the project root */
+  uri: string;
+  /** Line of the scenario, or of the example row for Scenario Outline examples */
+  line: number;
+  /** Line of the Scenario (Outline) keyword in the feature file */
+  scenarioLine: number;
+  /** Examples block holding the example row, for Scenario Outline examples */
+  examples?: ExamplesBlock;
+  /** Tag names of the scenario, feature tags included */
+  tags: string[];
+  /** Final outcome */
+  outcome: ScenarioOutcome;
+  /** Number of attempts, retries included */
+  attempts: number;
+  /** Duration of the final attempt in milliseconds */
+  duration: number;
+  /** Normalized first line of the last error (of a retried attempt for retried-pass), for grouping */
+  errorSignature?: string;
+  /** Whether the scenario was quarantined when it ran */
+  quarantined: boolean;
+}
+
+/**
+ * Flakiness statistics of one scenario over the analysed window
+ */
+export interface FlakinessStats {
+  scenarioId: string;
+  name: string;
+  uri: string;
+  line: number;
+  scenarioLine: number;
+  examples?: ExamplesBlock;
+  /** Tags of the most recent run */
+  tags: string[];
+  runs: number;
+  passes: number;
+  fails: number;
+  retriedPasses: number;
+  /** Share of runs showing non-deterministic behaviour, 0 to 1 */
+  flakinessRate: number;
+  /** Most frequent error signature of the failed attempts */
+  topErrorSignature?: string;
+}
+
+/** Failed attempts of scenarios that will be retried and their last error, keyed by pickle id */
+const failedAttempts: Map<string, { count: number; errorSignature: string }> = new Map();
+
+/**
+ * Final result of the last scenario, written once its next attempt or the end of the run shows
+ * Cucumber does not retry it (a failure raised by the After hook itself is retried too)
+ */
+let pendingResult: { pickleId: string; entry: HistoryEntry } | null = null;
+
+/**
+ * Gets the path of the history store
+ * @returns Absolute path to test-results/history/results.jsonl
+ */
+export function getHistoryFilePath(): string {
+  return path.join(PathUtils.getHistoryPath(), HISTORY_FILE);
+}
+
+/**
+ * Normalizes an error message so the same failure groups across runs
+ * Numbers, quoted values and URLs are replaced, so timings and ids do not split groups.
+ * @param message - Error message
+ * @returns Error signature
+ */
+export function getErrorSignature(message: string): string {
+  const firstLine = message.split('\n').find(line => line.trim().length > 0) || '';
+  return firstLine
+    .replace(/\u001b\[[0-9;]*m/g, '')
+    .replace(/https?:\/\/\S+/g, '<url>')
+    .replace(/(["'`]).*?\1/g, '<value>')
+    .replace(/\d+(\.\d+)?/g, 'N')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, MAX_SIGNATURE_LENGTH);
+}
+
+/**
+ * Locates a pickle in its feature file
+ * @param scenario - Cucumber hook parameter
+ * @returns Line of the scenario or example row, line of the Scenario (Outline) keyword and,
+ *   for Scenario Outline examples, the Examples block of the row; lines are 0 if not found
+ */
+function getScenarioLocation(scenario: ITestCaseHookParameter): {
+  line: number;
+  scenarioLine: number;
+  examples?: ExamplesBlock;
+} {
+  const [astNodeId, ...rowIds] = scenario.pickle.astNodeIds;
+  const children = scenario.gherkinDocument.feature?.children ?? [];
+  const scenarios = children.flatMap(child => [
+    ...(child.scenario ? [child.scenario] : []),
+    ...(child.rule?.children ?? []).flatMap(ruleChild =>
+      ruleChild.scenario ? [ruleChild.scenario] : []
+    ),
+  ]);
+  const gherkinScenario = scenarios.find(candidate => candidate.id === astNodeId);
+  const scenarioLine = gherkinScenario?.location.line ?? 0;
+
+  // Example rows come last in the AST node ids of an outline's pickles
+  const rowId = rowIds[rowIds.length - 1];
+  for (const examples of rowId ? (gherkinScenario?.examples ?? []) : []) {
+    const row = examples.tableBody.find(candidate => candidate.id === rowId);
+    if (row) {
+      return {
+        line: row.location.line,
+        scenarioLine,
+        examples: { line: examples.location.line, rows: examples.tableBody.length },
+      };
+    }
+  }
+  return { line: scenarioLine, scenarioLine };
+}
+
+/**
+ * Appends a history entry to the history store
+ * @param entry - History entry
+ */
+function appendEntry(entry: HistoryEntry): void {
+  try {
+    PathUtils.ensureDirectoryExists(PathUtils.getHistoryPath());
+    // One short line per append, so parallel workers do not interleave entries
+    fs.appendFileSync(getHistoryFilePath(), `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    logger.warn(`Failed to record scenario result in the history: ${error}`);
+  }
+}
+
+/**
+ * Writes the pending final result of the last scenario to the history
+ */
+export function flushScenarioResults(): void {
+  if (pendingResult) {
+    appendEntry(pendingResult.entry);
+    pendingResult = null;
+  }
+}
+
+/**
+ * Marks the start of a scenario attempt
+ * A new attempt of the pending scenario means Cucumber retried it after a failure raised by the
+ * After hook; the pending result then counts as a failed attempt instead of the final one.
+ * Any other scenario starting means the pending result is final and is written.
+ * @param pickleId - Pickle id of the starting scenario
+ */
+export function beginScenarioAttempt(pickleId: string): void {
+  if (pendingResult?.pickleId === pickleId) {
+    const { entry } = pendingResult;
+    failedAttempts.set(pickleId, {
+      count: entry.attempts,
+      errorSignature: entry.errorSignature ?? '',
+    });
+    pendingResult = null;
+    return;
+  }
+  flushScenarioResults();
+}
+
+/**
+ * Records the result of a scenario attempt
+ * Attempts that will be retried are only counted; the final attempt is appended to the history
+ * once the next scenario starts or the run ends (see beginScenarioAttempt).
+ * Only passed and failed scenarios are recorded.
+ * @param scenario - Cucumber hook parameter of the After hook
+ * @param environment - Environment name
+ * @param duration - Duration of the attempt in milliseconds
+ * @param failureMessage - Failure raised by the After hook itself (e.g. browser errors), if any
+ */
+export function recordScenarioResult(
+  scenario: ITestCaseHookParameter,
+  environment: string,
+  duration: number,
+  failureMessage?: string
+): void {
+  const pickleId = scenario.pickle.id;
+  const failed = scenario.result?.status === 'FAILED' || failureMessage !== undefined;
+  const errorSignature = failed
+    ? getErrorSignature(scenario.result?.message || failureMessage || '')
+    : undefined;
+
+  if (scenario.willBeRetried) {
+    const count = (failedAttempts.get(pickleId)?.count ?? 0) + 1;
+    failedAttempts.set(pickleId, { count, errorSignature: errorSignature ?? '' });
+    return;
+  }
+  if (!failed && scenario.result?.status !== 'PASSED') {
+    return;
+  }
+
+  const previous = failedAttempts.get(pickleId);
+  const retries = previous?.count ?? 0;
+  failedAttempts.delete(pickleId);
+
+  const tags = scenario.pickle.tags.map(tag => tag.name);
+  const location = getScenarioLocation(scenario);
+  flushScenarioResults();
+  pendingResult = {
+    pickleId,
+    entry: {
+      timestamp: new Date().toISOString(),
+      environment,
+      scenarioId: `${scenario.pickle.uri}:${location.line}`,
+      name: scenario.pickle.name,
+      uri: scenario.pickle.uri,
+      ...location,
+      tags,
+      outcome: failed ? 'fail' : retries > 0 ? 'retried-pass' : 'pass',
+      attempts: retries + 1,
+      duration,
+      errorSignature: errorSignature ?? previous?.errorSignature,
+      quarantined: tags.includes(QUARANTINE_TAG),
+    },
+  };
+}
+
+/**
+ * Reads the history store
+ * Unreadable lines are skipped.
+ * @param filePath - History file, defaults to the standard location
+ * @returns History entries, oldest first
+ */
+export function readHistory(filePath: string = getHistoryFilePath()): HistoryEntry[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as HistoryEntry];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Computes the flakiness of every scenario over its most recent runs
+ * @param entries - History entries, oldest first
+ * @param window - Number of most recent runs analysed per scenario
+ * @returns Statistics per scenario, most flaky first
+ */
+export function computeFlakiness(entries: HistoryEntry[], window: number): FlakinessStats[] {
+  const byScenario: Map<string, HistoryEntry[]> = new Map();
+  for (const entry of entries) {
+    byScenario.set(entry.scenarioId, [...(byScenario.get(entry.scenarioId) ?? []), entry]);
+  }
+
+  const stats = Array.from(byScenario.values()).map(all => {
+    const recent = all.slice(-window);
+    const latest = recent[recent.length - 1];
+    const passes = recent.filter(entry => entry.outcome === 'pass').length;
+    const fails = recent.filter(entry => entry.outcome === 'fail').length;
+    const retriedPasses = recent.filter(entry => entry.outcome === 'retried-pass').length;
+
+    // Failures only count as flaky when the scenario also passes; always failing is broken
+    const flakyRuns = retriedPasses + (passes + retriedPasses > 0 ? fails : 0);
+
+    const signatures: Map<string, number> = new Map();
+    for (const { errorSignature } of recent) {
+      if (errorSignature) {
+        signatures.set(errorSignature, (signatures.get(errorSignature) ?? 0) + 1);
+      }
+    }
+    const topErrorSignature = Array.from(signatures.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    return {
+      scenarioId: latest.scenarioId,
+      name: latest.name,
+      uri: latest.uri,
+      line: latest.line,
+      // Entries recorded before outline rows were located only know the scenario line
+      scenarioLine: latest.scenarioLine ?? latest.line,
+      examples: latest.examples,
+      tags: latest.tags,
+      runs: recent.length,
+      passes,
+      fails,
+      retriedPasses,
+      flakinessRate: flakyRuns / recent.length,
+      topErrorSignature,
+    };
+  });
+
+  return stats.sort(
+    (a, b) => b.flakinessRate - a.flakinessRate || a.scenarioId.localeCompare(b.scenarioId)
+  );
+}
+
+/**
+ * Suggests the tag a scenario should carry given its flakiness
+ * @param stats - Flakiness statistics of the scenario
+ * @param thresholds - Minimum flakiness rates for @flaky and @quarantine
+ * @returns Tag missing from the scenario, or null if none is needed
+ */
+export function suggestTag(
+  stats: FlakinessStats,
+  thresholds: { flaky: number; quarantine: number }
+): string | null {
+  if (stats.flakinessRate === 0 || stats.tags.includes(QUARANTINE_TAG)) {
+    return null;
+  }
+
+  const tag =
+    stats.flakinessRate >= thresholds.quarantine
+      ? QUARANTINE_TAG
+      : stats.flakinessRate >= thresholds.flaky
+        ? FLAKY_TAG
+        : null;
+  return tag && !stats.tags.includes(tag) ? tag : null;
+}
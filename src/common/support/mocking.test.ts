@@ -0,0 +1,85 @@
+/**
+ * Network Mocking Test Suite
+ *
+ * Validates request specification parsing and URL glob matching.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { blockRoute, matchesRequest, matchesUrl, parseRequestSpec, statusRoute } from './mocking';
+
+describe('Network Mocking', () => {
+  describe('parseRequestSpec', () => {
+    test('should split the method from the URL pattern', () => {
+      expect(parseRequestSpec(' post  /api/order ')).toEqual({
+        method: 'POST',
+        urlPattern: '/api/order',
+      });
+    });
+
+    test('should match any method without one', () => {
+      expect(parseRequestSpec('**/analytics/**')).toEqual({
+        method: null,
+        urlPattern: '**/analytics/**',
+      });
+    });
+
+    test('should not mistake a path starting with a method name for a method', () => {
+      expect(parseRequestSpec('/GET/items')).toEqual({ method: null, urlPattern: '/GET/items' });
+    });
+  });
+
+  describe('matchesUrl', () => {
+    test('should match path patterns against the path only', () => {
+      expect(matchesUrl('https://shop.test/api/cart?id=1', '/api/cart')).toBe(true);
+      expect(matchesUrl('https://shop.test/api/cart/items', '/api/cart')).toBe(false);
+    });
+
+    test('should keep * within one path segment', () => {
+      expect(matchesUrl('https://shop.test/api/cart/42', '/api/cart/*')).toBe(true);
+      expect(matchesUrl('https://shop.test/api/cart/42/items', '/api/cart/*')).toBe(false);
+    });
+
+    test('should let ** cross path segments', () => {
+      expect(matchesUrl('https://cdn.test/v1/analytics/track.js', '**/analytics/**')).toBe(true);
+      expect(matchesUrl('https://cdn.test/v1/metrics/track.js', '**/analytics/**')).toBe(false);
+    });
+
+    test('should treat regular expression characters literally', () => {
+      expect(matchesUrl('https://shop.test/api/v1.0/items', '/api/v1.0/items')).toBe(true);
+      expect(matchesUrl('https://shop.test/api/v1x0/items', '/api/v1.0/items')).toBe(false);
+      expect(matchesUrl('https://shop.test/search?q=(a)', 'https://shop.test/search?q=(a)')).toBe(
+        true
+      );
+    });
+  });
+
+  describe('matchesRequest', () => {
+    test('should compare methods case-insensitively', () => {
+      const matcher = parseRequestSpec('GET /api/cart');
+
+      expect(matchesRequest({ method: 'get', url: 'https://shop.test/api/cart' }, matcher)).toBe(
+        true
+      );
+      expect(matchesRequest({ method: 'POST', url: 'https://shop.test/api/cart' }, matcher)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('route builders', () => {
+    test('should build status and block routes from a specification', () => {
+      expect(statusRoute('DELETE /api/cart', 204)).toEqual({
+        description: 'DELETE /api/cart -> 204',
+        matcher: { method: 'DELETE', urlPattern: '/api/cart' },
+        action: { type: 'fulfill', status: 204, body: '', contentType: 'text/plain' },
+      });
+      expect(blockRoute('**/ads/**')).toEqual({
+        description: '**/ads/** -> blocked',
+        matcher: { method: null, urlPattern: '**/ads/**' },
+        action: { type: 'abort' },
+      });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Network Mocking Module
+ *
+ * This module lets scenarios replace backend responses and block requests in
+ * the browser, so UI scenarios can run deterministically without the real
+ * backend, and records every request the pages make for later assertions.
+ *
+ * Request specifications used by the steps:
+ * - "GET /api/cart"       - method and path (query strings are ignored)
+ * - "/api/cart"           - any method
+ * - "**\/analytics/**"     - glob matched against the full URL (`*` within a segment, `**` across)
+ *
+ * Response fixtures are resolved through DataProvider under test-data/fixtures/.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as path from 'path';
+import { BrowserContext, Page } from '@playwright/test';
+import { DataProvider } from '../../utils/DataProvider';
+import { logger } from '../../utils/logger';
+
+/** Directory of response fixtures, relative to the DataProvider data directory */
+const FIXTURES_DIRECTORY = 'fixtures';
+
+/** Maximum number of requests kept per scenario */
+const MAX_RECORDED_REQUESTS = 500;
+
+/** HTTP methods recognized at the start of a request specification */
+const METHOD_PATTERN = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(.+)$/i;
+
+/**
+ * Request matcher parsed from a specification such as "POST /api/order"
+ */
+export interface RequestMatcher {
+  /** Upper-case HTTP method, or null to match any method */
+  method: string | null;
+  /** Path (starting with /) or full URL glob */
+  urlPattern: string;
+}
+
+/**
+ * Response of a mocked route
+ */
+export type MockAction =
+  | { type: 'fulfill'; status: number; body: string; contentType: string }
+  | { type: 'abort' };
+
+/**
+ * A route registered by a scenario
+ */
+export interface MockRoute {
+  /** Request specification, used in logs */
+  description: string;
+  /** Requests the route applies to */
+  matcher: RequestMatcher;
+  /** What the route does with matching requests */
+  action: MockAction;
+}
+
+/**
+ * A request made by a page during the scenario
+ */
+export interface RecordedRequest {
+  /** HTTP method */
+  method: string;
+  /** Full request URL */
+  url: string;
+  /** Request body, or null for requests without one */
+  body: string | null;
+}
+
+/**
+ * Parses a request specification
+ * @param spec - e.g. "GET /api/cart", "/api/cart" or "**\/analytics/**"
+ * @returns Request matcher
+ */
+export function parseRequestSpec(spec: string): RequestMatcher {
+  const match = METHOD_PATTERN.exec(spec.trim());
+  return match
+    ? { method: match[1].toUpperCase(), urlPattern: match[2].trim() }
+    : { method: null, urlPattern: spec.trim() };
+}
+
+/**
+ * Converts a URL glob into a regular expression
+ * @param glob - Glob where `**` matches anything and `*` anything but a slash
+ * @returns Anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks whether a URL matches a URL pattern
+ * Patterns starting with / are matched against the path, others against the full URL.
+ * @param url - Request URL
+ * @param urlPattern - Path or full URL glob
+ * @returns True if the URL matches
+ */
+export function matchesUrl(url: string, urlPattern: string): boolean {
+  const target = urlPattern.startsWith('/') ? new URL(url).pathname : url;
+  return globToRegExp(urlPattern).test(target);
+}
+
+/**
+ * Checks whether a request matches a matcher
+ * @param request - Request method and URL
+ * @param matcher - Request matcher
+ * @returns True if the request matches
+ */
+export function matchesRequest(
+  request: { method: string; url: string },
+  matcher: RequestMatcher
+): boolean {
+  if (matcher.method && request.method.toUpperCase() !== matcher.method) {
+    return false;
+  }
+  return matchesUrl(request.url, matcher.urlPattern);
+}
+
+/**
+ * Builds a route fulfilling matching requests with a fixture
+ * @param spec - Request specification
+ * @param fixture - Fixture file under test-data/fixtures/ (.json, .yaml/.yml or .csv)
+ * @param status - Response status
+ * @returns Mock route
+ */
+export async function fixtureRoute(
+  spec: string,
+  fixture: string,
+  status: number
+): Promise<MockRoute> {
+  const dataProvider = DataProvider.getInstance();
+  const fixturePath = path.join(FIXTURES_DIRECTORY, fixture);
+  const extension = path.extname(fixture).toLowerCase();
+
+  let data: unknown;
+  switch (extension) {
+    case '.yaml':
+    case '.yml':
+      data = await dataProvider.loadYAML(fixturePath);
+      break;
+    case '.csv':
+      data = await dataProvider.loadCSV(fixturePath);
+      break;
+    default:
+      data = await dataProvider.loadJSON(fixturePath);
+  }
+
+  return {
+    description: `${spec} -> ${status} ${fixture}`,
+    matcher: parseRequestSpec(spec),
+    action: {
+      type: 'fulfill',
+      status,
+      body: JSON.stringify(data),
+      contentType: 'application/json',
+    },
+  };
+}
+
+/**
+ * Builds a route answering matching requests with an empty response
+ * @param spec - Request specification
+ * @param status - Response status
+ * @returns Mock route
+ */
+export function statusRoute(spec: string, status: number): MockRoute {
+  return {
+    description: `${spec} -> ${status}`,
+    matcher: parseRequestSpec(spec),
+    action: { type: 'fulfill', status, body: '', contentType: 'text/plain' },
+  };
+}
+
+/**
+ * Builds a route aborting matching requests
+ * @param spec - Request specification
+ * @returns Mock route
+ */
+export function blockRoute(spec: string): MockRoute {
+  return {
+    description: `${spec} -> blocked`,
+    matcher: parseRequestSpec(spec),
+    action: { type: 'abort' },
+  };
+}
+
+/**
+ * Registers a mock route on a browser context
+ * Routes registered later take precedence over earlier ones.
+ * @param context - Browser context
+ * @param mock - Mock route
+ */
+export async function applyMockRoute(context: BrowserContext, mock: MockRoute): Promise<void> {
+  await context.route(
+    url => matchesUrl(url.href, mock.matcher.urlPattern),
+    async route => {
+      const request = route.request();
+      if (!matchesRequest({ method: request.method(), url: request.url() }, mock.matcher)) {
+        await route.fallback();
+        return;
+      }
+
+      logger.debug(`Mocked request: ${request.method()} ${request.url()} (${mock.description})`);
+      if (mock.action.type === 'abort') {
+        await route.abort('blockedbyclient');
+      } else {
+        await route.fulfill({
+          status: mock.action.status,
+          body: mock.action.body,
+          contentType: mock.action.contentType,
+        });
+      }
+    }
+  );
+}
+
+/**
+ * Records the requests of a page into a request log
+ * Only the most recent requests are kept to bound memory use.
+ * @param page - Page to observe
+ * @param requests - Request log to append to (mutated)
+ */
+export function recordRequests(page: Page, requests: RecordedRequest[]): void {
+  page.on('request', request => {
+    requests.push({ method: request.method(), url: request.url(), body: request.postData() });
+    if (requests.length > MAX_RECORDED_REQUESTS) {
+      requests.shift();
+    }
+  });
+}
@@ -0,0 +1,221 @@
+/**
+ * Network Capture Module
+ *
+ * This module records the network traffic of a scenario's pages and turns it
+ * into a compact summary attached to the report when a scenario fails, so
+ * backend errors behind UI failures are visible without opening a HAR file.
+ * Credentials and sensitive query parameters are masked in the recorded URLs.
+ *
+ * Also builds the Playwright `recordHar` options from the `har` config section:
+ * - mode: off (default), on, retain-on-failure
+ * - content: omit (default), embed, attach (bodies stored next to the HAR in a .zip)
+ * - urlFilters: regular expressions limiting the recorded requests
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as path from 'path';
+import { Page, Request, BrowserContextOptions } from '@playwright/test';
+import { logger } from '../../utils/logger';
+import { PathUtils } from '../../utils/paths';
+import type { HarConfig } from '../../../config/schema';
+
+/** Maximum number of requests kept per scenario */
+const MAX_NETWORK_ENTRIES = 500;
+
+/** Maximum URL length shown in the summary */
+const MAX_URL_LENGTH = 120;
+
+/** Replacement shown for sensitive URL parts */
+const MASK = '********';
+
+/** Query parameters whose values are never logged */
+const SENSITIVE_PARAM_PATTERN =
+  /(password|passwd|secret|token|apikey|api_key|^auth|session|signature|^sig$|^key$|^code$)/i;
+
+/**
+ * A single request observed during a scenario
+ */
+export interface NetworkEntry {
+  /** Request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Response status, or null if no response was received */
+  status: number | null;
+  /** Time from request start to response end in milliseconds, or null if unknown */
+  duration: number | null;
+  /** Response body size in bytes, or null if unknown */
+  size: number | null;
+  /** Network error text of failed requests */
+  failure?: string;
+}
+
+/**
+ * Checks whether a request failed (network error or 4xx/5xx response)
+ * @param entry - Network entry
+ * @returns True if the request failed
+ */
+export function isFailedRequest(entry: NetworkEntry): boolean {
+  return entry.failure !== undefined || (entry.status !== null && entry.status >= 400);
+}
+
+/**
+ * Masks the credentials and sensitive query parameter values of a URL
+ * @param url - Request URL
+ * @returns URL safe to log, unchanged if it cannot be parsed
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  let redacted = false;
+  if (parsed.username || parsed.password) {
+    parsed.username = MASK;
+    parsed.password = '';
+    redacted = true;
+  }
+  for (const name of new Set(parsed.searchParams.keys())) {
+    if (SENSITIVE_PARAM_PATTERN.test(name) && parsed.searchParams.get(name) !== '') {
+      parsed.searchParams.set(name, MASK);
+      redacted = true;
+    }
+  }
+  // Unchanged URLs are returned as recorded, without URL normalization
+  return redacted ? parsed.toString() : url;
+}
+
+/**
+ * Builds a network entry from a finished or failed request
+ * @param request - Playwright request
+ * @param failure - Network error text, for failed requests
+ * @returns Network entry
+ */
+async function toNetworkEntry(request: Request, failure?: string): Promise<NetworkEntry> {
+  const response = failure === undefined ? await request.response() : null;
+  const { responseEnd } = request.timing();
+  const sizes = response ? await request.sizes().catch(() => null) : null;
+
+  return {
+    url: redactUrl(request.url()),
+    method: request.method(),
+    status: response ? response.status() : null,
+    duration: responseEnd >= 0 ? Math.round(responseEnd) : null,
+    size: sizes ? sizes.responseBodySize : null,
+    failure,
+  };
+}
+
+/**
+ * Records the requests of a page into a network log
+ * The log is bounded to limit memory use: successful requests are dropped,
+ * oldest first, before any failed request is. URLs are recorded redacted.
+ * @param page - Page to observe
+ * @param entries - Network log to append to (mutated)
+ */
+export function recordNetwork(page: Page, entries: NetworkEntry[]): void {
+  const record = (request: Request, failure?: string): void => {
+    toNetworkEntry(request, failure)
+      .then(entry => {
+        if (entry.status !== null && entry.status >= 500) {
+          logger.warn(`Server error: ${entry.method} ${entry.url} - ${entry.status}`);
+        }
+        entries.push(entry);
+        if (entries.length > MAX_NETWORK_ENTRIES) {
+          const oldestSuccessful = entries.findIndex(candidate => !isFailedRequest(candidate));
+          entries.splice(Math.max(oldestSuccessful, 0), 1);
+        }
+      })
+      .catch(error =>
+        logger.debug(`Failed to record request ${redactUrl(request.url())}: ${error}`)
+      );
+  };
+
+  page.on('requestfinished', request => record(request));
+  page.on('requestfailed', request => record(request, request.failure()?.errorText || 'failed'));
+}
+
+/**
+ * Formats a byte count for display
+ * @param size - Size in bytes
+ * @returns Human-readable size
+ */
+function formatSize(size: number | null): string {
+  if (size === null) {
+    return '-';
+  }
+  return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Formats one network entry as a summary line
+ * @param entry - Network entry
+ * @returns Summary line, failing requests marked with ✗
+ */
+function formatEntry(entry: NetworkEntry): string {
+  const url =
+    entry.url.length > MAX_URL_LENGTH
+      ? `${entry.url.substring(0, MAX_URL_LENGTH - 3)}...`
+      : entry.url;
+  return [
+    isFailedRequest(entry) ? '✗' : ' ',
+    entry.method.padEnd(7),
+    String(entry.failure ?? entry.status ?? '-').padEnd(5),
+    (entry.duration === null ? '-' : `${entry.duration}ms`).padStart(8),
+    formatSize(entry.size).padStart(10),
+    url,
+  ].join(' ');
+}
+
+/**
+ * Builds the network summary attached to failed scenarios
+ * @param entries - Network log of the scenario
+ * @param maxListed - Number of most recent requests listed after the failed ones (default all)
+ * @returns Plain text summary listing every failing request first, then the most recent requests
+ */
+export function formatNetworkSummary(entries: NetworkEntry[], maxListed = entries.length): string {
+  const failed = entries.filter(isFailedRequest);
+  const listed = entries.slice(Math.max(entries.length - maxListed, 0));
+  const lines = [
+    `Network summary: ${entries.length} request(s), ${failed.length} failed`,
+    '',
+    'Failed requests:',
+    ...(failed.length > 0 ? failed.map(formatEntry) : ['  none']),
+    '',
+    listed.length < entries.length ? `Last ${listed.length} requests:` : 'All requests:',
+    ...listed.map(formatEntry),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Builds the HAR recording option of a new browser context
+ * @param har - HAR recording settings
+ * @param contextId - Test context the browser context belongs to
+ * @returns recordHar option, or no options when HAR recording is off
+ */
+export function getHarOptions(har: HarConfig, contextId: string): BrowserContextOptions {
+  if (har.mode === 'off') {
+    return {};
+  }
+
+  // Attached bodies need a zip archive to travel with the HAR
+  const extension = har.content === 'attach' ? 'zip' : 'har';
+  const urlFilter =
+    har.urlFilters.length > 0
+      ? new RegExp(har.urlFilters.map(filter => `(?:${filter})`).join('|'))
+      : undefined;
+
+  return {
+    recordHar: {
+      path: path.join(PathUtils.getHarPath(), `${contextId}-${Date.now()}.${extension}`),
+      content: har.content,
+      urlFilter,
+    },
+  };
+}
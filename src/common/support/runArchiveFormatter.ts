@@ -0,0 +1,64 @@
+/**
+ * Run Archive Formatter
+ *
+ * Cucumber formatter writing the JSON report like the built-in json formatter
+ * and archiving it to test-results/runs/ for the trend dashboard
+ * (npm run trends -- build). The default cucumber.cjs profile uses it in place of json:
+ *
+ *   ./dist/src/common/support/runArchiveFormatter.js:test-results/cucumber-report.json
+ *
+ * Dry runs and runs in which no scenario passed or failed are not archived. The
+ * quarantine profile writes plain JSON, so quarantine runs stay out of the trends.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { JsonFormatter, type IFormatterOptions } from '@cucumber/cucumber';
+import { archiveRun } from '../../cli/trends';
+import { summarizeRun, type ArchivedRun } from '../../cli/trendReport';
+import { getEnvironment } from './env';
+import { logger } from '../../utils/logger';
+
+/**
+ * Archives a Cucumber JSON report unless nothing ran
+ * Failures are logged, never thrown, so archiving cannot fail the run.
+ * @param report - Cucumber JSON report written by the json formatter
+ */
+function archiveReport(report: string): void {
+  try {
+    const run: ArchivedRun = {
+      environment: getEnvironment().getEnvironmentName(),
+      timestamp: new Date().toISOString(),
+      features: JSON.parse(report),
+    };
+
+    const summary = summarizeRun(run);
+    if (summary.passed + summary.failed === 0) {
+      logger.debug('Run not archived: no scenario passed or failed');
+      return;
+    }
+
+    logger.info(`Run archived for the trend report: ${archiveRun(run)}`);
+  } catch (error) {
+    logger.warn(`Failed to archive the run: ${error}`);
+  }
+}
+
+/**
+ * JSON formatter that archives the report it writes
+ */
+export default class RunArchiveFormatter extends JsonFormatter {
+  static readonly documentation =
+    'Writes the Cucumber JSON report and archives it to test-results/runs/ for the trend report';
+
+  constructor(options: IFormatterOptions) {
+    super({
+      ...options,
+      log: buffer => {
+        options.log(buffer);
+        archiveReport(buffer.toString());
+      },
+    });
+  }
+}
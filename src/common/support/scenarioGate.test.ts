@@ -0,0 +1,112 @@
+/**
+ * Scenario Gating Test Suite
+ *
+ * Validates the skip reasons of scenarios whose tags need infrastructure
+ * the current environment does not have, or feature flags in another state.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { getScenarioSkipReason } from './scenarioGate';
+import { getEnvironment, type EnvironmentCapabilities, type EnvironmentManager } from './env';
+
+jest.mock('./env', () => ({ getEnvironment: jest.fn() }));
+
+/**
+ * Makes getEnvironment return a T5 environment with the given capabilities and feature flags
+ * @param capabilities - Capabilities the environment has
+ * @param features - Feature flags defined by the environment
+ */
+function useEnvironment(
+  capabilities: Partial<EnvironmentCapabilities>,
+  features: Record<string, boolean> = {}
+): void {
+  const environment = {
+    getEnvironmentName: () => 'T5',
+    getCapabilities: (): EnvironmentCapabilities => ({
+      hasOracle: false,
+      hasPostgres: false,
+      hasDatabase: false,
+      hasClientCert: false,
+      ...capabilities,
+    }),
+    isFeatureEnabled: (flag: string) => features[flag] ?? false,
+    isFeatureDefined: (flag: string) => flag in features,
+  };
+  jest.mocked(getEnvironment).mockReturnValue(environment as unknown as EnvironmentManager);
+}
+
+describe('Scenario Gating', () => {
+  describe('getScenarioSkipReason', () => {
+    test('should run scenarios without gating tags', () => {
+      useEnvironment({});
+
+      expect(getScenarioSkipReason(['@smoke', '@ui'])).toBeNull();
+    });
+
+    test('should run scenarios whose capabilities are available', () => {
+      useEnvironment({ hasPostgres: true, hasDatabase: true, hasClientCert: true });
+
+      expect(getScenarioSkipReason(['@db', '@postgres', '@mtls'])).toBeNull();
+    });
+
+    test('should name the environment and the missing capability', () => {
+      useEnvironment({ hasPostgres: true, hasDatabase: true });
+
+      expect(getScenarioSkipReason(['@db', '@oracle'])).toBe(
+        'Environment T5 cannot run this scenario: @oracle requires an Oracle database (db.oracle)'
+      );
+    });
+
+    test('should list every missing capability once', () => {
+      useEnvironment({});
+
+      expect(getScenarioSkipReason(['@database', '@mtls', '@mtls'])).toBe(
+        'Environment T5 cannot run this scenario: ' +
+          '@database requires an Oracle or PostgreSQL database; ' +
+          '@mtls requires a client certificate (certs.client)'
+      );
+    });
+
+    test('should run @requires scenarios only when the flag is enabled', () => {
+      useEnvironment({}, { videoRecording: true, debugMode: false });
+
+      expect(getScenarioSkipReason(['@requires:videoRecording'])).toBeNull();
+      expect(getScenarioSkipReason(['@requires:debugMode'])).toBe(
+        'Environment T5 cannot run this scenario: ' +
+          '@requires:debugMode requires feature flag debugMode to be enabled'
+      );
+    });
+
+    test('should point at the config key of an undefined @requires flag', () => {
+      useEnvironment({});
+
+      expect(getScenarioSkipReason(['@requires:newCheckout'])).toBe(
+        'Environment T5 cannot run this scenario: ' +
+          '@requires:newCheckout requires feature flag newCheckout, ' +
+          'which is not defined (features.newCheckout)'
+      );
+    });
+
+    test('should run @unless scenarios when the flag is disabled or not defined', () => {
+      useEnvironment({}, { debugMode: false, videoRecording: true });
+
+      expect(getScenarioSkipReason(['@unless:debugMode', '@unless:newCheckout'])).toBeNull();
+      expect(getScenarioSkipReason(['@unless:videoRecording'])).toBe(
+        'Environment T5 cannot run this scenario: ' +
+          '@unless:videoRecording requires feature flag videoRecording to be disabled'
+      );
+    });
+
+    test('should combine capability and feature flag reasons', () => {
+      useEnvironment({}, { debugMode: false });
+
+      expect(getScenarioSkipReason(['@oracle', '@requires:debugMode'])).toBe(
+        'Environment T5 cannot run this scenario: ' +
+          '@oracle requires an Oracle database (db.oracle); ' +
+          '@requires:debugMode requires feature flag debugMode to be enabled'
+      );
+    });
+  });
+});
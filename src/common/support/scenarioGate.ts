@@ -0,0 +1,96 @@
+/**
+ * Scenario Gating Module
+ *
+ * This module decides whether a scenario can run in the current environment
+ * based on its tags. Scenarios that need optional infrastructure (databases,
+ * client certificates) or depend on feature flags are skipped with a clear
+ * reason instead of failing when the environment does not match.
+ *
+ * Capability tags:
+ * - @db, @database - requires an Oracle or PostgreSQL database
+ * - @oracle        - requires an Oracle database
+ * - @postgres      - requires a PostgreSQL database
+ * - @mtls          - requires a client certificate (PFX file present)
+ *
+ * Feature flag tags (flags come from the `features` config section):
+ * - @requires:<flag> - runs only when the flag is enabled
+ * - @unless:<flag>   - runs only when the flag is disabled or not defined
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import { getEnvironment, type EnvironmentCapabilities } from './env';
+
+/**
+ * Capability required by a tag and the human-readable requirement
+ */
+interface CapabilityRequirement {
+  capability: keyof EnvironmentCapabilities;
+  description: string;
+}
+
+/** Mapping of scenario tags to the capability they require */
+const CAPABILITY_TAGS: Record<string, CapabilityRequirement> = {
+  '@db': { capability: 'hasDatabase', description: 'an Oracle or PostgreSQL database' },
+  '@database': { capability: 'hasDatabase', description: 'an Oracle or PostgreSQL database' },
+  '@oracle': { capability: 'hasOracle', description: 'an Oracle database (db.oracle)' },
+  '@postgres': { capability: 'hasPostgres', description: 'a PostgreSQL database (db.postgres)' },
+  '@mtls': { capability: 'hasClientCert', description: 'a client certificate (certs.client)' },
+};
+
+/** Tag prefix for scenarios that need a feature flag to be enabled */
+const REQUIRES_TAG_PREFIX = '@requires:';
+
+/** Tag prefix for scenarios that must not run while a feature flag is enabled */
+const UNLESS_TAG_PREFIX = '@unless:';
+
+/**
+ * Describes why a single tag prevents the scenario from running
+ * @param tag - Tag name
+ * @returns Unmet requirement, or null if the tag is satisfied or not a gating tag
+ */
+function getUnmetRequirement(tag: string): string | null {
+  const environment = getEnvironment();
+
+  if (tag in CAPABILITY_TAGS) {
+    const { capability, description } = CAPABILITY_TAGS[tag];
+    return environment.getCapabilities()[capability] ? null : `${tag} requires ${description}`;
+  }
+
+  if (tag.startsWith(REQUIRES_TAG_PREFIX)) {
+    const flag = tag.substring(REQUIRES_TAG_PREFIX.length);
+    if (environment.isFeatureEnabled(flag)) {
+      return null;
+    }
+    return environment.isFeatureDefined(flag)
+      ? `${tag} requires feature flag ${flag} to be enabled`
+      : `${tag} requires feature flag ${flag}, which is not defined (features.${flag})`;
+  }
+
+  if (tag.startsWith(UNLESS_TAG_PREFIX)) {
+    const flag = tag.substring(UNLESS_TAG_PREFIX.length);
+    return environment.isFeatureEnabled(flag)
+      ? `${tag} requires feature flag ${flag} to be disabled`
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Determines why a scenario cannot run in the current environment
+ * @param tags - Tag names of the scenario (e.g. ['@db', '@requires:videoRecording'])
+ * @returns Reason for skipping, or null if the scenario can run
+ */
+export function getScenarioSkipReason(tags: string[]): string | null {
+  const unmet = Array.from(new Set(tags))
+    .map(tag => getUnmetRequirement(tag))
+    .filter((requirement): requirement is string => requirement !== null);
+
+  if (unmet.length === 0) {
+    return null;
+  }
+
+  return `Environment ${getEnvironment().getEnvironmentName()} cannot run this scenario: ${unmet.join('; ')}`;
+}
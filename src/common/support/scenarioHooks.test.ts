@@ -0,0 +1,213 @@
+/**
+ * Scenario Hook Registry Test Suite
+ *
+ * Validates tag-bound hook selection, hook ordering and the after and
+ * teardown phases of hooks whose scenarios failed.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import type { ITestCaseHookParameter } from '@cucumber/cucumber';
+import { World } from '@cucumber/cucumber';
+import { ScenarioHookRegistry, formatHookTimings } from './scenarioHooks';
+
+/**
+ * World recording the hook phases that ran
+ */
+class RecordingWorld extends World {
+  calls: string[] = [];
+}
+
+/**
+ * Builds a scenario with the given tags
+ * @param tags - Scenario tags
+ * @returns Cucumber hook parameter
+ */
+function scenario(...tags: string[]): ITestCaseHookParameter {
+  return { pickle: { tags: tags.map(name => ({ name })) } } as unknown as ITestCaseHookParameter;
+}
+
+/**
+ * Creates a world for a scenario
+ * @returns Recording world
+ */
+function createWorld(): RecordingWorld {
+  return new RecordingWorld({
+    attach: jest.fn(),
+    log: jest.fn(),
+    link: jest.fn(),
+    parameters: {},
+  } as unknown as ConstructorParameters<typeof World>[0]);
+}
+
+describe('Scenario Hook Registry', () => {
+  let registry: ScenarioHookRegistry<RecordingWorld>;
+  let world: RecordingWorld;
+
+  beforeEach(() => {
+    registry = new ScenarioHookRegistry<RecordingWorld>();
+    world = createWorld();
+  });
+
+  /**
+   * Registers a hook recording its before and after phases in the world
+   * @param name - Hook name
+   * @param tags - Tag expression
+   * @param order - Hook order
+   */
+  function registerRecordingHook(name: string, tags?: string, order?: number): void {
+    registry.register({
+      name,
+      tags,
+      order,
+      before: current => current.calls.push(`${name} before`),
+      after: current => current.calls.push(`${name} after`),
+    });
+  }
+
+  describe('register', () => {
+    test('should reject duplicate names and invalid tag expressions', () => {
+      registerRecordingHook('db', '@db');
+
+      expect(() => registerRecordingHook('db', '@api')).toThrow(
+        'Scenario hook already registered: db'
+      );
+      expect(() => registerRecordingHook('broken', '@db and')).toThrow(
+        /^Invalid tag expression of scenario hook broken: @db and/
+      );
+    });
+  });
+
+  describe('runBefore and runAfter', () => {
+    test('should run only the hooks whose tag expression matches the scenario', async () => {
+      registerRecordingHook('db', '(@db or @database) and not @readonly');
+      registerRecordingHook('api', '@api');
+      registerRecordingHook('every');
+
+      await registry.runBefore('s1', world, scenario('@database', '@smoke'));
+      await registry.runAfter('s1', world, scenario('@database', '@smoke'));
+
+      expect(world.calls).toEqual(['db before', 'every before', 'every after', 'db after']);
+
+      const readonly = createWorld();
+      await registry.runBefore('s2', readonly, scenario('@db', '@readonly'));
+      expect(readonly.calls).toEqual(['every before']);
+    });
+
+    test('should run before by ascending order and after in reverse', async () => {
+      registerRecordingHook('late', undefined, 200);
+      registerRecordingHook('default-a');
+      registerRecordingHook('early', undefined, 10);
+      registerRecordingHook('default-b');
+
+      await registry.runBefore('s1', world, scenario());
+      await registry.runAfter('s1', world, scenario());
+
+      expect(world.calls).toEqual([
+        'early before',
+        'default-a before',
+        'default-b before',
+        'late before',
+        'late after',
+        'default-b after',
+        'default-a after',
+        'early after',
+      ]);
+    });
+
+    test('should run the after phase of started hooks when a later before fails', async () => {
+      registerRecordingHook('first', undefined, 10);
+      registry.register({
+        name: 'failing',
+        order: 20,
+        before: () => {
+          throw new Error('connection refused');
+        },
+        after: current => current.calls.push('failing after'),
+      });
+      registerRecordingHook('never', undefined, 30);
+
+      await expect(registry.runBefore('s1', world, scenario())).rejects.toThrow(
+        'Scenario hook failing failed: connection refused'
+      );
+      const timings = await registry.runAfter('s1', world, scenario());
+
+      expect(world.calls).toEqual(['first before', 'first after']);
+      expect(timings.map(timing => `${timing.hook} ${timing.phase}`)).toEqual([
+        'first before',
+        'failing before',
+        'first after',
+      ]);
+      expect(timings[1].error).toBe('connection refused');
+    });
+
+    test('should run every after phase even if one fails', async () => {
+      registerRecordingHook('first', undefined, 10);
+      registry.register({
+        name: 'second',
+        order: 20,
+        after: () => Promise.reject(new Error('rollback failed')),
+      });
+
+      await registry.runBefore('s1', world, scenario());
+      const timings = await registry.runAfter('s1', world, scenario());
+
+      expect(world.calls).toEqual(['first before', 'first after']);
+      expect(timings.find(timing => timing.hook === 'second')?.error).toBe('rollback failed');
+    });
+
+    test('should return no timings for a scenario that never ran its before hooks', async () => {
+      expect(await registry.runAfter('unknown', world, scenario())).toEqual([]);
+    });
+  });
+
+  describe('init and teardown', () => {
+    test('should initialize once and remember a failed initialization', async () => {
+      const init = jest.fn().mockRejectedValue(new Error('pool unavailable'));
+      registry.register({ name: 'db', tags: '@db', init });
+
+      await expect(registry.runBefore('s1', world, scenario('@db'))).rejects.toThrow(
+        'Scenario hook db failed to initialize: pool unavailable'
+      );
+      await expect(registry.runBefore('s2', world, scenario('@db'))).rejects.toThrow(
+        'Scenario hook db failed to initialize: pool unavailable'
+      );
+      expect(init).toHaveBeenCalledTimes(1);
+    });
+
+    test('should tear down only the hooks that matched a scenario, in reverse order', async () => {
+      const teardowns: string[] = [];
+      for (const [name, order] of [
+        ['api', 10],
+        ['db', 20],
+        ['mtls', 30],
+      ] as const) {
+        registry.register({
+          name,
+          tags: `@${name}`,
+          order,
+          teardown: () => teardowns.push(name),
+        });
+      }
+
+      await registry.runBefore('s1', world, scenario('@api', '@mtls'));
+      await registry.runAfter('s1', world, scenario('@api', '@mtls'));
+      const timings = await registry.runTeardown();
+
+      expect(teardowns).toEqual(['mtls', 'api']);
+      expect(timings.map(timing => timing.phase)).toEqual(['teardown', 'teardown']);
+    });
+  });
+
+  describe('formatHookTimings', () => {
+    test('should mark failed phases', () => {
+      expect(
+        formatHookTimings([
+          { hook: 'db', phase: 'before', duration: 12 },
+          { hook: 'api', phase: 'after', duration: 3, error: 'timeout' },
+        ])
+      ).toBe('Scenario hooks:\n  db before: 12ms\n✗ api after: 3ms - timeout');
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Scenario Hook Registry Module
+ *
+ * This module lets feature modules (API, database, mTLS, visual checks, ...)
+ * contribute their own scenario hooks instead of growing the central
+ * Before/After hooks. Each hook is bound to a Cucumber tag expression and runs
+ * only for matching scenarios:
+ * - init runs once, before the first matching scenario of the run
+ * - before/after run around every matching scenario, ordered by `order`
+ *   (lower first in Before, reverse order in After)
+ * - teardown runs once at the end of the run, only for hooks that matched a scenario
+ *
+ * Every phase is timed; the timings are logged and attached to the report.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import parse from '@cucumber/tag-expressions';
+import type { ITestCaseHookParameter, World } from '@cucumber/cucumber';
+import type { CustomWorld } from '../steps/hooks';
+import { logger } from '../../utils/logger';
+
+/** Order of hooks registered without one */
+const DEFAULT_HOOK_ORDER = 100;
+
+/**
+ * A hook contributed by a feature module
+ */
+export interface ScenarioHook<W extends World = World> {
+  /** Unique hook name, used in logs and the report */
+  name: string;
+  /** Tag expression selecting scenarios, e.g. "@db and not @readonly"; every scenario when omitted */
+  tags?: string;
+  /** Lower runs first in Before and last in After (default 100) */
+  order?: number;
+  /** One-time initialization before the first matching scenario of the run */
+  init?: () => unknown | Promise<unknown>;
+  /** Runs before each matching scenario; a failure fails the scenario */
+  before?: (world: W, scenario: ITestCaseHookParameter) => unknown | Promise<unknown>;
+  /** Runs after each matching scenario whose before hook succeeded; failures are reported only */
+  after?: (world: W, scenario: ITestCaseHookParameter) => unknown | Promise<unknown>;
+  /** One-time teardown at the end of the run, only if the hook matched a scenario */
+  teardown?: () => unknown | Promise<unknown>;
+}
+
+/**
+ * Duration of one hook phase
+ */
+export interface HookTiming {
+  /** Hook name */
+  hook: string;
+  /** Hook phase */
+  phase: 'init' | 'before' | 'after' | 'teardown';
+  /** Duration in milliseconds */
+  duration: number;
+  /** Failure message, if the phase failed */
+  error?: string;
+}
+
+/**
+ * Registered hook with its parsed tag expression
+ */
+interface RegisteredHook<W extends World> {
+  hook: ScenarioHook<W>;
+  order: number;
+  matches: (tags: string[]) => boolean;
+}
+
+/**
+ * Hooks started for a scenario and the timings collected so far
+ */
+interface ScenarioHookRun<W extends World> {
+  started: RegisteredHook<W>[];
+  timings: HookTiming[];
+}
+
+/**
+ * Times a hook phase
+ * @param hook - Hook name
+ * @param phase - Hook phase
+ * @param fn - Phase function
+ * @returns Timing of the phase; failures are recorded, not thrown
+ */
+async function timePhase(
+  hook: string,
+  phase: HookTiming['phase'],
+  fn: () => unknown | Promise<unknown>
+): Promise<HookTiming> {
+  const start = Date.now();
+  try {
+    await fn();
+    const timing: HookTiming = { hook, phase, duration: Date.now() - start };
+    logger.debug(`Scenario hook ${hook} ${phase}: ${timing.duration}ms`);
+    return timing;
+  } catch (error) {
+    const timing: HookTiming = {
+      hook,
+      phase,
+      duration: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    logger.error(
+      `Scenario hook ${hook} ${phase} failed after ${timing.duration}ms: ${timing.error}`
+    );
+    return timing;
+  }
+}
+
+/**
+ * Registry of the scenario hooks contributed by feature modules
+ * The shared instance runs its hooks with the CustomWorld of the running scenario, so hooks
+ * may declare CustomWorld or any World it extends.
+ */
+export class ScenarioHookRegistry<W extends World = CustomWorld> {
+  private static instance: ScenarioHookRegistry<CustomWorld>;
+  private hooks: RegisteredHook<W>[] = [];
+  private initializations: Map<string, Promise<HookTiming>> = new Map();
+  private used: Set<string> = new Set();
+  private runs: Map<string, ScenarioHookRun<W>> = new Map();
+
+  /**
+   * Gets the shared registry the Before and After hooks run
+   * @returns ScenarioHookRegistry instance
+   */
+  static getInstance(): ScenarioHookRegistry<CustomWorld> {
+    if (!ScenarioHookRegistry.instance) {
+      ScenarioHookRegistry.instance = new ScenarioHookRegistry();
+    }
+    return ScenarioHookRegistry.instance;
+  }
+
+  /**
+   * Registers a scenario hook
+   * @param hook - Hook definition
+   * @throws Error if the name is already registered or the tag expression is invalid
+   */
+  register(hook: ScenarioHook<W>): void {
+    if (this.hooks.some(registered => registered.hook.name === hook.name)) {
+      throw new Error(`Scenario hook already registered: ${hook.name}`);
+    }
+
+    let matches: RegisteredHook<W>['matches'] = () => true;
+    if (hook.tags) {
+      try {
+        const expression = parse(hook.tags);
+        matches = tags => expression.evaluate(tags);
+      } catch (error) {
+        throw new Error(
+          `Invalid tag expression of scenario hook ${hook.name}: ${hook.tags} (${error})`
+        );
+      }
+    }
+
+    this.hooks.push({ hook, order: hook.order ?? DEFAULT_HOOK_ORDER, matches });
+    // Stable sort keeps registration order between hooks of the same order
+    this.hooks.sort((a, b) => a.order - b.order);
+    logger.debug(`Scenario hook registered: ${hook.name}${hook.tags ? ` (${hook.tags})` : ''}`);
+  }
+
+  /**
+   * Runs the before phase of the hooks matching a scenario, initializing them on first use
+   * @param contextId - Test context of the scenario
+   * @param world - Scenario world
+   * @param scenario - Cucumber scenario
+   * @throws Error naming the hook when an init or before phase fails
+   */
+  async runBefore(contextId: string, world: W, scenario: ITestCaseHookParameter): Promise<void> {
+    const tags = scenario.pickle.tags.map(tag => tag.name);
+    const run: ScenarioHookRun<W> = { started: [], timings: [] };
+    this.runs.set(contextId, run);
+
+    for (const registered of this.hooks.filter(candidate => candidate.matches(tags))) {
+      const { hook } = registered;
+      this.used.add(hook.name);
+
+      if (hook.init) {
+        const first = !this.initializations.has(hook.name);
+        const init = await this.initialize(hook);
+        if (first) {
+          run.timings.push(init);
+        }
+        if (init.error) {
+          throw new Error(`Scenario hook ${hook.name} failed to initialize: ${init.error}`);
+        }
+      }
+
+      if (hook.before) {
+        const timing = await timePhase(hook.name, 'before', () => hook.before!(world, scenario));
+        run.timings.push(timing);
+        if (timing.error) {
+          throw new Error(`Scenario hook ${hook.name} failed: ${timing.error}`);
+        }
+      }
+      run.started.push(registered);
+    }
+  }
+
+  /**
+   * Runs the after phase of the hooks started for a scenario, in reverse order
+   * Every after phase runs even if others fail.
+   * @param contextId - Test context of the scenario
+   * @param world - Scenario world
+   * @param scenario - Cucumber scenario
+   * @returns Timings of the scenario's before and after phases
+   */
+  async runAfter(
+    contextId: string,
+    world: W,
+    scenario: ITestCaseHookParameter
+  ): Promise<HookTiming[]> {
+    const run = this.runs.get(contextId);
+    if (!run) {
+      return [];
+    }
+    this.runs.delete(contextId);
+
+    for (const { hook } of [...run.started].reverse()) {
+      if (hook.after) {
+        run.timings.push(await timePhase(hook.name, 'after', () => hook.after!(world, scenario)));
+      }
+    }
+    return run.timings;
+  }
+
+  /**
+   * Runs the teardown of every hook that matched a scenario, in reverse order
+   * @returns Teardown timings
+   */
+  async runTeardown(): Promise<HookTiming[]> {
+    const timings: HookTiming[] = [];
+    const used = this.hooks.filter(({ hook }) => this.used.has(hook.name));
+
+    for (const { hook } of used.reverse()) {
+      if (hook.teardown) {
+        timings.push(await timePhase(hook.name, 'teardown', hook.teardown));
+      }
+    }
+    this.initializations.clear();
+    this.used.clear();
+    return timings;
+  }
+
+  /**
+   * Initializes a hook once per run
+   * A failed initialization is remembered so later matching scenarios fail fast.
+   * @param hook - Hook to initialize
+   * @returns Timing of the initialization
+   */
+  private initialize(hook: ScenarioHook<W>): Promise<HookTiming> {
+    let init = this.initializations.get(hook.name);
+    if (!init) {
+      logger.info(`Initializing scenario hook: ${hook.name}`);
+      init = timePhase(hook.name, 'init', hook.init!);
+      this.initializations.set(hook.name, init);
+    }
+    return init;
+  }
+}
+
+/**
+ * Registers a scenario hook with the shared registry
+ * @param hook - Hook definition, for CustomWorld or any World it extends
+ */
+export function registerScenarioHook(hook: ScenarioHook<CustomWorld>): void {
+  ScenarioHookRegistry.getInstance().register(hook);
+}
+
+/**
+ * Formats hook timings for the report
+ * @param timings - Hook timings
+ * @returns Plain text list of the timings, failed phases marked ✗
+ */
+export function formatHookTimings(timings: HookTiming[]): string {
+  const lines = timings.map(timing => {
+    const marker = timing.error ? '✗' : ' ';
+    const error = timing.error ? ` - ${timing.error}` : '';
+    return `${marker} ${timing.hook} ${timing.phase}: ${timing.duration}ms${error}`;
+  });
+  return ['Scenario hooks:', ...lines].join('\n');
+}
@@ -0,0 +1,296 @@
+/**
+ * Test Context Manager Test Suite
+ *
+ * Validates that traces survive browser context replacement, that scenario
+ * videos are recorded and kept or deleted, and the order and timeouts of
+ * scenario cleanups, using fake Playwright objects so no browser is launched.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Browser, BrowserContextOptions } from '@playwright/test';
+import {
+  getEnvironmentTimeouts,
+  getEnvironmentVideoSettings,
+  type EnvironmentTimeouts,
+} from './env';
+import { TestContextManager } from './testContext';
+import { getTracePath } from './tracing';
+import { PathUtils } from '../../utils/paths';
+
+jest.mock('../../utils/ConfigManager', () => ({
+  ConfigManager: {
+    getInstance: () => ({ getConfig: () => ({ har: { mode: 'off' }, certs: { additional: {} } }) }),
+  },
+}));
+
+jest.mock('./env', () => ({
+  getEnvironmentTimeouts: jest.fn(() => ({ action: 1000, navigation: 1000 })),
+  getEnvironmentVideoSettings: jest.fn(() => ({ mode: 'off' })),
+}));
+
+jest.mock('./tracing', () => ({ getTracePath: jest.fn() }));
+
+/**
+ * Sets the cleanup timeouts of the next runCleanups call
+ * @param cleanup - Timeout of each cleanup in milliseconds
+ * @param step - Timeout of all cleanups together in milliseconds
+ */
+function useCleanupTimeouts(cleanup: number, step: number): void {
+  jest.mocked(getEnvironmentTimeouts).mockReturnValueOnce({ cleanup, step } as EnvironmentTimeouts);
+}
+
+/**
+ * Creates a fake browser whose contexts record their tracing calls
+ * Saving a trace writes a small file, as Playwright does. Pages of contexts
+ * recording video have a video.
+ * @returns Fake browser, the tracing mocks and the videos of the contexts it created
+ */
+function createFakeBrowser() {
+  const tracings: Array<{ start: jest.Mock; stop: jest.Mock }> = [];
+  const videos: Array<{ path: jest.Mock; delete: jest.Mock }> = [];
+  const browser = {
+    browserType: () => ({ name: () => 'chromium' }),
+    newContext: jest.fn(async (contextOptions: BrowserContextOptions) => {
+      const tracing = {
+        start: jest.fn(),
+        stop: jest.fn(async (options?: { path?: string }) => {
+          if (options?.path) {
+            fs.writeFileSync(options.path, 'trace');
+          }
+        }),
+      };
+      tracings.push(tracing);
+      const videoPath = contextOptions.recordVideo
+        ? path.join(contextOptions.recordVideo.dir, `video-${videos.length}.webm`)
+        : null;
+      const video = videoPath ? { path: jest.fn(async () => videoPath), delete: jest.fn() } : null;
+      if (video) {
+        videos.push(video);
+      }
+      const page = {
+        on: jest.fn(),
+        url: () => 'about:blank',
+        goto: jest.fn(),
+        video: () => video,
+        close: jest.fn(),
+      };
+      return {
+        tracing,
+        setDefaultTimeout: jest.fn(),
+        setDefaultNavigationTimeout: jest.fn(),
+        newPage: jest.fn(async () => page),
+        close: jest.fn(),
+      };
+    }),
+  };
+  return { browser: browser as unknown as Browser, tracings, videos };
+}
+
+describe('Test Context Manager', () => {
+  const manager = TestContextManager.getInstance();
+  let tempDir: string;
+  let traceCount: number;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-context-test-'));
+    traceCount = 0;
+    jest
+      .mocked(getTracePath)
+      .mockImplementation(title => path.join(tempDir, `${title}-${++traceCount}.zip`));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('tracing across browser context replacement', () => {
+    test('should save the trace of a replaced context and restart tracing with the title', async () => {
+      const { browser, tracings } = createFakeBrowser();
+      manager.createContext('trace-1');
+      await manager.initializeBrowser('trace-1', browser);
+      await manager.startTracing('trace-1', 'Checkout on mobile');
+
+      await manager.recreateBrowserContext('trace-1', { isMobile: true });
+
+      expect(tracings[0].stop).toHaveBeenCalledWith({
+        path: path.join(tempDir, 'Checkout on mobile-1.zip'),
+      });
+      expect(tracings[1].start).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Checkout on mobile' })
+      );
+
+      const kept = await manager.finishTracing('trace-1', path.join(tempDir, 'final.zip'));
+      expect(kept).toEqual([
+        path.join(tempDir, 'Checkout on mobile-1.zip'),
+        path.join(tempDir, 'final.zip'),
+      ]);
+      await manager.cleanupContext('trace-1');
+    });
+
+    test('should delete the traces of replaced contexts when the trace is not kept', async () => {
+      const { browser } = createFakeBrowser();
+      manager.createContext('trace-2');
+      await manager.initializeBrowser('trace-2', browser);
+      await manager.startTracing('trace-2', 'Login as admin');
+      await manager.recreateBrowserContext('trace-2', {}, false);
+      const chunk = path.join(tempDir, 'Login as admin-1.zip');
+      expect(fs.existsSync(chunk)).toBe(true);
+
+      expect(await manager.finishTracing('trace-2')).toEqual([]);
+      expect(fs.existsSync(chunk)).toBe(false);
+      await manager.cleanupContext('trace-2');
+    });
+
+    test('should delete unclaimed traces when the context is cleaned up', async () => {
+      const { browser } = createFakeBrowser();
+      manager.createContext('trace-3');
+      await manager.initializeBrowser('trace-3', browser);
+      await manager.startTracing('trace-3', 'Switch certificate');
+      await manager.recreateBrowserContext('trace-3', {});
+
+      await manager.cleanupContext('trace-3');
+
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+  });
+
+  describe('video recording', () => {
+    afterEach(() => {
+      jest.mocked(getEnvironmentVideoSettings).mockReturnValue({ mode: 'off' });
+    });
+
+    test('should record videos only when the video mode is not off', async () => {
+      const { browser, videos } = createFakeBrowser();
+      manager.createContext('video-1');
+      await manager.initializeBrowser('video-1', browser);
+      expect(browser.newContext).toHaveBeenLastCalledWith(
+        expect.not.objectContaining({ recordVideo: expect.anything() })
+      );
+      await manager.cleanupContext('video-1');
+
+      const size = { width: 1280, height: 720 };
+      jest.mocked(getEnvironmentVideoSettings).mockReturnValue({ mode: 'retain-on-failure', size });
+      manager.createContext('video-2');
+      await manager.initializeBrowser('video-2', browser);
+
+      expect(browser.newContext).toHaveBeenLastCalledWith(
+        expect.objectContaining({ recordVideo: { dir: PathUtils.getVideosPath(), size } })
+      );
+      expect(videos).toHaveLength(1);
+      await manager.cleanupContext('video-2');
+    });
+
+    test('should keep the videos of every context of the scenario when asked', async () => {
+      jest.mocked(getEnvironmentVideoSettings).mockReturnValue({ mode: 'on' });
+      const { browser, videos } = createFakeBrowser();
+      manager.createContext('video-3');
+      await manager.initializeBrowser('video-3', browser);
+      await manager.recreateBrowserContext('video-3', { isMobile: true });
+
+      const recordings = await manager.cleanupContext('video-3', { videos: true });
+
+      expect(recordings.videos).toEqual([
+        path.join(PathUtils.getVideosPath(), 'video-0.webm'),
+        path.join(PathUtils.getVideosPath(), 'video-1.webm'),
+      ]);
+      expect(videos.every(video => video.delete.mock.calls.length === 0)).toBe(true);
+    });
+
+    test('should delete the videos when they are not kept', async () => {
+      jest.mocked(getEnvironmentVideoSettings).mockReturnValue({ mode: 'retain-on-failure' });
+      const { browser, videos } = createFakeBrowser();
+      manager.createContext('video-4');
+      await manager.initializeBrowser('video-4', browser);
+
+      const recordings = await manager.cleanupContext('video-4');
+
+      expect(recordings.videos).toEqual([]);
+      expect(videos[0].delete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('browserless scenarios', () => {
+    test('should clean up a context that never created a browser context', async () => {
+      manager.createContext('browserless-1');
+      const cleanup = jest.fn();
+      manager.addCleanup('browserless-1', cleanup, 'Delete order');
+      useCleanupTimeouts(1000, 5000);
+
+      expect(await manager.runCleanups('browserless-1')).toEqual([]);
+      expect(await manager.finishTracing('browserless-1')).toEqual([]);
+      expect(await manager.cleanupContext('browserless-1', { videos: true, har: true })).toEqual({
+        videos: [],
+        har: [],
+      });
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('runCleanups', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should run every cleanup last registered first, even after a failure', async () => {
+      const order: string[] = [];
+      manager.createContext('cleanup-1');
+      manager.addCleanup('cleanup-1', () => order.push('delete user'), 'Delete user');
+      manager.addCleanup(
+        'cleanup-1',
+        async () => {
+          order.push('delete order');
+          throw new Error('404 Not Found');
+        },
+        'Delete order'
+      );
+      manager.addCleanup('cleanup-1', async () => order.push('empty cart'), 'Empty cart');
+      useCleanupTimeouts(1000, 5000);
+
+      const failures = await manager.runCleanups('cleanup-1');
+
+      expect(order).toEqual(['empty cart', 'delete order', 'delete user']);
+      expect(failures).toEqual(['Delete order: 404 Not Found']);
+      useCleanupTimeouts(1000, 5000);
+      expect(await manager.runCleanups('cleanup-1')).toEqual([]);
+      await manager.cleanupContext('cleanup-1');
+    });
+
+    test('should time out a hanging cleanup and run the next one', async () => {
+      const done = jest.fn();
+      manager.createContext('cleanup-2');
+      manager.addCleanup('cleanup-2', done, 'Delete user');
+      manager.addCleanup('cleanup-2', () => new Promise(() => undefined), 'Release lock');
+      useCleanupTimeouts(20, 5000);
+
+      const failures = await manager.runCleanups('cleanup-2');
+
+      expect(failures).toEqual(['Release lock: Timed out after 20ms']);
+      expect(done).toHaveBeenCalledTimes(1);
+      await manager.cleanupContext('cleanup-2');
+    });
+
+    test('should skip the cleanups left once the total cleanup budget is spent', async () => {
+      let now = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      const slowCleanup = jest.fn(async () => {
+        now += 30;
+      });
+      manager.createContext('cleanup-3');
+      manager.addCleanup('cleanup-3', slowCleanup, 'Delete user');
+      manager.addCleanup('cleanup-3', slowCleanup, 'Delete order');
+      manager.addCleanup('cleanup-3', slowCleanup, 'Empty cart');
+      useCleanupTimeouts(1000, 50);
+
+      const failures = await manager.runCleanups('cleanup-3');
+
+      expect(slowCleanup).toHaveBeenCalledTimes(2);
+      expect(failures).toEqual(['Delete user: Skipped, cleanup budget of 50ms spent']);
+      await manager.cleanupContext('cleanup-3');
+    });
+  });
+});
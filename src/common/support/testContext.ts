@@ -10,6 +10,12 @@
  * - Browser and page lifecycle management
  * - Test data storage and retrieval
  * - Screenshot and attachment handling
+ * - Client certificates (mTLS) presented by every browser context
+ * - Video and HAR recording, kept or deleted at cleanup
+ * - Network log of every request for failure summaries
+ * - Scenario mock routes and a request log for request assertions
+ * - Console log, console and page error collection
+ * - Scenario cleanups run last-in first-out with a timeout each
  * - Automatic cleanup and resource management
  * - Event listeners for browser debugging
  * - Context isolation between test scenarios
@@ -18,10 +24,21 @@
  * @version 1.0.0
  */
 
-import { Browser, BrowserContext, Page } from '@playwright/test';
-import { loadConfig } from '../../../config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Browser, BrowserContext, BrowserContextOptions, Page, Video } from '@playwright/test';
 import { logger } from '../../utils/logger';
-import type { Config } from '../../../config/schema';
+import { PathUtils } from '../../utils/paths';
+import { ConfigManager } from '../../utils/ConfigManager';
+import { getEnvironmentTimeouts, getEnvironmentVideoSettings } from './env';
+import { adaptToEngine } from './emulation';
+import { recordNetwork, getHarOptions, type NetworkEntry } from './network';
+import { getClientCertificateOptions } from './certificates';
+import { applyMockRoute, recordRequests, type MockRoute, type RecordedRequest } from './mocking';
+import { collectBrowserErrors, type BrowserError } from './browserErrors';
+import { getTracePath } from './tracing';
+import { recordConsole, type ConsoleEntry } from './debugBundle';
+import type { BrowserEngine, Config } from '../../../config/schema';
 
 /**
  * Interface defining the structure of a test context
@@ -34,6 +51,30 @@ export interface TestContext {
   context: BrowserContext | null;
   /** Active page instance */
   page: Page | null;
+  /** Options the browser context was created with (emulation overrides included) */
+  contextOptions: BrowserContextOptions;
+  /** Whether Playwright tracing is recording on the browser context */
+  tracing: boolean;
+  /** Title of the recording trace, reused when the browser context is replaced */
+  traceTitle?: string;
+  /** Traces saved from browser contexts the scenario replaced, oldest first */
+  traceChunks: string[];
+  /** Videos of the closed pages, finalized when the context is cleaned up */
+  videos: Video[];
+  /** HAR files of the browser contexts, written when each context closes */
+  harPaths: string[];
+  /** Requests observed on the scenario's pages */
+  network: NetworkEntry[];
+  /** Mock routes of the scenario, applied to every browser context it creates */
+  mocks: MockRoute[];
+  /** Requests made by the scenario's pages, including mocked ones */
+  requests: RecordedRequest[];
+  /** Console errors and uncaught exceptions of the scenario's pages */
+  browserErrors: BrowserError[];
+  /** Console messages of every type logged by the scenario's pages */
+  console: ConsoleEntry[];
+  /** Cleanups registered by the scenario's steps, in registration order */
+  cleanups: ScenarioCleanup[];
   
   /** Environment configuration */
   config: Config;
@@ -47,6 +88,26 @@ export interface TestContext {
   attachments: Array<{ name: string; contentType: string; body: Buffer }>;
 }
 
+/**
+ * Teardown registered by a step, run when the scenario ends
+ */
+export interface ScenarioCleanup {
+  /** What the cleanup does, used in logs and the report */
+  description: string;
+  /** Cleanup function */
+  fn: () => unknown | Promise<unknown>;
+}
+
+/**
+ * Recording files kept when a test context is cleaned up
+ */
+export interface ScenarioRecordings {
+  /** Paths of the kept video files */
+  videos: string[];
+  /** Paths of the kept HAR files */
+  har: string[];
+}
+
 /**
  * Singleton class for managing multiple test contexts
  * Provides centralized control over browser resources and test data
@@ -74,12 +135,23 @@ export class TestContextManager {
    * @returns Newly created TestContext instance
    */
   createContext(contextId: string): TestContext {
-    const config = loadConfig();
+    const config = ConfigManager.getInstance().getConfig();
     
     const context: TestContext = {
       browser: null,
       context: null,
       page: null,
+      contextOptions: {},
+      tracing: false,
+      traceChunks: [],
+      videos: [],
+      harPaths: [],
+      network: [],
+      mocks: [],
+      requests: [],
+      browserErrors: [],
+      console: [],
+      cleanups: [],
       config,
       testData: new Map(),
       screenshots: [],
@@ -106,21 +178,52 @@ export class TestContextManager {
    * Sets up browser context, page, and event listeners
    * @param contextId - Unique identifier for the test context
    * @param browser - Playwright browser instance to use
+   * @param contextOptions - Overrides of the standard context settings (e.g. device emulation)
    */
-  async initializeBrowser(contextId: string, browser: Browser): Promise<void> {
+  async initializeBrowser(
+    contextId: string,
+    browser: Browser,
+    contextOptions: BrowserContextOptions = {}
+  ): Promise<void> {
     const testContext = this.getContext(contextId);
     if (!testContext) {
       throw new Error(`Test context not found: ${contextId}`);
     }
 
     testContext.browser = browser;
+    testContext.contextOptions = contextOptions;
     
-    // Create browser context with standard settings
-    testContext.context = await browser.newContext({
-      viewport: { width: 1920, height: 1080 },
-      ignoreHTTPSErrors: false,
-      acceptDownloads: true,
-    });
+    // Create browser context with standard settings and the requested overrides
+    const engine = browser.browserType().name() as BrowserEngine;
+    const harOptions = getHarOptions(testContext.config.har, contextId);
+    if (harOptions.recordHar) {
+      PathUtils.ensureDirectoryExists(path.dirname(harOptions.recordHar.path));
+      testContext.harPaths.push(harOptions.recordHar.path);
+    }
+    testContext.context = await browser.newContext(
+      adaptToEngine(
+        {
+          viewport: { width: 1920, height: 1080 },
+          ignoreHTTPSErrors: false,
+          acceptDownloads: true,
+          ...getClientCertificateOptions(testContext.config.certs),
+          ...this.getVideoOptions(),
+          ...harOptions,
+          ...contextOptions,
+        },
+        engine
+      )
+    );
+
+    // Apply the environment's action and navigation timeouts
+    const timeouts = getEnvironmentTimeouts();
+    testContext.context.setDefaultTimeout(timeouts.action);
+    testContext.context.setDefaultNavigationTimeout(timeouts.navigation);
+
+    // Re-apply the scenario's mock routes (the context may have been recreated)
+    for (const mock of testContext.mocks) {
+      await applyMockRoute(testContext.context, mock);
+    }
 
     // Create page instance
     testContext.page = await testContext.context.newPage();
@@ -138,9 +241,235 @@ export class TestContextManager {
       logger.warn(`Request failed: ${request.url()} - ${request.failure()?.errorText}`);
     });
 
+    // Record requests for the network summary of failed scenarios and request assertions
+    recordNetwork(testContext.page, testContext.network);
+    recordRequests(testContext.page, testContext.requests);
+    collectBrowserErrors(testContext.page, testContext.browserErrors);
+    recordConsole(testContext.page, testContext.console);
+
     logger.info(`Browser initialized for context: ${contextId}`);
   }
 
+  /**
+   * Builds the video recording options of a new browser context
+   * @returns recordVideo option, or no options when video recording is off
+   */
+  private getVideoOptions(): BrowserContextOptions {
+    const { mode, size } = getEnvironmentVideoSettings();
+    if (mode === 'off') {
+      return {};
+    }
+    return { recordVideo: { dir: PathUtils.getVideosPath(), size } };
+  }
+
+  /**
+   * Replaces the browser context of a test context with one built from new options
+   * Used to switch device emulation mid-scenario; the current URL is reopened unless the
+   * caller navigates itself, cookies and storage of the previous context are lost.
+   * @param contextId - Unique identifier for the test context
+   * @param contextOptions - Context options merged over the current ones
+   * @param reopenUrl - Whether to reopen the current URL in the new context (default true)
+   */
+  async recreateBrowserContext(
+    contextId: string,
+    contextOptions: BrowserContextOptions,
+    reopenUrl = true
+  ): Promise<void> {
+    const testContext = this.getContext(contextId);
+    if (!testContext?.browser) {
+      throw new Error(`Browser not initialized for context: ${contextId}`);
+    }
+
+    const currentUrl = testContext.page?.url();
+    const wasTracing = testContext.tracing;
+    const traceTitle = testContext.traceTitle;
+    if (wasTracing) {
+      // A trace belongs to one context: save the steps so far, kept or deleted with the final trace
+      const chunk = await this.stopTracing(contextId, getTracePath(traceTitle || contextId));
+      if (chunk) {
+        testContext.traceChunks.push(chunk);
+      }
+    }
+
+    await this.closeBrowserContext(contextId, testContext);
+    await this.initializeBrowser(contextId, testContext.browser, {
+      ...testContext.contextOptions,
+      ...contextOptions,
+    });
+
+    if (wasTracing) {
+      await this.startTracing(contextId, traceTitle);
+    }
+
+    if (reopenUrl && currentUrl && currentUrl !== 'about:blank') {
+      await testContext.page!.goto(currentUrl);
+    }
+  }
+
+  /**
+   * Adds a mock route to the scenario
+   * Applied immediately when a browser context exists, and to every context created later.
+   * @param contextId - Unique identifier for the test context
+   * @param mock - Mock route
+   */
+  async addMockRoute(contextId: string, mock: MockRoute): Promise<void> {
+    const testContext = this.getContext(contextId);
+    if (!testContext) {
+      throw new Error(`Test context not found: ${contextId}`);
+    }
+
+    testContext.mocks.push(mock);
+    if (testContext.context) {
+      await applyMockRoute(testContext.context, mock);
+    }
+    logger.info(`Mock route added: ${mock.description}`);
+  }
+
+  /**
+   * Registers a cleanup run when the scenario ends
+   * @param contextId - Unique identifier for the test context
+   * @param fn - Cleanup function
+   * @param description - What the cleanup does
+   */
+  addCleanup(contextId: string, fn: ScenarioCleanup['fn'], description: string): void {
+    const testContext = this.getContext(contextId);
+    if (!testContext) {
+      throw new Error(`Test context not found: ${contextId}`);
+    }
+
+    testContext.cleanups.push({ description, fn });
+    logger.debug(`Cleanup registered: ${description}`);
+  }
+
+  /**
+   * Runs the registered cleanups, last registered first
+   * Every cleanup runs even if earlier ones fail or time out; failures are logged, not thrown.
+   * Each cleanup gets timeouts.cleanup, and all of them together at most timeouts.step; cleanups
+   * left when that budget is spent are skipped and reported, so the After hook always finishes.
+   * @param contextId - Unique identifier for the test context
+   * @returns Failure messages of the cleanups that failed, timed out or were skipped
+   */
+  async runCleanups(contextId: string): Promise<string[]> {
+    const testContext = this.getContext(contextId);
+    if (!testContext) {
+      return [];
+    }
+
+    const { cleanup: cleanupTimeout, step: budget } = getEnvironmentTimeouts();
+    const deadline = Date.now() + budget;
+    const failures: string[] = [];
+
+    // Take the list first so cleanups registering cleanups cannot loop forever
+    const cleanups = testContext.cleanups.splice(0).reverse();
+    for (const cleanup of cleanups) {
+      const timeout = Math.min(cleanupTimeout, deadline - Date.now());
+      if (timeout <= 0) {
+        failures.push(`${cleanup.description}: Skipped, cleanup budget of ${budget}ms spent`);
+        logger.error(`Cleanup skipped: ${cleanup.description} - cleanup budget of ${budget}ms spent`);
+        continue;
+      }
+
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+      });
+
+      try {
+        await Promise.race([Promise.resolve().then(cleanup.fn), timedOut]);
+        logger.debug(`Cleanup done: ${cleanup.description}`);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        failures.push(`${cleanup.description}: ${reason}`);
+        logger.error(`Cleanup failed: ${cleanup.description} - ${reason}`);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Starts Playwright tracing with screenshots, DOM snapshots and sources
+   * @param contextId - Unique identifier for the test context
+   * @param title - Optional trace title shown in the trace viewer
+   */
+  async startTracing(contextId: string, title?: string): Promise<void> {
+    const testContext = this.getContext(contextId);
+    if (!testContext?.context) {
+      logger.warn(`Cannot start tracing: no browser context for context ${contextId}`);
+      return;
+    }
+
+    await testContext.context.tracing.start({ screenshots: true, snapshots: true, sources: true, title });
+    testContext.tracing = true;
+    testContext.traceTitle = title;
+    logger.debug(`Tracing started for context: ${contextId}`);
+  }
+
+  /**
+   * Stops Playwright tracing, saving or discarding the recorded trace
+   * @param contextId - Unique identifier for the test context
+   * @param tracePath - Zip file to save the trace to; the trace is discarded when omitted
+   * @returns Saved trace path, or null if nothing was saved
+   */
+  async stopTracing(contextId: string, tracePath?: string): Promise<string | null> {
+    const testContext = this.getContext(contextId);
+    if (!testContext?.context || !testContext.tracing) {
+      return null;
+    }
+
+    testContext.tracing = false;
+    if (!tracePath) {
+      await testContext.context.tracing.stop();
+      logger.debug(`Trace discarded for context: ${contextId}`);
+      return null;
+    }
+
+    PathUtils.ensureDirectoryExists(path.dirname(tracePath));
+    await testContext.context.tracing.stop({ path: tracePath });
+    logger.info(`Trace saved: ${tracePath}`);
+    return tracePath;
+  }
+
+  /**
+   * Stops tracing at the end of a scenario and keeps or deletes all of its traces
+   * Traces of browser contexts the scenario replaced (emulation, certificate switches, role
+   * logins) are kept or deleted together with the trace of the current context.
+   * @param contextId - Unique identifier for the test context
+   * @param tracePath - Zip file for the trace of the current context; every trace is deleted when omitted
+   * @returns Paths of the kept traces, oldest first
+   */
+  async finishTracing(contextId: string, tracePath?: string): Promise<string[]> {
+    const testContext = this.getContext(contextId);
+    if (!testContext) {
+      return [];
+    }
+
+    const chunks = testContext.traceChunks.splice(0);
+    const saved = await this.stopTracing(contextId, tracePath);
+    if (!tracePath) {
+      this.deleteTraces(contextId, chunks);
+      return [];
+    }
+    return saved ? [...chunks, saved] : chunks;
+  }
+
+  /**
+   * Deletes saved trace files
+   * @param contextId - Unique identifier for the test context
+   * @param tracePaths - Trace zip files
+   */
+  private deleteTraces(contextId: string, tracePaths: string[]): void {
+    for (const tracePath of tracePaths) {
+      try {
+        fs.rmSync(tracePath, { force: true });
+      } catch (error) {
+        logger.warn(`Failed to delete trace for context ${contextId}: ${error}`);
+      }
+    }
+  }
+
   /**
    * Captures a screenshot of the current page
    * @param contextId - Unique identifier for the test context
@@ -228,23 +557,122 @@ export class TestContextManager {
 
   /**
    * Cleans up a specific test context and releases all resources
+   * Closing the browser context finalizes its videos and HAR files, which are then kept or deleted.
    * @param contextId - Unique identifier for the test context to cleanup
+   * @param keep - Recordings to keep instead of deleting them
+   * @returns Paths of the kept recordings
    */
-  async cleanupContext(contextId: string): Promise<void> {
+  async cleanupContext(
+    contextId: string,
+    keep: { videos?: boolean; har?: boolean } = {}
+  ): Promise<ScenarioRecordings> {
     const testContext = this.getContext(contextId);
     if (!testContext) {
-      return;
+      return { videos: [], har: [] };
     }
 
     logger.info(`Cleaning up test context: ${contextId}`);
 
     // Close browser resources gracefully
+    await this.closeBrowserContext(contextId, testContext);
+    // Traces of replaced contexts not claimed by finishTracing
+    this.deleteTraces(contextId, testContext.traceChunks.splice(0));
+    const recordings: ScenarioRecordings = {
+      videos: await this.finalizeVideos(contextId, testContext, keep.videos ?? false),
+      har: this.finalizeHar(contextId, testContext, keep.har ?? false),
+    };
+
+    // Clear all stored data
+    testContext.testData.clear();
+    testContext.screenshots.length = 0;
+    testContext.attachments.length = 0;
+    testContext.network.length = 0;
+    testContext.mocks.length = 0;
+    testContext.requests.length = 0;
+    testContext.browserErrors.length = 0;
+    testContext.console.length = 0;
+    testContext.cleanups.length = 0;
+
+    this.contexts.delete(contextId);
+    logger.info(`Test context cleaned up: ${contextId}`);
+    return recordings;
+  }
+
+  /**
+   * Keeps or deletes the finalized videos of a test context
+   * @param contextId - Unique identifier for the test context
+   * @param testContext - Test context whose browser context has been closed
+   * @param keepVideos - Keep the videos instead of deleting them
+   * @returns Paths of the kept video files
+   */
+  private async finalizeVideos(contextId: string, testContext: TestContext, keepVideos: boolean): Promise<string[]> {
+    const videoPaths: string[] = [];
+
+    for (const video of testContext.videos) {
+      try {
+        if (keepVideos) {
+          videoPaths.push(await video.path());
+        } else {
+          await video.delete();
+        }
+      } catch (error) {
+        logger.warn(`Failed to finalize video for context ${contextId}: ${error}`);
+      }
+    }
+
+    testContext.videos.length = 0;
+    if (videoPaths.length > 0) {
+      logger.info(`Video saved: ${videoPaths.join(', ')}`);
+    }
+    return videoPaths;
+  }
+
+  /**
+   * Keeps or deletes the HAR files of a test context
+   * @param contextId - Unique identifier for the test context
+   * @param testContext - Test context whose browser context has been closed
+   * @param keepHar - Keep the HAR files instead of deleting them
+   * @returns Paths of the kept HAR files
+   */
+  private finalizeHar(contextId: string, testContext: TestContext, keepHar: boolean): string[] {
+    const harPaths = testContext.harPaths.filter(harPath => fs.existsSync(harPath));
+    testContext.harPaths.length = 0;
+
+    if (keepHar) {
+      if (harPaths.length > 0) {
+        logger.info(`HAR saved: ${harPaths.join(', ')}`);
+      }
+      return harPaths;
+    }
+
+    for (const harPath of harPaths) {
+      try {
+        fs.unlinkSync(harPath);
+      } catch (error) {
+        logger.warn(`Failed to delete HAR file for context ${contextId}: ${error}`);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Closes the page and browser context of a test context, keeping its data
+   * @param contextId - Unique identifier for the test context
+   * @param testContext - Test context to close the browser resources of
+   */
+  private async closeBrowserContext(contextId: string, testContext: TestContext): Promise<void> {
     if (testContext.page) {
+      // The video is written when the context closes
+      const video = testContext.page.video();
+      if (video) {
+        testContext.videos.push(video);
+      }
       try {
         await testContext.page.close();
       } catch (error) {
         logger.warn(`Failed to close page for context ${contextId}: ${error}`);
       }
+      testContext.page = null;
     }
 
     if (testContext.context) {
@@ -253,15 +681,8 @@ export class TestContextManager {
       } catch (error) {
         logger.warn(`Failed to close browser context for context ${contextId}: ${error}`);
       }
+      testContext.context = null;
     }
-
-    // Clear all stored data
-    testContext.testData.clear();
-    testContext.screenshots.length = 0;
-    testContext.attachments.length = 0;
-
-    this.contexts.delete(contextId);
-    logger.info(`Test context cleaned up: ${contextId}`);
   }
 
   /**
@@ -0,0 +1,77 @@
+/**
+ * Scenario Tracing Test Suite
+ *
+ * Validates the TRACE modes, which traces are kept and where they are saved.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as path from 'path';
+import { getTraceMode, getTracePath, shouldKeepTrace } from './tracing';
+import { logger } from '../../utils/logger';
+import { PathUtils } from '../../utils/paths';
+
+describe('Scenario Tracing', () => {
+  const originalTrace = process.env.TRACE;
+
+  afterEach(() => {
+    if (originalTrace === undefined) {
+      delete process.env.TRACE;
+    } else {
+      process.env.TRACE = originalTrace;
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('getTraceMode', () => {
+    test('should default to retain-on-failure', () => {
+      delete process.env.TRACE;
+
+      expect(getTraceMode()).toBe('retain-on-failure');
+    });
+
+    test('should accept the TRACE modes in any case', () => {
+      process.env.TRACE = 'ON';
+      expect(getTraceMode()).toBe('on');
+
+      process.env.TRACE = 'off';
+      expect(getTraceMode()).toBe('off');
+    });
+
+    test('should warn about unknown values and use the default', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      process.env.TRACE = 'always';
+
+      expect(getTraceMode()).toBe('retain-on-failure');
+      expect(warn).toHaveBeenCalledWith('Unknown TRACE value "always", using retain-on-failure');
+    });
+  });
+
+  describe('shouldKeepTrace', () => {
+    test('should keep only traces of failed scenarios by default', () => {
+      delete process.env.TRACE;
+
+      expect(shouldKeepTrace(true)).toBe(true);
+      expect(shouldKeepTrace(false)).toBe(false);
+    });
+
+    test('should keep every trace with on and none with off', () => {
+      process.env.TRACE = 'on';
+      expect(shouldKeepTrace(false)).toBe(true);
+
+      process.env.TRACE = 'off';
+      expect(shouldKeepTrace(true)).toBe(false);
+    });
+  });
+
+  describe('getTracePath', () => {
+    test('should save traces in a folder named after the scenario', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+
+      expect(getTracePath('Checkout: pay by card')).toBe(
+        path.join(PathUtils.getTracesPath(), 'checkout-pay-by-card', 'trace-1700000000000.zip')
+      );
+    });
+  });
+});
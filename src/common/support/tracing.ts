@@ -0,0 +1,65 @@
+/**
+ * Scenario Tracing Module
+ *
+ * This module decides when Playwright traces recorded for a scenario are kept.
+ * Tracing runs through cucumber-js, so playwright.config.ts `trace` settings do
+ * not apply; the TRACE environment variable controls it instead:
+ * - retain-on-failure (default) - record every scenario, keep traces of failures
+ * - on                          - record and keep every trace
+ * - off                         - do not record traces
+ *
+ * Kept traces are written to test-results/traces/<scenario>/ and can be opened
+ * with `npx playwright show-trace <zip>`.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import { PathUtils } from '../../utils/paths';
+
+/** Supported trace modes */
+export type TraceMode = 'on' | 'off' | 'retain-on-failure';
+
+/** Trace mode used when TRACE is not set */
+const DEFAULT_TRACE_MODE: TraceMode = 'retain-on-failure';
+
+/** Valid TRACE values */
+const TRACE_MODES: TraceMode[] = ['on', 'off', 'retain-on-failure'];
+
+/**
+ * Gets the trace mode of the run
+ * @returns Trace mode from the TRACE environment variable, or the default
+ */
+export function getTraceMode(): TraceMode {
+  const mode = (process.env.TRACE || DEFAULT_TRACE_MODE).toLowerCase() as TraceMode;
+  if (!TRACE_MODES.includes(mode)) {
+    logger.warn(`Unknown TRACE value "${process.env.TRACE}", using ${DEFAULT_TRACE_MODE}`);
+    return DEFAULT_TRACE_MODE;
+  }
+  return mode;
+}
+
+/**
+ * Decides whether the trace of a finished scenario is kept
+ * @param failed - Whether the scenario failed
+ * @returns True if the trace should be saved
+ */
+export function shouldKeepTrace(failed: boolean): boolean {
+  const mode = getTraceMode();
+  return mode === 'on' || (mode === 'retain-on-failure' && failed);
+}
+
+/**
+ * Builds the trace file path of a scenario
+ * @param scenarioName - Scenario name
+ * @returns Absolute path of a new trace zip under test-results/traces/<scenario>/
+ */
+export function getTracePath(scenarioName: string): string {
+  return path.join(
+    PathUtils.getTracesPath(),
+    PathUtils.toFileName(scenarioName),
+    `trace-${Date.now()}.zip`
+  );
+}
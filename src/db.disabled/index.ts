@@ -1,9 +1,12 @@
-import { loadConfig, isOnPremEnv } from '../../config';
+import { assertSecretsResolved, isOnPremEnv } from '../../config';
 import { OracleConnectionPool } from './oracle/oraclePool';
 import { OracleSqlHelper } from './oracle/oracleSql';
 import { PostgresConnectionPool } from './postgres/pgPool';
 import { PostgresSqlHelper } from './postgres/pgSql';
 import { logger } from '../utils/logger';
+import { ConfigManager } from '../utils/ConfigManager';
+import { getEnvironmentTimeouts } from '../common/support/env';
+import { setTransactionProvider, type ScenarioTransaction } from '../common/support/dbTransactions';
 import { ConnectionPool, DatabaseType } from './types';
 
 export class DatabaseManager {
@@ -12,7 +15,7 @@ export class DatabaseManager {
   private postgresPool: PostgresConnectionPool | null = null;
   private oracleSql: OracleSqlHelper | null = null;
   private postgresSql: PostgresSqlHelper | null = null;
-  private config = loadConfig();
+  private config = ConfigManager.getInstance().getConfig();
 
   private constructor() {}
 
@@ -35,6 +38,10 @@ export class DatabaseManager {
   // Get Oracle pool (for on-premise environments)
   async getOraclePool(): Promise<OracleConnectionPool> {
     if (!this.oraclePool) {
+      if (!this.config.db.oracle) {
+        throw new Error(`Oracle database is not configured for environment ${this.config.name}`);
+      }
+      assertSecretsResolved('db.oracle');
       logger.info('Initializing Oracle connection pool');
       this.oraclePool = new OracleConnectionPool(this.config.db.oracle);
       await this.oraclePool.initialize();
@@ -45,6 +52,10 @@ export class DatabaseManager {
   // Get PostgreSQL pool (for cloud environments)
   async getPostgresPool(): Promise<PostgresConnectionPool> {
     if (!this.postgresPool) {
+      if (!this.config.db.postgres) {
+        throw new Error(`PostgreSQL database is not configured for environment ${this.config.name}`);
+      }
+      assertSecretsResolved('db.postgres');
       logger.info('Initializing PostgreSQL connection pool');
       this.postgresPool = new PostgresConnectionPool(this.config.db.postgres);
       await this.postgresPool.initialize();
@@ -84,10 +95,10 @@ export class DatabaseManager {
     return isOnPremEnv() ? DatabaseType.ORACLE : DatabaseType.POSTGRES;
   }
 
-  // Execute query using the appropriate database
+  // Execute query using the appropriate database (defaults to the environment database timeout)
   async query(sql: string, params: any[] = [], options?: { timeout?: number; maxRows?: number }) {
     const pool = await this.getPool();
-    return pool.query(sql, params, options);
+    return pool.query(sql, params, { timeout: getEnvironmentTimeouts().database, ...options });
   }
 
   // Health check for all active connections
@@ -128,6 +139,12 @@ export class DatabaseManager {
     return status;
   }
 
+  // Begin a transaction on the database of the current environment
+  async beginTransaction(): Promise<ScenarioTransaction> {
+    const pool = isOnPremEnv() ? await this.getOraclePool() : await this.getPostgresPool();
+    return pool.beginTransaction();
+  }
+
   // Close all database connections
   async closeAll(): Promise<void> {
     logger.info('Closing all database connections');
@@ -169,6 +186,9 @@ export class DatabaseManager {
   }
 }
 
+// @db scenarios run in a transaction of the current environment's database (see db.hooks.ts)
+setTransactionProvider(() => DatabaseManager.getInstance().beginTransaction());
+
 // Convenience functions for easy access
 export async function getDatabase(): Promise<ConnectionPool> {
   return DatabaseManager.getInstance().getPool();
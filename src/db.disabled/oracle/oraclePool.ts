@@ -95,9 +95,14 @@ export class OracleConnectionPool implements ConnectionPool {
     
     const startTime = Date.now();
     let connection: oracledb.Connection | null = null;
+    let previousCallTimeout: number | undefined;
 
     try {
       connection = await this.getConnection();
+      if (options.timeout) {
+        previousCallTimeout = connection.callTimeout;
+        connection.callTimeout = options.timeout;
+      }
       
       logger.debug(`Executing Oracle query: ${sql.substring(0, 100)}${sql.length > 100 ? '...' : ''}`);
       
@@ -125,6 +130,10 @@ export class OracleConnectionPool implements ConnectionPool {
     } finally {
       if (connection) {
         try {
+          // Pooled connections are reused; the next query must not inherit this timeout
+          if (options.timeout) {
+            connection.callTimeout = previousCallTimeout ?? 0;
+          }
           await connection.close();
           logger.debug('Oracle connection returned to pool');
         } catch (closeError) {
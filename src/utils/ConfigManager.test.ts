@@ -0,0 +1,172 @@
+/**
+ * Configuration Manager Test Suite
+ *
+ * Validates the precedence of configuration sources and the provenance
+ * reported for every value.
+ *
+ * @author OpenHands
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager, ConfigSource } from './ConfigManager';
+import { logger } from './logger';
+import { getConfigSources, loadConfig } from '../../config';
+
+jest.mock('../../config', () => ({
+  loadConfig: jest.fn(),
+  getConfigSources: jest.fn(),
+  getAppEnv: () => 'T5',
+  getDefaultAppName: (config: { defaultApp?: string; apps: object }) =>
+    config.defaultApp || Object.keys(config.apps)[0],
+}));
+
+describe('Config Manager', () => {
+  const originalEnv = process.env;
+  const originalArgv = process.argv;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-manager-test-'));
+    process.env = Object.fromEntries(
+      Object.entries(originalEnv).filter(([key]) => !key.startsWith('APP_'))
+    );
+    process.argv = ['node', 'script.ts'];
+    jest.mocked(loadConfig).mockReturnValue({
+      name: 'T5',
+      apps: { shop: { baseUrl: 'https://shop.test', username: 'buyer' } },
+      db: { postgres: { host: 'db.test', port: 5432 } },
+      timeouts: { action: 10000 },
+    } as unknown as ReturnType<typeof loadConfig>);
+    jest.mocked(getConfigSources).mockReturnValue({
+      name: 'env/test/T5.json',
+      'apps.shop.baseUrl': 'env/test/T5.json',
+      'apps.shop.username': 'environment variables',
+      'db.postgres.host': 'env/test/_group.json',
+      'db.postgres.port': 'env/test/_group.json',
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    process.argv = originalArgv;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Creates a fresh manager reading the given configuration files
+   * @param files - Configuration file contents keyed by file name
+   * @returns Configuration manager
+   */
+  function createManager(files: Record<string, object> = {}): ConfigManager {
+    const configFiles = Object.entries(files).map(([name, content]) => {
+      const filePath = path.join(tempDir, name);
+      fs.writeFileSync(filePath, JSON.stringify(content));
+      return filePath;
+    });
+    return ConfigManager.getInstance({ configFiles });
+  }
+
+  describe('explain and getOrigin', () => {
+    test('should report the layer of each value of the environment configuration', () => {
+      const manager = createManager();
+
+      expect(manager.explain('db.postgres.host')).toBe(ConfigSource.FILE);
+      expect(manager.getOrigin('db.postgres.host')).toBe('env/test/_group.json');
+      expect(manager.explain('apps.shop.username')).toBe(ConfigSource.ENVIRONMENT);
+      expect(manager.getOrigin('apps.shop.username')).toBe('environment variables');
+      expect(manager.explain('timeouts.action')).toBe(ConfigSource.DEFAULT);
+      expect(manager.getOrigin('timeouts.action')).toBe('schema default');
+    });
+
+    test('should resolve app keys to the active application', () => {
+      const manager = createManager();
+
+      expect(manager.getOrigin('app.baseUrl')).toBe('env/test/T5.json');
+      expect(manager.get('app.baseUrl')).toBe('https://shop.test');
+    });
+
+    test('should return undefined for keys that are not configured values', () => {
+      const manager = createManager();
+
+      expect(manager.explain('db.oracle.host')).toBeUndefined();
+      expect(manager.getOrigin('db.postgres')).toBeUndefined();
+    });
+  });
+
+  describe('source precedence', () => {
+    test('should layer files, variables, CLI arguments and runtime changes in order', () => {
+      process.env.APP_DB_POSTGRES_HOST = 'variable.test';
+      process.env.APP_DB_POSTGRES_PORT = '6543';
+      process.argv = ['node', 'script.ts', '--config.db.postgres.port', '7654'];
+      const manager = createManager({
+        'config.json': {
+          db: { postgres: { host: 'file.test', port: 1111 } },
+          timeouts: { action: 5 },
+        },
+      });
+
+      expect(manager.get('timeouts.action')).toBe(5);
+      expect(manager.getOrigin('timeouts.action')).toBe(path.join(tempDir, 'config.json'));
+      expect(manager.get('db.postgres.host')).toBe('variable.test');
+      expect(manager.explain('db.postgres.host')).toBe(ConfigSource.ENVIRONMENT);
+      expect(manager.getOrigin('db.postgres.host')).toBe('APP_DB_POSTGRES_HOST');
+      expect(manager.get('db.postgres.port')).toBe(7654);
+      expect(manager.explain('db.postgres.port')).toBe(ConfigSource.CLI_ARGS);
+      expect(manager.getOrigin('db.postgres.port')).toBe('--config.db.postgres.port');
+
+      manager.set('db.postgres.host', 'runtime.test');
+
+      expect(manager.explain('db.postgres.host')).toBe(ConfigSource.RUNTIME);
+      expect(manager.getOrigin('db.postgres.host')).toBe(ConfigSource.RUNTIME);
+    });
+
+    test('should match variable names to camelCase keys and documented aliases', () => {
+      process.env.APP_APP_USERNAME = 'shopper';
+      process.env.APP_BASE_URL = 'https://staging.shop.test';
+      const manager = createManager();
+
+      expect(manager.get('apps.shop.username')).toBe('shopper');
+      expect(manager.getOrigin('app.username')).toBe('APP_APP_USERNAME');
+      expect(manager.get('apps.shop.baseUrl')).toBe('https://staging.shop.test');
+      expect(manager.getOrigin('app.baseUrl')).toBe('APP_BASE_URL');
+    });
+
+    test('should ignore variables that match no configuration key', () => {
+      process.env.APP_ENV = 'T3';
+      process.env.APP_DB_POSTGRES_SCHEMA = 'public';
+      const manager = createManager();
+
+      expect(manager.has('env')).toBe(false);
+      expect(manager.has('db.postgres.schema')).toBe(false);
+      expect(Object.keys(manager.getProvenance())).not.toContain('env');
+    });
+
+    test('should drop the provenance of values replaced by an object', () => {
+      const manager = createManager();
+
+      manager.set('db.postgres', { host: 'replaced.test' });
+
+      expect(manager.explain('db.postgres.host')).toBe(ConfigSource.RUNTIME);
+      expect(manager.explain('db.postgres.port')).toBeUndefined();
+    });
+  });
+
+  describe('environment configuration errors', () => {
+    test('should not report success and should rethrow the error from getConfig', () => {
+      const info = jest.spyOn(logger, 'info');
+      jest.mocked(loadConfig).mockImplementation(() => {
+        throw new Error('Unknown environment: T9');
+      });
+
+      const manager = createManager();
+
+      expect(info).not.toHaveBeenCalledWith('Configuration loaded successfully');
+      expect(() => manager.getConfig()).toThrow('Unknown environment: T9');
+      expect(manager.explain('db.postgres.host')).toBeUndefined();
+    });
+  });
+});
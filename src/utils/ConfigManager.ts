@@ -10,6 +10,8 @@
  * 
  * Key Features:
  * - Multi-source configuration loading (files, environment, CLI args)
+ * - Single store on top of the validated environment configuration (config/)
+ * - Per-key provenance tracking (which source supplied each value)
  * - Environment-specific configuration management
  * - Configuration validation and schema enforcement
  * - Dynamic configuration updates and hot-reloading
@@ -17,6 +19,11 @@
  * - Configuration caching and performance optimization
  * - Configuration merging and inheritance
  * - Runtime configuration monitoring and logging
+ *
+ * Sources are layered from lowest to highest precedence:
+ * defaults < environment config (config/env) < config files < APP_* variables
+ * < --config.* CLI args < runtime changes. `app.*` keys are an alias of the
+ * active application (`apps.<name>.*`).
  * 
  * @author OpenHands
  * @version 1.0.0
@@ -27,6 +34,18 @@ import * as path from 'path';
 import { logger } from './logger';
 import { PathUtils } from './paths';
 import { FileUtils } from './FileUtils';
+import { loadConfig, getConfigSources, getAppEnv, getDefaultAppName } from '../../config';
+import { validateConfig, type Config } from '../../config/schema';
+
+/**
+ * Environment variables (without the prefix) that set a key other than the one
+ * their name spells, as documented for runtime overrides in the user guide
+ */
+const ENV_VARIABLE_ALIASES: Record<string, string> = {
+  BASE_URL: 'app.baseUrl',
+  USERNAME: 'app.username',
+  PASSWORD: 'app.password'
+};
 
 /**
  * Configuration source types
@@ -82,6 +101,16 @@ export interface ConfigChangeEvent {
   timestamp: Date;
 }
 
+/**
+ * Provenance of a single configuration value
+ */
+export interface ConfigProvenance {
+  /** Source type that supplied the value */
+  source: ConfigSource;
+  /** Concrete origin (layer file, environment variable or CLI argument) */
+  origin: string;
+}
+
 /**
  * Configuration manager options interface
  */
@@ -100,6 +129,8 @@ export interface ConfigManagerOptions {
   encryptionKey?: string;
   /** Default configuration values */
   defaults?: any;
+  /** Load the validated environment configuration (APP_ENV) as the base layer */
+  loadEnvironment?: boolean;
 }
 
 /**
@@ -125,6 +156,10 @@ export class ConfigManager {
   private watchers: Map<string, string> = new Map();
   private changeListeners: Array<(event: ConfigChangeEvent) => void> = [];
   private cache: Map<string, { value: any; timestamp: number }> = new Map();
+  private provenance: Map<string, ConfigProvenance> = new Map();
+  private activeApp: string | null = null;
+  private validatedConfig: Config | null = null;
+  private environmentError: Error | null = null;
   private fileUtils: FileUtils;
 
   private constructor(options: ConfigManagerOptions = {}) {
@@ -133,6 +168,7 @@ export class ConfigManager {
       envPrefix: 'APP_',
       watch: false,
       cacheTTL: 300000, // 5 minutes
+      loadEnvironment: true,
       ...options
     };
 
@@ -170,7 +206,7 @@ export class ConfigManager {
         return cached;
       }
 
-      const keys = keyPath.split('.');
+      const keys = this.resolveAlias(keyPath).split('.');
       let value = this.config;
 
       for (const key of keys) {
@@ -200,26 +236,12 @@ export class ConfigManager {
    */
   set(keyPath: string, value: any, source: ConfigSource = ConfigSource.RUNTIME): void {
     try {
-      const keys = keyPath.split('.');
       const oldValue = this.get(keyPath);
       
-      let current = this.config;
-      
-      // Navigate to the parent object
-      for (let i = 0; i < keys.length - 1; i++) {
-        const key = keys[i];
-        if (!(key in current) || typeof current[key] !== 'object') {
-          current[key] = {};
-        }
-        current = current[key];
-      }
+      this.assignValue(this.resolveAlias(keyPath), value, source, source);
       
-      // Set the final value
-      const finalKey = keys[keys.length - 1];
-      current[finalKey] = value;
-      
-      // Clear cache for this key and related keys
-      this.clearCacheForKey(keyPath);
+      // Clear cache, aliased keys may have changed too
+      this.clearCache();
       
       // Emit change event
       this.emitChangeEvent({
@@ -244,7 +266,7 @@ export class ConfigManager {
    */
   has(keyPath: string): boolean {
     try {
-      const keys = keyPath.split('.');
+      const keys = this.resolveAlias(keyPath).split('.');
       let current = this.config;
       
       for (const key of keys) {
@@ -268,7 +290,8 @@ export class ConfigManager {
    */
   delete(keyPath: string): void {
     try {
-      const keys = keyPath.split('.');
+      const resolvedPath = this.resolveAlias(keyPath);
+      const keys = resolvedPath.split('.');
       const oldValue = this.get(keyPath);
       
       if (keys.length === 1) {
@@ -291,8 +314,9 @@ export class ConfigManager {
         delete current[finalKey];
       }
       
-      // Clear cache
-      this.clearCacheForKey(keyPath);
+      // Clear cache and provenance
+      this.clearProvenance(resolvedPath);
+      this.clearCache();
       
       // Emit change event
       this.emitChangeEvent({
@@ -350,7 +374,7 @@ export class ConfigManager {
    */
   merge(newConfig: any, source: ConfigSource = ConfigSource.RUNTIME): void {
     try {
-      this.config = this.deepMerge(this.config, newConfig);
+      this.applyLayer(newConfig, source, source);
       this.clearCache();
       
       logger.info(`Configuration merged from source: ${source}`);
@@ -433,6 +457,63 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Explains which source supplied a configuration value
+   * @param keyPath - Dot-separated key path (e.g., 'db.postgres.host')
+   * @returns Winning configuration source, or undefined if the key is not a configured value
+   */
+  explain(keyPath: string): ConfigSource | undefined {
+    return this.provenance.get(this.resolveAlias(keyPath))?.source;
+  }
+
+  /**
+   * Gets the concrete origin of a configuration value
+   * @param keyPath - Dot-separated key path
+   * @returns Origin such as 'env/test/T5.json', 'APP_DB_POSTGRES_HOST' or '--config.db.postgres.host'
+   */
+  getOrigin(keyPath: string): string | undefined {
+    return this.provenance.get(this.resolveAlias(keyPath))?.origin;
+  }
+
+  /**
+   * Gets the provenance of every configured value
+   * @returns Map of dotted key path to provenance
+   */
+  getProvenance(): Record<string, ConfigProvenance> {
+    return Object.fromEntries(this.provenance);
+  }
+
+  /**
+   * Gets the validated environment configuration with every override applied
+   * This is the configuration used by the framework (hooks, API clients, databases).
+   * @returns Environment configuration validated against the config schema
+   * @throws Error if the environment configuration could not be loaded or an override is invalid
+   */
+  getConfig(): Config {
+    if (this.environmentError) {
+      throw this.environmentError;
+    }
+
+    if (!this.validatedConfig) {
+      try {
+        this.validatedConfig = validateConfig(this.config);
+      } catch (error) {
+        throw new Error(`Configuration overrides for ${getAppEnv()} are invalid: ${error}`);
+      }
+    }
+
+    return this.validatedConfig;
+  }
+
+  /**
+   * Selects the application that `app.*` keys resolve to
+   * @param appName - Application name, or null for the environment's default application
+   */
+  setActiveApp(appName: string | null): void {
+    this.activeApp = appName;
+    this.clearCache();
+  }
+
   /**
    * Gets environment-specific configuration
    * @param environment - Environment name
@@ -504,9 +585,19 @@ export class ConfigManager {
    * Loads configuration from all sources
    */
   private loadConfiguration(): void {
+    this.config = {};
+    this.provenance.clear();
+    this.validatedConfig = null;
+    this.environmentError = null;
+
     // Start with defaults
     if (this.options.defaults) {
-      this.config = JSON.parse(JSON.stringify(this.options.defaults));
+      this.applyLayer(this.options.defaults, ConfigSource.DEFAULT, 'defaults');
+    }
+
+    // Load the validated environment configuration
+    if (this.options.loadEnvironment) {
+      this.loadFromEnvironmentConfig();
     }
 
     // Load from configuration files
@@ -524,7 +615,38 @@ export class ConfigManager {
       logger.warn(`Configuration validation failed: ${validation.errors.join(', ')}`);
     }
     
-    logger.info('Configuration loaded successfully');
+    // A missing environment configuration was already reported, and getConfig() rethrows it
+    if (!this.environmentError && validation.isValid) {
+      logger.info('Configuration loaded successfully');
+    }
+  }
+
+  /**
+   * Loads the validated configuration of the current environment (APP_ENV)
+   * Every value keeps the layer that supplied it; keys filled in by schema
+   * defaults are recorded as defaults.
+   */
+  private loadFromEnvironmentConfig(): void {
+    try {
+      const environmentConfig = loadConfig();
+      const sources = getConfigSources();
+
+      for (const [keyPath, value] of Object.entries(this.flatten(environmentConfig))) {
+        const origin = sources[keyPath];
+        if (!origin) {
+          this.assignValue(keyPath, value, ConfigSource.DEFAULT, 'schema default');
+        } else if (origin === 'environment variables') {
+          this.assignValue(keyPath, value, ConfigSource.ENVIRONMENT, origin);
+        } else {
+          this.assignValue(keyPath, value, ConfigSource.FILE, origin);
+        }
+      }
+
+      logger.debug(`Loaded environment configuration for ${getAppEnv()}`);
+    } catch (error) {
+      this.environmentError = error instanceof Error ? error : new Error(String(error));
+      logger.warn(`Environment configuration not available: ${this.environmentError.message}`);
+    }
   }
 
   /**
@@ -550,7 +672,7 @@ export class ConfigManager {
             continue;
           }
           
-          this.config = this.deepMerge(this.config, fileConfig);
+          this.applyLayer(fileConfig, ConfigSource.FILE, configFile);
           logger.debug(`Loaded configuration from: ${configFile}`);
         }
       } catch (error) {
@@ -561,25 +683,41 @@ export class ConfigManager {
 
   /**
    * Loads configuration from environment variables
+   * Only variables naming an existing key (or one of ENV_VARIABLE_ALIASES) are
+   * applied; others, such as APP_ENV, are not configuration values.
    */
   private loadFromEnvironment(): void {
     if (!this.options.envPrefix) return;
 
-    const envConfig: any = {};
     const prefix = this.options.envPrefix;
+    let loaded = 0;
+    const ignored: string[] = [];
     
     Object.keys(process.env).forEach(key => {
       if (key.startsWith(prefix)) {
-        const configKey = key.substring(prefix.length).toLowerCase().replace(/_/g, '.');
+        const name = key.substring(prefix.length);
+        const alias = ENV_VARIABLE_ALIASES[name.toUpperCase()];
+        // Variable names are case-insensitive, so match existing camelCase keys (APP_APP_BASEURL -> app.baseUrl)
+        const configKey = this.matchExistingKeyPath(
+          this.resolveAlias(alias || name.toLowerCase().replace(/_/g, '.'))
+        );
+        if (!this.has(configKey)) {
+          ignored.push(key);
+          return;
+        }
+
         const value = this.parseEnvValue(process.env[key]!);
-        this.setNestedValue(envConfig, configKey, value);
+        this.assignValue(configKey, value, ConfigSource.ENVIRONMENT, key);
+        loaded++;
       }
     });
     
-    if (Object.keys(envConfig).length > 0) {
-      this.config = this.deepMerge(this.config, envConfig);
+    if (loaded > 0) {
       logger.debug('Loaded configuration from environment variables');
     }
+    if (ignored.length > 0) {
+      logger.debug(`Ignored environment variables without a configuration key: ${ignored.join(', ')}`);
+    }
   }
 
   /**
@@ -587,7 +725,7 @@ export class ConfigManager {
    */
   private loadFromCliArgs(): void {
     const args = process.argv.slice(2);
-    const cliConfig: any = {};
+    let loaded = 0;
     
     for (let i = 0; i < args.length; i++) {
       const arg = args[i];
@@ -597,14 +735,14 @@ export class ConfigManager {
         const value = args[i + 1];
         
         if (value && !value.startsWith('--')) {
-          this.setNestedValue(cliConfig, key, this.parseEnvValue(value));
+          this.assignValue(this.resolveAlias(key), this.parseEnvValue(value), ConfigSource.CLI_ARGS, arg);
+          loaded++;
           i++; // Skip the value in next iteration
         }
       }
     }
     
-    if (Object.keys(cliConfig).length > 0) {
-      this.config = this.deepMerge(this.config, cliConfig);
+    if (loaded > 0) {
       logger.debug('Loaded configuration from CLI arguments');
     }
   }
@@ -700,46 +838,119 @@ export class ConfigManager {
   }
 
   /**
-   * Deep merges two objects
-   * @param target - Target object
-   * @param source - Source object
-   * @returns Merged object
+   * Merges a configuration object into the store, recording the source of every leaf
+   * @param layer - Configuration object (or single value) to merge
+   * @param source - Configuration source
+   * @param origin - Concrete origin recorded for every leaf
+   * @param prefix - Dot-separated key path the layer is merged at
    */
-  private deepMerge(target: any, source: any): any {
-    const result = { ...target };
-    
-    for (const key in source) {
-      if (source.hasOwnProperty(key)) {
-        if (source[key] && typeof source[key] === 'object' && !Array.isArray(source[key])) {
-          result[key] = this.deepMerge(result[key] || {}, source[key]);
-        } else {
-          result[key] = source[key];
-        }
+  private applyLayer(layer: any, source: ConfigSource, origin: string, prefix = ''): void {
+    if (layer && typeof layer === 'object' && !Array.isArray(layer)) {
+      for (const [key, value] of Object.entries(layer)) {
+        this.applyLayer(value, source, origin, prefix ? `${prefix}.${key}` : key);
       }
+    } else if (prefix) {
+      this.assignValue(prefix, layer, source, origin);
     }
-    
-    return result;
   }
 
   /**
-   * Sets a nested value in an object
-   * @param obj - Target object
-   * @param path - Dot-separated path
+   * Sets a value in the store (replacing any existing subtree) and records its provenance
+   * @param keyPath - Dot-separated key path
    * @param value - Value to set
+   * @param source - Configuration source
+   * @param origin - Concrete origin of the value
    */
-  private setNestedValue(obj: any, path: string, value: any): void {
-    const keys = path.split('.');
-    let current = obj;
+  private assignValue(keyPath: string, value: any, source: ConfigSource, origin: string): void {
+    const keys = keyPath.split('.');
+    let current = this.config;
     
     for (let i = 0; i < keys.length - 1; i++) {
       const key = keys[i];
-      if (!(key in current) || typeof current[key] !== 'object') {
+      if (!current[key] || typeof current[key] !== 'object' || Array.isArray(current[key])) {
+        this.clearProvenance(keys.slice(0, i + 1).join('.'));
         current[key] = {};
       }
       current = current[key];
     }
     
+    this.clearProvenance(keyPath);
     current[keys[keys.length - 1]] = value;
+    
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const leafPath of Object.keys(this.flatten(value, keyPath))) {
+        this.provenance.set(leafPath, { source, origin });
+      }
+    } else {
+      this.provenance.set(keyPath, { source, origin });
+    }
+  }
+
+  /**
+   * Removes the provenance of a key and everything below it
+   * Also invalidates the validated environment configuration
+   * @param keyPath - Dot-separated key path
+   */
+  private clearProvenance(keyPath: string): void {
+    for (const key of Array.from(this.provenance.keys())) {
+      if (key === keyPath || key.startsWith(`${keyPath}.`)) {
+        this.provenance.delete(key);
+      }
+    }
+    this.validatedConfig = null;
+  }
+
+  /**
+   * Maps `app` / `app.*` keys to the active application (`apps.<name>.*`)
+   * @param keyPath - Dot-separated key path
+   * @returns Key path with the alias resolved
+   */
+  private resolveAlias(keyPath: string): string {
+    if ((keyPath !== 'app' && !keyPath.startsWith('app.')) || !this.config.apps) {
+      return keyPath;
+    }
+
+    const appName = this.activeApp || getDefaultAppName(this.config as Config);
+    return `apps.${appName}${keyPath.substring(3)}`;
+  }
+
+  /**
+   * Matches each segment of a lower-cased key path to an existing key, ignoring case
+   * @param keyPath - Dot-separated key path
+   * @returns Key path using the existing key names where they exist
+   */
+  private matchExistingKeyPath(keyPath: string): string {
+    let current = this.config;
+    
+    return keyPath
+      .split('.')
+      .map(segment => {
+        const match = current && typeof current === 'object'
+          ? Object.keys(current).find(key => key.toLowerCase() === segment.toLowerCase())
+          : undefined;
+        current = match ? current[match] : undefined;
+        return match || segment;
+      })
+      .join('.');
+  }
+
+  /**
+   * Flattens an object into dot-separated key paths
+   * @param obj - Object to flatten
+   * @param prefix - Key path of the object
+   * @param result - Flattened map being built
+   * @returns Map of key path to leaf value
+   */
+  private flatten(obj: any, prefix = '', result: Record<string, any> = {}): Record<string, any> {
+    for (const [key, value] of Object.entries(obj)) {
+      const keyPath = prefix ? `${prefix}.${key}` : key;
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        this.flatten(value, keyPath, result);
+      } else {
+        result[keyPath] = value;
+      }
+    }
+    return result;
   }
 
   /**
@@ -863,22 +1074,6 @@ export class ConfigManager {
     });
   }
 
-  /**
-   * Clears cache for a specific key and related keys
-   * @param key - Key to clear
-   */
-  private clearCacheForKey(key: string): void {
-    // Clear exact match
-    this.cache.delete(key);
-    
-    // Clear keys that start with this key
-    for (const cacheKey of this.cache.keys()) {
-      if (cacheKey.startsWith(key + '.')) {
-        this.cache.delete(cacheKey);
-      }
-    }
-  }
-
   /**
    * Clears entire cache
    */
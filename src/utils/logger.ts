@@ -13,6 +13,7 @@
  * - Timestamp formatting
  * - Stack trace support for errors
  * - Automatic log directory creation
+ * - In-memory buffer of the most recent lines for failure debug bundles
  * 
  * @author OpenHands
  * @version 1.0.0
@@ -20,10 +21,34 @@
 
 import winston from 'winston';
 import * as fs from 'fs';
+import { Writable } from 'stream';
 
 /** Log level from environment variable, defaults to 'info' */
 const logLevel = process.env.LOG_LEVEL || 'info';
 
+/** Number of recent log lines kept in memory */
+const MAX_RECENT_LOG_LINES = 200;
+
+/** Most recent formatted log lines, oldest first */
+const recentLogLines: string[] = [];
+
+/**
+ * Stream keeping the most recent log lines in memory
+ */
+const recentLogStream = new Writable({
+  write(chunk, _encoding, callback) {
+    for (const line of chunk.toString().split('\n')) {
+      if (line.length > 0) {
+        recentLogLines.push(line);
+      }
+    }
+    if (recentLogLines.length > MAX_RECENT_LOG_LINES) {
+      recentLogLines.splice(0, recentLogLines.length - MAX_RECENT_LOG_LINES);
+    }
+    callback();
+  },
+});
+
 /**
  * Winston logger instance configured for the BDD framework
  * Provides structured logging with multiple transports and formatting
@@ -68,6 +93,9 @@ export const logger = winston.createLogger({
       maxsize: 5242880, // 5MB
       maxFiles: 5,
     }),
+
+    /** Recent lines kept in memory for failure debug bundles */
+    new winston.transports.Stream({ stream: recentLogStream }),
   ],
 });
 
@@ -77,4 +105,19 @@ export const logger = winston.createLogger({
  */
 if (!fs.existsSync('logs')) {
   fs.mkdirSync('logs');
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the most recent log lines
+ * @returns Up to the last 200 log lines, oldest first
+ */
+export function getRecentLogLines(): string[] {
+  return [...recentLogLines];
+}
+
+/**
+ * Forgets the buffered log lines, e.g. when a new scenario starts
+ */
+export function clearRecentLogLines(): void {
+  recentLogLines.length = 0;
+}
@@ -24,12 +24,25 @@ import * as fs from 'fs';
  * Provides static methods for common path operations and validations
  */
 export class PathUtils {
+  private static projectRoot: string | undefined;
+
   /**
    * Gets the absolute path to the project root directory
+   * The nearest directory holding package.json, so compiled code under dist/ and
+   * ts-node resolve the same root (and the same test-results directory).
    * @returns Absolute path to project root
    */
   static getProjectRoot(): string {
-    return path.resolve(__dirname, '../..');
+    if (!this.projectRoot) {
+      let dir = __dirname;
+      while (!fs.existsSync(path.join(dir, 'package.json')) && path.dirname(dir) !== dir) {
+        dir = path.dirname(dir);
+      }
+      this.projectRoot = fs.existsSync(path.join(dir, 'package.json'))
+        ? dir
+        : path.resolve(__dirname, '../..');
+    }
+    return this.projectRoot;
   }
 
   /**
@@ -65,6 +78,67 @@ export class PathUtils {
     return path.join(this.getProjectRoot(), 'test-results');
   }
 
+  /**
+   * Gets the absolute path to the Playwright traces directory
+   * @returns Absolute path to test-results/traces directory
+   */
+  static getTracesPath(): string {
+    return path.join(this.getTestResultsPath(), 'traces');
+  }
+
+  /**
+   * Gets the absolute path to the scenario videos directory
+   * @returns Absolute path to test-results/videos directory
+   */
+  static getVideosPath(): string {
+    return path.join(this.getTestResultsPath(), 'videos');
+  }
+
+  /**
+   * Gets the absolute path to the HAR files directory
+   * @returns Absolute path to test-results/har directory
+   */
+  static getHarPath(): string {
+    return path.join(this.getTestResultsPath(), 'har');
+  }
+
+  /**
+   * Gets the absolute path to the scenario result history directory
+   * @returns Absolute path to test-results/history directory
+   */
+  static getHistoryPath(): string {
+    return path.join(this.getTestResultsPath(), 'history');
+  }
+
+  /**
+   * Gets the absolute path to the archived run reports directory
+   * @returns Absolute path to test-results/runs directory
+   */
+  static getRunsPath(): string {
+    return path.join(this.getTestResultsPath(), 'runs');
+  }
+
+  /**
+   * Gets the absolute path to the saved login sessions directory
+   * @returns Absolute path to test-results/auth directory
+   */
+  static getAuthPath(): string {
+    return path.join(this.getTestResultsPath(), 'auth');
+  }
+
+  /**
+   * Converts a free-form name (e.g. a scenario name) into a safe file or directory name
+   * @param name - Name to convert
+   * @returns Lower-case name containing only letters, digits, dashes and underscores
+   */
+  static toFileName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 100) || 'unnamed';
+  }
+
   /**
    * Ensures a directory exists, creating it recursively if necessary
    * @param dirPath - Path to the directory to create
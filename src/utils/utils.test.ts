@@ -18,11 +18,9 @@ import {
   TestDataGenerator, 
   ScreenshotUtils, 
   DataProvider, 
-  DataSourceType,
   FileUtils, 
   ConfigManager, 
   DriverManager, 
-  BrowserName,
   UtilityFactory,
   Utils 
 } from './index';
@@ -205,10 +203,11 @@ describe('Utilities Test Suite', () => {
 
     beforeEach(() => {
       dataProvider = DataProvider.getInstance({
-        cache: { enabled: true, ttl: 300000 },
+        cache: { enabled: true, ttl: 300000, maxSize: 100 },
         validation: {
           required: ['id', 'name'],
-          types: { id: 'number', name: 'string' }
+          types: { id: 'number', name: 'string' },
+          patterns: {}
         }
       });
     });
@@ -380,7 +379,9 @@ describe('Utilities Test Suite', () => {
     let configManager: ConfigManager;
 
     beforeEach(() => {
+      // Without the environment configuration, whose apps would turn app.* into an alias
       configManager = ConfigManager.getInstance({
+        loadEnvironment: false,
         defaults: {
           app: { name: 'Test App', version: '1.0.0' },
           database: { host: 'localhost', port: 5432 }
@@ -556,7 +557,7 @@ describe('Utilities Test Suite', () => {
         config: Utils.config.get('test')
       };
       
-      const dataFile = await Utils.file.createTempFile('integration-test', '.json');
+      const dataFile = await Utils.file.createTempFile('integration-test');
       await Utils.file.writeFile(dataFile, JSON.stringify(testData, null, 2));
       
       // Verify file was created and contains correct data